@@ -0,0 +1,125 @@
+import * as vscode from "vscode";
+import Store from "./store";
+import ChatProviderManager from "./manager";
+import { CommandRegistry } from "./controller/commands";
+import {
+  Channel,
+  Users,
+  Message,
+  MessageReply,
+  ChatCommandHandler
+} from "./interfaces";
+import * as str from "./strings";
+
+export interface ChatMessageEvent {
+  provider: string;
+  channelId: string;
+  message: Message | MessageReply;
+  parentTimestamp?: string; // for thread replies
+}
+
+/**
+ * Returned from activate, for other extensions to use with
+ * vscode.extensions.getExtension("karigari.chat").exports
+ */
+export interface ChatExtensionApi {
+  getProviders: () => string[];
+  getChannels: (provider: string) => Channel[];
+  getUsers: (provider: string) => Users;
+  sendMessage: (
+    provider: string,
+    channelId: string,
+    text: string
+  ) => Promise<void>;
+  sendDirectMessage: (
+    provider: string,
+    userId: string,
+    text: string
+  ) => Promise<void>;
+  onDidReceiveMessage: vscode.Event<ChatMessageEvent>;
+  registerSlashCommand: (
+    namespace: string,
+    subcommand: string,
+    handler: ChatCommandHandler
+  ) => vscode.Disposable;
+}
+
+export default class ChatApi implements ChatExtensionApi, vscode.Disposable {
+  private messageEmitter = new vscode.EventEmitter<ChatMessageEvent>();
+  onDidReceiveMessage = this.messageEmitter.event;
+
+  constructor(private store: Store, private registry: CommandRegistry) {}
+
+  getProviders = (): string[] => {
+    // Keys of the connected providers, like "slack" and "discord"
+    return this.store
+      .getManagers()
+      .filter(manager => manager.isAuthenticated())
+      .map(manager => manager.key);
+  };
+
+  getChannels = (provider: string): Channel[] => {
+    return this.getManager(provider).channels;
+  };
+
+  getUsers = (provider: string): Users => {
+    return this.getManager(provider).users;
+  };
+
+  sendMessage = async (
+    provider: string,
+    channelId: string,
+    text: string
+  ): Promise<void> => {
+    return this.getManager(provider).sendMessage(channelId, text);
+  };
+
+  sendDirectMessage = async (
+    provider: string,
+    userId: string,
+    text: string
+  ): Promise<void> => {
+    const manager = this.getManager(provider);
+    const user = manager.users[userId];
+
+    if (!user) {
+      throw new Error(str.USER_NOT_FOUND(userId));
+    }
+
+    let channel = manager.getIMChannel(user);
+
+    if (!channel && !manager.hasCapability("createIMChannel")) {
+      throw new Error(str.FEATURE_CREATE_IM_CHANNEL);
+    } else if (!channel) {
+      channel = await manager.createIMChannel(user);
+    }
+
+    return manager.sendMessage(channel.id, text);
+  };
+
+  registerSlashCommand = (
+    namespace: string,
+    subcommand: string,
+    handler: ChatCommandHandler
+  ): vscode.Disposable => {
+    return this.registry.register(namespace, subcommand, handler);
+  };
+
+  fireMessage(event: ChatMessageEvent) {
+    this.messageEmitter.fire(event);
+  }
+
+  getManager(provider: string): ChatProviderManager {
+    const manager = this.store.getManager(provider);
+
+    if (!manager || !manager.isAuthenticated()) {
+      throw new Error(str.PROVIDER_NOT_CONNECTED(provider));
+    }
+
+    return manager;
+  }
+
+  dispose() {
+    this.messageEmitter.dispose();
+  }
+}
@@ -0,0 +1,217 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { Users, Channel, Messages, ChannelMessages } from "./interfaces";
+import Logger from "./logger";
+
+const cacheFiles = {
+  USERS: "users.json",
+  CHANNELS: "channels.json",
+  MESSAGES: "messages.json"
+};
+
+// Messages are kept for the channels with the most recent activity,
+// and older messages are loaded from the provider when required
+const MAX_CACHED_CHANNELS = 50;
+const MAX_CACHED_MESSAGES = 100;
+
+// Milliseconds to wait before writing, since realtime updates come in bursts
+const WRITE_DELAY = 2000;
+
+export const getCachePath = (
+  context: vscode.ExtensionContext,
+  key: string
+): string | undefined => {
+  // globalStoragePath is not in the typings of our minimum engine version.
+  // Keys of background workspaces have a colon, which is not valid on Windows.
+  const { globalStoragePath } = <any>context;
+  return !!globalStoragePath
+    ? path.join(globalStoragePath, "cache", key.replace(/:/g, "-"))
+    : undefined;
+};
+
+const getLatestTimestamp = (messages: ChannelMessages): number => {
+  return Math.max(0, ...Object.keys(messages).map(ts => +ts));
+};
+
+export const evictMessages = (messages: Messages): Messages => {
+  // Local echoes are not cached, since they are sent again after a reload
+  const channelIds = Object.keys(messages)
+    .filter(channelId => Object.keys(messages[channelId]).length > 0)
+    .sort(
+      (a, b) =>
+        getLatestTimestamp(messages[b]) - getLatestTimestamp(messages[a])
+    )
+    .slice(0, MAX_CACHED_CHANNELS);
+
+  return channelIds.reduce((result, channelId) => {
+    const channelMessages = messages[channelId];
+    const timestamps = Object.keys(channelMessages)
+      .filter(ts => !!channelMessages[ts] && !channelMessages[ts].sendState)
+      .sort((a, b) => +b - +a)
+      .slice(0, MAX_CACHED_MESSAGES);
+    const cached = {};
+    timestamps.forEach(ts => (cached[ts] = channelMessages[ts]));
+    return { ...result, [channelId]: cached };
+  }, {});
+};
+
+const getHash = (data: string): string => {
+  return crypto
+    .createHash("md5")
+    .update(data)
+    .digest("hex");
+};
+
+const ensureDirectory = (directory: string) => {
+  // fs.mkdirSync is not recursive in the node version of older editors
+  if (!fs.existsSync(directory)) {
+    ensureDirectory(path.dirname(directory));
+    fs.mkdirSync(directory);
+  }
+};
+
+export default class DiskCache {
+  // Values are computed at write time, to evict only once per write
+  private pending: { [fileName: string]: () => any } = {};
+  private writeTimer: NodeJS.Timer | undefined;
+  // Hashes of the written files, to skip writes without changes
+  private written: { [fileName: string]: string } = {};
+  private writing: Set<string> = new Set([]);
+
+  constructor(private cachePath: string | undefined) {}
+
+  isEnabled(): boolean {
+    return !!this.cachePath;
+  }
+
+  getUsers(): Users | undefined {
+    return this.read(cacheFiles.USERS);
+  }
+
+  getChannels(): Channel[] | undefined {
+    return this.read(cacheFiles.CHANNELS);
+  }
+
+  getMessages(): Messages | undefined {
+    return this.read(cacheFiles.MESSAGES);
+  }
+
+  updateUsers(users: Users) {
+    this.write(cacheFiles.USERS, () => users);
+  }
+
+  updateChannels(channels: Channel[]) {
+    this.write(cacheFiles.CHANNELS, () => channels);
+  }
+
+  updateMessages(messages: Messages) {
+    this.write(cacheFiles.MESSAGES, () => evictMessages(messages));
+  }
+
+  flush(isSync: boolean = false) {
+    // Writes are asynchronous, except when the extension is deactivated
+    if (!!this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = undefined;
+    }
+
+    const pending = this.pending;
+    this.pending = {};
+
+    Object.keys(pending).forEach(fileName => {
+      if (!isSync && this.writing.has(fileName)) {
+        // The next write waits for the previous one to finish
+        return this.write(fileName, pending[fileName]);
+      }
+
+      try {
+        const data = JSON.stringify(pending[fileName]());
+        const hash = getHash(data);
+
+        if (this.written[fileName] !== hash) {
+          this.written[fileName] = hash;
+          ensureDirectory(this.cachePath);
+          return isSync
+            ? this.writeFileSync(fileName, data)
+            : this.writeFile(fileName, data, hash);
+        }
+      } catch (error) {
+        this.onWriteFailed(fileName, error);
+      }
+    });
+  }
+
+  dispose() {
+    this.flush(true);
+  }
+
+  private read(fileName: string): any {
+    // Files are read synchronously, so that the views can be rendered
+    // before the provider is connected
+    if (this.isEnabled()) {
+      const filePath = path.join(this.cachePath, fileName);
+
+      try {
+        if (fs.existsSync(filePath)) {
+          return JSON.parse(fs.readFileSync(filePath, "utf8"));
+        }
+      } catch (error) {
+        Logger.log(`Failed to read ${fileName} from cache: ${error}`);
+      }
+    }
+  }
+
+  private writeFile(fileName: string, data: string, hash: string) {
+    // Files are renamed over the cache file once they are written,
+    // so that reads never see a half-written file
+    const filePath = path.join(this.cachePath, fileName);
+    const tempPath = `${filePath}.tmp`;
+    this.writing.add(fileName);
+
+    fs.writeFile(tempPath, data, writeError => {
+      if (!!writeError) {
+        this.writing.delete(fileName);
+        return this.onWriteFailed(fileName, writeError);
+      }
+
+      if (this.written[fileName] !== hash) {
+        // A newer version was written on dispose
+        this.writing.delete(fileName);
+        return;
+      }
+
+      fs.rename(tempPath, filePath, renameError => {
+        this.writing.delete(fileName);
+
+        if (!!renameError) {
+          this.onWriteFailed(fileName, renameError);
+        }
+      });
+    });
+  }
+
+  private writeFileSync(fileName: string, data: string) {
+    const filePath = path.join(this.cachePath, fileName);
+    const tempPath = `${filePath}.sync.tmp`;
+    fs.writeFileSync(tempPath, data);
+    fs.renameSync(tempPath, filePath);
+  }
+
+  private onWriteFailed(fileName: string, error: Error) {
+    // The file is written again with the next update
+    delete this.written[fileName];
+    Logger.log(`Failed to write ${fileName} to cache: ${error}`);
+  }
+
+  private write(fileName: string, getValue: () => any) {
+    if (this.isEnabled()) {
+      this.pending[fileName] = getValue;
+
+      if (!this.writeTimer) {
+        this.writeTimer = setTimeout(() => this.flush(), WRITE_DELAY);
+      }
+    }
+  }
+}
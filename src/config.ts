@@ -3,8 +3,13 @@ import * as https from "https";
 import * as HttpsProxyAgent from "https-proxy-agent";
 import { CONFIG_ROOT, SelfCommands } from "./constants";
 import { keychain } from "./utils/keychain";
+import { getWorkspaceKey } from "./utils";
 
 const TOKEN_CONFIG_KEY = "slack.legacyToken";
+const SERVER_URL_CONFIG_KEY = "serverUrl";
+const IRC_NICKNAME_CONFIG_KEY = "irc.nickname";
+const IRC_NETWORKS_CONFIG_KEY = "irc.networks";
+const MOCK_FIXTURE_CONFIG_KEY = "mock.fixturePath";
 const TELEMETRY_CONFIG_ROOT = "telemetry";
 const TELEMETRY_CONFIG_KEY = "enableTelemetry";
 const CREDENTIAL_SERVICE_NAME = "vscode-chat";
@@ -67,7 +72,7 @@ class ConfigHelper {
     return keychainUpdate.then(() => {
       // When token is set, we need to call reset
       vscode.commands.executeCommand(SelfCommands.RESET_STORE, {
-        newProvider: providerName
+        provider: providerName
       });
     });
   }
@@ -79,18 +84,81 @@ class ConfigHelper {
     );
     return keychainUpdate.then(() => {
       // When token state is cleared, we need to call reset
-      vscode.commands.executeCommand(SelfCommands.RESET_STORE, {
-        newProvider: undefined
-      });
+      vscode.commands.executeCommand(SelfCommands.RESET_STORE, { provider });
     });
   }
 
+  static getWorkspaceToken(
+    provider: string,
+    workspaceId: string
+  ): Promise<string> {
+    // Every workspace has its own keychain entry, in addition to
+    // the entry of the provider, which is the active workspace
+    return keychain.getPassword(
+      CREDENTIAL_SERVICE_NAME,
+      getWorkspaceKey(provider, workspaceId)
+    );
+  }
+
+  static setWorkspaceToken(
+    token: string,
+    provider: string,
+    workspaceId: string
+  ): Promise<void> {
+    return keychain.setPassword(
+      CREDENTIAL_SERVICE_NAME,
+      getWorkspaceKey(provider, workspaceId),
+      token
+    );
+  }
+
+  static clearWorkspaceToken(
+    provider: string,
+    workspaceId: string
+  ): Promise<boolean> {
+    return keychain.deletePassword(
+      CREDENTIAL_SERVICE_NAME,
+      getWorkspaceKey(provider, workspaceId)
+    );
+  }
+
   static getProxyUrl() {
     // Stored under CONFIG_ROOT.proxyUrl
     const { proxyUrl } = this.getRootConfig();
     return proxyUrl;
   }
 
+  static getServerUrl(provider: string): string {
+    // Stored under CONFIG_ROOT.<provider>.serverUrl, for self-hosted providers
+    const serverUrl = this.getRootConfig().get<string>(
+      `${provider}.${SERVER_URL_CONFIG_KEY}`
+    );
+    return !!serverUrl ? serverUrl.replace(/\/+$/, "") : serverUrl;
+  }
+
+  static setServerUrl(provider: string, serverUrl: string): Promise<void> {
+    return this.updateRootConfig(
+      `${provider}.${SERVER_URL_CONFIG_KEY}`,
+      serverUrl
+    );
+  }
+
+  static getIrcNickname(): string {
+    // Stored under CONFIG_ROOT.irc.nickname
+    return this.getRootConfig().get<string>(IRC_NICKNAME_CONFIG_KEY);
+  }
+
+  static getIrcNetworks(): any[] {
+    // Stored under CONFIG_ROOT.irc.networks, which is an array of objects
+    const networks = this.getRootConfig().get<any[]>(IRC_NETWORKS_CONFIG_KEY);
+    return !!networks ? networks : [];
+  }
+
+  static getMockFixturePath(): string {
+    // Stored under CONFIG_ROOT.mock.fixturePath
+    return this.getRootConfig().get<string>(MOCK_FIXTURE_CONFIG_KEY);
+  }
+
   static getTlsRejectUnauthorized() {
     const { rejectTlsUnauthorized } = this.getRootConfig();
     return rejectTlsUnauthorized;
@@ -0,0 +1,147 @@
+import * as vscode from "vscode";
+import { ConnectionState } from "./interfaces";
+import Logger from "./logger";
+import * as str from "./strings";
+import { toTitleCase } from "./utils";
+
+// Milliseconds before the first reconnect attempt, which doubles
+// with every failed attempt, up to the maximum
+const INITIAL_DELAY = 1000;
+const MAX_DELAY = 5 * 60 * 1000;
+
+// Error codes of the providers for tokens that are invalid or revoked
+const AUTH_ERROR_CODES = [
+  "invalid_auth", // Slack
+  "not_authed",
+  "token_revoked",
+  "account_inactive",
+  "M_UNKNOWN_TOKEN" // Matrix
+];
+
+// discord.js only has the message for an invalid token
+const DISCORD_INVALID_TOKEN = "An invalid token was provided.";
+
+export const getReconnectDelay = (attempts: number): number => {
+  return Math.min(INITIAL_DELAY * Math.pow(2, attempts), MAX_DELAY);
+};
+
+export const isAuthError = (error: any): boolean => {
+  // Errors of the REST APIs have the status code and the response body,
+  // and Rocket.Chat keeps the code of the login method
+  if (!error) {
+    return false;
+  }
+
+  const { statusCode, code, data, message } = error;
+  const body =
+    !!error.error && typeof error.error === "object" ? error.error : {};
+  const errorCode = (!!data && data.error) || body.errcode;
+  return (
+    statusCode === 401 ||
+    code === 403 ||
+    AUTH_ERROR_CODES.indexOf(errorCode) >= 0 ||
+    message === DISCORD_INVALID_TOKEN
+  );
+};
+
+/**
+ * Tracks the connection of one chat provider, and connects it again
+ * with exponential backoff when its socket gives up
+ */
+export default class ConnectionManager implements vscode.Disposable {
+  state: ConnectionState = ConnectionState.connecting;
+  attempts: number = 0;
+  isAuthFailed: boolean = false;
+  private reconnectTimer: NodeJS.Timer | undefined;
+
+  constructor(
+    private providerName: string,
+    private reconnect: () => Promise<void>,
+    private onChange: (state: ConnectionState) => void
+  ) {}
+
+  onConnecting() {
+    this.updateState(ConnectionState.connecting);
+  }
+
+  onReconnecting() {
+    // Libraries like discord.js try to resume by themselves first
+    this.updateState(ConnectionState.reconnecting);
+  }
+
+  onConnected() {
+    this.stop();
+    this.attempts = 0;
+    this.isAuthFailed = false;
+    this.updateState(ConnectionState.connected);
+  }
+
+  onConnectFailed(error: any) {
+    // The same token fails on every attempt, so we stop till the
+    // user has signed in again
+    if (isAuthError(error)) {
+      this.stop();
+      this.isAuthFailed = true;
+      this.updateState(ConnectionState.offline);
+      const providerTitle = toTitleCase(this.providerName);
+      vscode.window.showErrorMessage(str.TOKEN_REJECTED(providerTitle));
+    } else {
+      this.onDisconnected();
+    }
+  }
+
+  onDisconnected() {
+    if (!!this.reconnectTimer || this.isAuthFailed) {
+      // The next attempt is already scheduled, or would fail
+      return;
+    }
+
+    const delay = getReconnectDelay(this.attempts);
+    this.attempts += 1;
+    Logger.log(`Disconnected, reconnecting in ${delay}ms`);
+    this.updateState(ConnectionState.offline);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.updateState(ConnectionState.reconnecting);
+      this.reconnect()
+        .then(() => this.onConnected())
+        .catch(error => {
+          Logger.log(`Reconnect failed: ${error}`);
+          this.onConnectFailed(error);
+        });
+    }, delay);
+  }
+
+  isReconnecting(): boolean {
+    // Between attempts, or while the library or an attempt is reconnecting
+    return !!this.reconnectTimer || this.state === ConnectionState.reconnecting;
+  }
+
+  stop() {
+    // Cancels the next reconnect attempt
+    if (!!this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+  }
+
+  reset() {
+    // For a new workspace, which is connected from the start
+    this.stop();
+    this.attempts = 0;
+    this.isAuthFailed = false;
+    this.updateState(ConnectionState.connecting);
+  }
+
+  dispose() {
+    this.stop();
+  }
+
+  private updateState(state: ConnectionState) {
+    if (this.state !== state) {
+      this.state = state;
+      this.onChange(state);
+    }
+  }
+}
@@ -21,7 +21,9 @@ export const VSCodeCommands = {
 export const SelfCommands = {
   OPEN: "extension.chat.openChatPanel",
   CHANGE_WORKSPACE: "extension.chat.changeWorkspace",
+  MANAGE_WORKSPACES: "extension.chat.manageWorkspaces",
   CHANGE_CHANNEL: "extension.chat.changeChannel",
+  SEARCH_MESSAGES: "extension.chat.searchMessages",
   SIGN_IN: "extension.chat.authenticate",
   SIGN_OUT: "extension.chat.signout",
   CONFIGURE_TOKEN: "extension.chat.configureToken",
@@ -31,13 +33,31 @@ export const SelfCommands = {
   LIVE_SHARE_JOIN_PROMPT: "extension.chat.promptLiveShare",
   RESET_STORE: "extension.chat.reset",
   FETCH_REPLIES: "extension.chat.fetchReplies",
+  LOAD_OLDER_HISTORY: "extension.chat.loadOlderHistory",
+  OPEN_THREAD: "extension.chat.openThread",
+  CLOSE_THREAD: "extension.chat.closeThread",
+  UPDATE_THREAD_STATE: "extension.chat.updateThreadState",
+  UPDATE_DRAFT: "extension.chat.updateDraft",
   UPDATE_MESSAGES: "extension.chat.updateMessages",
+  REMOVE_MESSAGE_REPLY: "extension.chat.removeMessageReply",
   UPDATE_MESSAGE_REPLIES: "extension.chat.updateReplies",
   UPDATE_USER_PRESENCE: "extension.chat.updateUserPresence",
+  UPDATE_TYPING: "extension.chat.updateTyping",
+  SEND_TYPING: "extension.chat.sendTyping",
   ADD_MESSAGE_REACTION: "extension.chat.addMessageReaction",
   REMOVE_MESSAGE_REACTION: "extension.chat.removeMessageReaction",
   SEND_MESSAGE: "extension.chat.sendMessage",
   SEND_THREAD_REPLY: "extension.chat.sendThreadReply",
+  SEND_COMMAND: "extension.chat.sendCommand",
+  RETRY_MESSAGE: "extension.chat.retryMessage",
+  DISCARD_MESSAGE: "extension.chat.discardMessage",
+  CONNECTED: "extension.chat.connected",
+  RECONNECTING: "extension.chat.reconnecting",
+  DISCONNECTED: "extension.chat.disconnected",
+  EDIT_MESSAGE: "extension.chat.editMessage",
+  DELETE_MESSAGE: "extension.chat.deleteMessage",
+  ADD_OWN_REACTION: "extension.chat.addOwnReaction",
+  REMOVE_OWN_REACTION: "extension.chat.removeOwnReaction",
   CHANNEL_MARKED: "extension.chat.updateChannelMark",
   HANDLE_INCOMING_LINKS: "extension.chat.handleIncomingLinks",
   SEND_TO_WEBVIEW: "extension.chat.sendToWebview"
@@ -60,6 +80,12 @@ export const REVERSE_SLASH_COMMANDS = {
   }
 };
 
+// Live Share invites are sent to users as direct messages, so these
+// commands are hidden when the provider cannot start them
+export const SLASH_COMMAND_CAPABILITIES = {
+  live: "createIMChannel"
+};
+
 // Internal uri schemes
 export const TRAVIS_BASE_URL = `travis-ci.org`;
 export const TRAVIS_SCHEME = "chat-travis-ci";
@@ -8,10 +8,16 @@ import {
 } from "../constants";
 import { TravisLinkHandler } from "../bots/travis";
 import ConfigHelper from "../config";
+import { ChatCommandHandler } from "../interfaces";
+import * as str from "../strings";
 
 export interface MessageCommand {
   namespace: string;
   subcommand: string;
+  // For commands of other extensions
+  text?: string;
+  provider?: string;
+  channelId?: string;
 }
 
 export interface CommandResponse {
@@ -80,18 +86,89 @@ class OpenCommandHandler extends VscodeCommandHandler {
   };
 }
 
+class RegisteredCommandHandler implements CommandHandler {
+  constructor(private handler: ChatCommandHandler) {}
+
+  handle = (cmd: MessageCommand): Promise<CommandResponse> => {
+    const { namespace, subcommand, text, provider, channelId } = cmd;
+    const command = { namespace, subcommand, text, provider, channelId };
+    return Promise.resolve(this.handler(command)).then(response => {
+      const responseString = !!response ? response : "";
+      return { sendToSlack: !!responseString, response: responseString };
+    });
+  };
+}
+
+/**
+ * Slash commands of this extension, and of other extensions that
+ * register them through the extension api
+ */
+export class CommandRegistry {
+  private handlers: {
+    [namespace: string]: { [subcommand: string]: ChatCommandHandler };
+  } = {};
+
+  register(
+    namespace: string,
+    subcommand: string,
+    handler: ChatCommandHandler
+  ): vscode.Disposable {
+    // The "open" namespace is used for links in messages
+    const existing = this.getCommandList()[namespace] || {};
+
+    if (namespace === "open" || subcommand in existing) {
+      throw new Error(str.COMMAND_EXISTS(`/${namespace} ${subcommand}`));
+    }
+
+    this.handlers[namespace] = {
+      ...this.handlers[namespace],
+      [subcommand]: handler
+    };
+
+    return new vscode.Disposable(() => {
+      const { [subcommand]: removed, ...rest } = this.handlers[namespace];
+      this.handlers[namespace] = rest;
+    });
+  }
+
+  getHandler(namespace: string, subcommand: string): ChatCommandHandler {
+    const handlers = this.handlers[namespace];
+    return !!handlers ? handlers[subcommand] : undefined;
+  }
+
+  getCommandList(): Object {
+    // Same shape as SLASH_COMMANDS, for validation and autocomplete
+    let commandList = { ...SLASH_COMMANDS };
+    Object.keys(this.handlers).forEach(namespace => {
+      commandList[namespace] = {
+        ...commandList[namespace],
+        ...this.handlers[namespace]
+      };
+    });
+    return commandList;
+  }
+}
+
 /**
  * Finds the correct command handler for the given command
  * and runs it
  */
 export default class CommandDispatch {
+  constructor(private registry?: CommandRegistry) {}
+
   handle = (message: MessageCommand): Promise<CommandResponse> => {
     const { namespace, subcommand } = message;
+    const registered = !!this.registry
+      ? this.registry.getHandler(namespace, subcommand)
+      : undefined;
 
     if (namespace === "open") {
       // We might have to convert this into
       const openHandler = new OpenCommandHandler();
       return openHandler.handle(message);
+    } else if (!!registered) {
+      const registeredHandler = new RegisteredCommandHandler(registered);
+      return registeredHandler.handle(message);
     } else {
       // Others are all vs code commands
       const vscodeHandler = new VscodeCommandHandler();
@@ -1,27 +1,66 @@
 import * as vscode from "vscode";
 import { ExtensionContext } from "vscode";
 import WebviewContainer from "../webview";
-import { ExtensionMessage, UIMessage } from "../interfaces";
 import {
-  SLASH_COMMANDS,
+  ExtensionMessage,
+  UIMessage,
+  Mention,
+  EventSource,
+  ChatProviderCapabilities
+} from "../interfaces";
+import {
   REVERSE_SLASH_COMMANDS,
+  SLASH_COMMAND_CAPABILITIES,
   SelfCommands
 } from "../constants";
 import * as str from "../strings";
 import Logger from "../logger";
-import CommandDispatch, { MessageCommand } from "./commands";
+import CommandDispatch, { MessageCommand, CommandRegistry } from "./commands";
 import markdownTransform from "./markdowner";
 
 export const getCommand = (text: string): MessageCommand => {
-  const pattern = /^\/(\w+) (\w+)$/;
+  const pattern = /^\/(\w+) (\w+)(?:\s+([\s\S]*))?$/;
   const trimmed = text.trim();
   const matched = trimmed.match(pattern);
 
   if (matched) {
-    return { namespace: matched[1], subcommand: matched[2] };
+    const rest = matched[3] || "";
+    return { namespace: matched[1], subcommand: matched[2], text: rest };
+  }
+};
+
+export const getProviderCommand = (text: string) => {
+  // Commands of the chat provider, like "/remind me to stretch in 1 hour"
+  const matched = text.trim().match(/^(\/\S+)\s*([\s\S]*)$/);
+
+  if (matched) {
+    return { command: matched[1], text: matched[2] };
   }
 };
 
+export const getCommandNames = (
+  commandLists: Object[],
+  capabilities: ChatProviderCapabilities | undefined
+): string[] => {
+  // Names like "/live share", for the composer autocomplete, without
+  // the commands that the provider cannot run
+  const isSupported = (namespace: string) => {
+    const capability = SLASH_COMMAND_CAPABILITIES[namespace];
+    return !capability || (!!capabilities && !!capabilities[capability]);
+  };
+  let names = [];
+  commandLists.forEach(commandList => {
+    Object.keys(commandList)
+      .filter(isSupported)
+      .forEach(namespace => {
+        Object.keys(commandList[namespace]).forEach(subcommand => {
+          names.push(`/${namespace} ${subcommand}`);
+        });
+      });
+  });
+  return names;
+};
+
 /**
  * Handles message passing between the UI and extension
  */
@@ -29,6 +68,9 @@ class ViewController {
   ui: WebviewContainer | undefined;
   isUIReady: Boolean = false; // Vuejs loaded
   pendingMessage: UIMessage = undefined;
+  lastMessage: UIMessage = undefined; // to resolve mentions that are clicked
+  errorText: string = undefined; // shown instead of the status text
+  registry: CommandRegistry = new CommandRegistry();
 
   constructor(
     private context: ExtensionContext,
@@ -56,7 +98,7 @@ class ViewController {
   };
 
   dispatchCommand(command: MessageCommand) {
-    const handler = new CommandDispatch();
+    const handler = new CommandDispatch(this.registry);
 
     handler.handle(command).then(result => {
       if (!!result) {
@@ -88,8 +130,10 @@ class ViewController {
   };
 
   handleCommand = (text: string) => {
-    if (this.isValidCommand(text, SLASH_COMMANDS)) {
-      const parsed = getCommand(text);
+    this.errorText = undefined;
+
+    if (this.isValidCommand(text, this.registry.getCommandList())) {
+      const parsed = this.getCommandWithContext(text);
       const { namespace, subcommand } = parsed;
 
       if (namespace === "live" && subcommand === "share") {
@@ -105,10 +149,51 @@ class ViewController {
       return this.sendTextMessage(text);
     }
 
-    // TODO(arjun): if not valid, then we need to parse and make a chat.command
-    // API call, instead of sending it as a simple text message.
-    // Docs: https://github.com/ErikKalkoken/slackApiDoc/blob/master/chat.command.md
-    return this.sendTextMessage(text);
+    return this.sendProviderCommand(text);
+  };
+
+  getCommandWithContext = (text: string): MessageCommand => {
+    // Commands of other extensions get the channel they are sent in
+    const { currentUser, channel } = this.lastMessage || <UIMessage>{};
+    return {
+      ...getCommand(text),
+      provider: !!currentUser ? currentUser.provider : undefined,
+      channelId: !!channel ? channel.id : undefined
+    };
+  };
+
+  sendProviderCommand = (text: string) => {
+    const { capabilities, commands = [] } = this.lastMessage || <UIMessage>{};
+
+    if (!capabilities || !capabilities.commands) {
+      // Other clients of the provider handle these, like "/shrug"
+      return this.sendTextMessage(text);
+    }
+
+    // Commands are not checked if the provider could not list them
+    const parsed = getProviderCommand(text);
+    const isKnown = !!parsed && commands.indexOf(parsed.command) >= 0;
+    const name = !!parsed ? parsed.command : text;
+
+    if (commands.length > 0 && !isKnown) {
+      return this.showError(str.INVALID_COMMAND(name));
+    }
+
+    return vscode.commands
+      .executeCommand(SelfCommands.SEND_COMMAND, parsed)
+      .then(undefined, error => {
+        Logger.log(`Failed to send command: ${error}`);
+        this.showError(str.COMMAND_FAILED(name));
+      });
+  };
+
+  showError = (errorText: string) => {
+    // Errors stay till the next message or command
+    this.errorText = errorText;
+
+    if (!!this.lastMessage) {
+      this.sendToUI(this.lastMessage);
+    }
   };
 
   handleInternal = (message: any) => {
@@ -123,6 +208,10 @@ class ViewController {
       this.onUIFocus();
     }
 
+    if (text === "load_older_history") {
+      vscode.commands.executeCommand(SelfCommands.LOAD_OLDER_HISTORY);
+    }
+
     if (text === "fetch_replies") {
       const { parentTimestamp } = message;
       vscode.commands.executeCommand(
@@ -130,22 +219,122 @@ class ViewController {
         parentTimestamp
       );
     }
+
+    if (text === "open_thread") {
+      const { parentTimestamp } = message;
+      vscode.commands.executeCommand(SelfCommands.OPEN_THREAD, {
+        parentTimestamp
+      });
+    }
+
+    if (text === "close_thread") {
+      vscode.commands.executeCommand(SelfCommands.CLOSE_THREAD);
+    }
+
+    if (text === "update_draft") {
+      const { channelId, parentTimestamp, draft, mentions } = message;
+      vscode.commands.executeCommand(SelfCommands.UPDATE_DRAFT, {
+        channelId,
+        parentTimestamp,
+        text: draft,
+        mentions
+      });
+    }
+
+    if (text === "typing") {
+      const { channelId } = message;
+      vscode.commands.executeCommand(SelfCommands.SEND_TYPING, { channelId });
+    }
+
+    if (text === "retry_message" || text === "discard_message") {
+      const { clientMessageId } = message;
+      const command =
+        text === "retry_message"
+          ? SelfCommands.RETRY_MESSAGE
+          : SelfCommands.DISCARD_MESSAGE;
+      vscode.commands.executeCommand(command, { clientMessageId });
+    }
+
+    if (text === "open_mention") {
+      const { mentionType, id } = message;
+      this.openMention(mentionType, id);
+    }
   };
 
-  sendTextMessage = (text: string) => {
-    return vscode.commands.executeCommand(SelfCommands.SEND_MESSAGE, { text });
+  openMention = (mentionType: string, id: string) => {
+    // Users open their direct message, and channels are switched to
+    if (!this.lastMessage) {
+      return;
+    }
+
+    const { users, channels, currentUser } = this.lastMessage;
+    const user = mentionType === "user" ? users[id] : undefined;
+    const channel =
+      mentionType === "channel"
+        ? channels.find(({ id: channelId }) => channelId === id)
+        : undefined;
+
+    if (!!user || !!channel) {
+      return vscode.commands.executeCommand(SelfCommands.OPEN, {
+        user,
+        channel,
+        providerName: currentUser.provider,
+        source: EventSource.mention
+      });
+    }
   };
 
-  sendThreadReply = (payload: any) => {
-    const { text, parentTimestamp } = payload;
+  sendTextMessage = (text: string, mentions?: Mention[]) => {
+    return vscode.commands.executeCommand(SelfCommands.SEND_MESSAGE, {
+      text,
+      mentions
+    });
+  };
+
+  sendThreadReply = (payload: any, mentions: Mention[]) => {
+    const { text, parentTimestamp, broadcast } = payload;
     return vscode.commands.executeCommand(SelfCommands.SEND_THREAD_REPLY, {
       text,
-      parentTimestamp
+      parentTimestamp,
+      broadcast,
+      mentions
+    });
+  };
+
+  editMessage = (payload: any, mentions: Mention[]) => {
+    const { text, timestamp } = payload;
+    return vscode.commands.executeCommand(SelfCommands.EDIT_MESSAGE, {
+      text,
+      timestamp,
+      mentions
+    });
+  };
+
+  deleteMessage = (payload: any) => {
+    const { timestamp } = payload;
+    return vscode.commands.executeCommand(SelfCommands.DELETE_MESSAGE, {
+      timestamp
+    });
+  };
+
+  addReaction = (payload: any) => {
+    const { timestamp, reactionName } = payload;
+    return vscode.commands.executeCommand(SelfCommands.ADD_OWN_REACTION, {
+      timestamp,
+      reactionName
+    });
+  };
+
+  removeReaction = (payload: any) => {
+    const { timestamp, reactionName } = payload;
+    return vscode.commands.executeCommand(SelfCommands.REMOVE_OWN_REACTION, {
+      timestamp,
+      reactionName
     });
   };
 
   sendToExtension = (message: ExtensionMessage) => {
-    const { type, text } = message;
+    const { type, text, mentions } = message;
     Logger.log(`Sending to extension (${type}) ${text}`);
 
     switch (type) {
@@ -156,9 +345,18 @@ class ViewController {
       case "command":
         return this.handleCommand(text);
       case "text":
-        return text ? this.sendTextMessage(text) : null;
+        this.errorText = undefined;
+        return text ? this.sendTextMessage(text, mentions) : null;
       case "thread_reply":
-        return this.sendThreadReply(text);
+        return this.sendThreadReply(text, mentions);
+      case "edit_message":
+        return this.editMessage(text, mentions);
+      case "delete_message":
+        return this.deleteMessage(text);
+      case "add_reaction":
+        return this.addReaction(text);
+      case "remove_reaction":
+        return this.removeReaction(text);
     }
   };
 
@@ -210,8 +408,19 @@ class ViewController {
       const message = this.handleReverseCommands(mdMessages);
 
       // Send to UI after markdown
-      this.ui.update(message);
+      const { capabilities } = uiMessage;
+      const hasCommands = !!capabilities && capabilities.commands;
+      const slashCommands = [
+        ...getCommandNames(
+          [this.registry.getCommandList(), REVERSE_SLASH_COMMANDS],
+          capabilities
+        ),
+        ...(hasCommands ? uiMessage.commands || [] : [])
+      ];
+      const statusText = this.errorText || uiMessage.statusText;
+      this.ui.update({ ...message, slashCommands, statusText });
       this.pendingMessage = null;
+      this.lastMessage = uiMessage;
     }
   };
 }
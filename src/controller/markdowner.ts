@@ -1,34 +1,102 @@
 import * as EmojiConvertor from "emoji-js";
-import { UIMessage, ChannelMessages } from "../interfaces";
+import { UIMessage, ChannelMessages, Users, Channel } from "../interfaces";
 import * as str from "../strings";
+import { decodeMentions } from "../utils/mentions";
 const MarkdownIt = require("markdown-it");
 const markdownItSlack = require("markdown-it-slack");
 
-export const parseUsernames = (uiMessage: UIMessage): UIMessage => {
-  // Find and replace names like <@UBCQ8LF28>
-  const { messages, users } = uiMessage;
-  let newMessages = {};
-  Object.keys(messages).map(ts => {
-    const message = messages[ts];
-    let { text } = message;
-    const matched = text.match(/<@([A-Z0-9]+)>/);
-
-    if (matched && matched.length > 0) {
-      const userId = matched[1];
-      if (userId in users) {
-        const { name } = users[userId];
-        text = text.replace(matched[0], `@${name}`);
-      }
+interface MentionData {
+  users: Users;
+  channels: Channel[];
+}
+
+interface MentionPill {
+  label: string;
+  // Pills with a type and id can be clicked
+  type?: "user" | "channel";
+  id?: string;
+}
+
+const MENTION_PATTERN = /^<([@#!])([&!]?[\w^.-]+)(?:\|([^>]*))?>/;
+const SPECIAL_MENTIONS = ["here", "channel", "everyone"];
+
+export const getMentionPill = (
+  token: string,
+  data: MentionData
+): MentionPill | undefined => {
+  // Handles Slack tokens like <@U123>, <#C123|general>, <!here> and
+  // <!subteam^S123|@team>, and Discord tokens like <@!123>, <#123>, <@&123>
+  const matched = token.match(MENTION_PATTERN);
+
+  if (!matched) {
+    return;
+  }
+
+  const [, sigil, id, label] = matched;
+  const { users, channels } = data;
+
+  if (sigil === "@" && id.startsWith("&")) {
+    return { label: `@${label || "role"}` };
+  }
+
+  if (sigil === "@") {
+    const userId = id.replace(/^!/, "");
+    const user = users[userId];
+    return !!user
+      ? { label: `@${user.name}`, type: "user", id: userId }
+      : { label: `@${label || userId}` };
+  }
+
+  if (sigil === "#") {
+    const channel = channels.find(({ id: channelId }) => channelId === id);
+    return !!channel
+      ? { label: `#${channel.name}`, type: "channel", id }
+      : { label: `#${label || id}` };
+  }
+
+  if (SPECIAL_MENTIONS.indexOf(id) >= 0) {
+    return { label: `@${id}` };
+  }
+
+  if (id.startsWith("subteam^")) {
+    return { label: label || `@${id.substr("subteam^".length)}` };
+  }
+};
+
+const mentionPlugin = md => {
+  // Renders mention tokens as pills. The users and channels to
+  // resolve them come from the env of the render call.
+  md.inline.ruler.before("autolink", "mention", (state, silent) => {
+    if (state.src.charAt(state.pos) !== "<") {
+      return false;
     }
 
-    newMessages[ts] = {
-      ...message,
-      text
-    };
+    const token = state.src.slice(state.pos).match(MENTION_PATTERN);
+    const data = { users: {}, channels: [], ...state.env };
+    const pill = !!token ? getMentionPill(token[0], data) : undefined;
+
+    if (!pill) {
+      return false;
+    }
+
+    if (!silent) {
+      state.push("mention", "", 0).meta = pill;
+    }
+
+    state.pos += token[0].length;
+    return true;
   });
-  return {
-    ...uiMessage,
-    messages: newMessages
+
+  md.renderer.rules.mention = (tokens, idx) => {
+    const { label, type, id } = tokens[idx].meta;
+    const escaped = md.utils.escapeHtml(label);
+
+    if (!!type) {
+      const onclick = `openMention('${type}', '${id}'); return false;`;
+      return `<a href="#" class="mention" onclick="${onclick}" tabindex="-1">${escaped}</a>`;
+    } else {
+      return `<span class="mention">${escaped}</span>`;
+    }
   };
 };
 
@@ -50,7 +118,8 @@ export const emojify = (messages: ChannelMessages): ChannelMessages => {
       reactions: reactions
         ? reactions.map(reaction => ({
             ...reaction,
-            name: emoji.replace_colons(reaction.name)
+            name: emoji.replace_colons(reaction.name),
+            rawName: reaction.name
           }))
         : [],
       text: emoji.replace_colons(text ? text : "")
@@ -103,9 +172,15 @@ const getAttachmentLink = ({ name, permalink }) => {
   return `[${name}](${permalink})`;
 };
 
-export const markdownify = (messages: ChannelMessages): ChannelMessages => {
+export const markdownify = (
+  messages: ChannelMessages,
+  mentionData?: MentionData
+): ChannelMessages => {
   let markdowned = {};
-  const md = new MarkdownIt({ breaks: true }).use(markdownItSlack);
+  const md = new MarkdownIt({ breaks: true })
+    .use(markdownItSlack)
+    .use(mentionPlugin);
+  const env = { ...mentionData };
 
   // Override renderer for link_open --> this adds an onclick attribute
   // on links, so that we can open them via message passing. This relies
@@ -134,7 +209,7 @@ export const markdownify = (messages: ChannelMessages): ChannelMessages => {
         textHTML: md.renderInline(str.UPLOADED_FILE(attachmentLink))
       };
     } else if (!!replyText) {
-      return { ...reply, textHTML: md.renderInline(replyText) };
+      return { ...reply, textHTML: md.renderInline(replyText, env) };
     } else {
       return reply;
     }
@@ -150,17 +225,23 @@ export const markdownify = (messages: ChannelMessages): ChannelMessages => {
     });
 
     const link = attachment ? getAttachmentLink(attachment) : ``;
+    const { text: editText, mentions: editMentions } =
+      !!mentionData && !!text
+        ? decodeMentions(text, mentionData.users, mentionData.channels)
+        : { text, mentions: [] };
     markdowned[key] = {
       ...messages[key],
       replies: parsedReplies,
+      editText,
+      editMentions,
       textHTML: attachment
         ? md.render(str.UPLOADED_FILE(link))
-        : md.render(text),
+        : md.render(text, env),
       content: {
         ...content,
-        textHTML: content && content.text ? md.render(content.text) : ``,
+        textHTML: content && content.text ? md.render(content.text, env) : ``,
         footerHTML:
-          content && content.footer ? md.renderInline(content.footer) : ``
+          content && content.footer ? md.renderInline(content.footer, env) : ``
       }
     };
   });
@@ -169,10 +250,10 @@ export const markdownify = (messages: ChannelMessages): ChannelMessages => {
 };
 
 const transformChain = (uiMessage: UIMessage): UIMessage => {
-  const { messages } = parseUsernames(uiMessage);
+  const { messages, users, channels } = uiMessage;
   return {
     ...uiMessage,
-    messages: markdownify(parseLinks(emojify(messages)))
+    messages: markdownify(parseLinks(emojify(messages)), { users, channels })
   };
 };
 
@@ -1,7 +1,7 @@
 import * as vscode from "vscode";
 import * as Discord from "discord.js";
 import {
-  IStore,
+  IManager,
   IChatProvider,
   CurrentUser,
   UserPreferences,
@@ -11,11 +11,17 @@ import {
   ChannelType,
   ChannelMessages,
   Message,
-  MessageContent
+  MessageReply,
+  MessageContent,
+  ChatProviderCapabilities,
+  CustomEmoji,
+  ChannelHistory,
+  SearchResult
 } from "../interfaces";
 import ConfigHelper from "../config";
 import { SelfCommands } from "../constants";
 import { toTitleCase } from "../utils";
+import { stripColons, getNativeEmoji, isSameReaction } from "../utils/emoji";
 import Logger from "../logger";
 
 const HISTORY_LIMIT = 50;
@@ -59,6 +65,11 @@ const getMessage = (raw: Discord.Message): Message => {
   };
 };
 
+const getReply = (raw: Discord.Message): MessageReply => {
+  const { userId, timestamp, text } = getMessage(raw);
+  return { userId, timestamp, text };
+};
+
 const getUser = (raw: Discord.User): User => {
   const { id: userId, username, avatar, presence } = raw;
   return {
@@ -93,12 +104,32 @@ const getImageUrl = (userId, avatar) => getAvatarUrl(userId, avatar, 128);
 const getSmallImageUrl = (userId, avatar) => getAvatarUrl(userId, avatar, 32);
 
 export class DiscordChatProvider implements IChatProvider {
+  // Replies are shown as threads. DM creation is not implemented for Discord
+  capabilities: ChatProviderCapabilities = {
+    threads: true,
+    threadBroadcast: false,
+    reactions: true,
+    editMessage: true,
+    deleteMessage: true,
+    fileUpload: false,
+    presence: true,
+    historicalUnreads: false,
+    createIMChannel: false,
+    search: true,
+    typing: true,
+    commands: false,
+    syncHistory: true
+  };
+
   token: string;
   client: Discord.Client;
+  isDestroyed: boolean = false;
   mutedChannels: Set<string> = new Set([]);
   imChannels: Channel[] = [];
+  // Message ids of replies, mapped to the message ids they reply to
+  replyParentIds: { [messageId: string]: string } = {};
 
-  constructor(private store: IStore) {}
+  constructor(private manager: IManager) {}
 
   async getToken(): Promise<string> {
     // When this starts using OAuth, we need to manage refresh tokens here
@@ -111,10 +142,18 @@ export class DiscordChatProvider implements IChatProvider {
   }
 
   connect(): Promise<CurrentUser> {
-    this.client = new Discord.Client();
+    const client = new Discord.Client();
+    this.client = client;
+    this.isDestroyed = false;
 
-    return new Promise(resolve => {
+    return new Promise((resolve, reject) => {
       this.client.on("ready", () => {
+        // Ready is also emitted when the client has identified again,
+        // after a connection that could not be resumed
+        vscode.commands.executeCommand(SelfCommands.CONNECTED, {
+          provider: "discord"
+        });
+
         const { id, username: name } = this.client.user;
         const teams = this.client.guilds.array().map(guild => ({
           id: guild.id,
@@ -138,14 +177,53 @@ export class DiscordChatProvider implements IChatProvider {
         );
       }
 
+      this.client.on("resume", () => {
+        vscode.commands.executeCommand(SelfCommands.CONNECTED, {
+          provider: "discord"
+        });
+      });
+
+      this.client.on("reconnecting", () => {
+        vscode.commands.executeCommand(SelfCommands.RECONNECTING, {
+          provider: "discord"
+        });
+      });
+
+      this.client.on("disconnect", () => {
+        // discord.js has given up, unless we destroyed the client, or
+        // replaced it after a reconnect
+        if (client === this.client && !this.isDestroyed) {
+          vscode.commands.executeCommand(SelfCommands.DISCONNECTED, {
+            provider: "discord"
+          });
+        }
+      });
+
       this.client.on("presenceUpdate", (_, newMember: Discord.GuildMember) => {
         const { id: userId, presence } = newMember;
         vscode.commands.executeCommand(SelfCommands.UPDATE_USER_PRESENCE, {
+          provider: "discord",
           userId,
           isOnline: isOnline(presence)
         });
       });
 
+      this.client.on("typingStart", (channel, user: Discord.User) => {
+        this.handleTyping(channel, user, true);
+      });
+
+      this.client.on("typingStop", (channel, user: Discord.User) => {
+        this.handleTyping(channel, user, false);
+      });
+
+      this.client.on("raw", packet => {
+        // This is emitted before the message event, which does not
+        // have the message reference
+        if (packet.t === "MESSAGE_CREATE") {
+          this.updateReplyParent(packet.d);
+        }
+      });
+
       this.client.on("message", msg => {
         this.handleIncomingMessage(msg);
         this.handleIncomingLinks(msg);
@@ -155,11 +233,37 @@ export class DiscordChatProvider implements IChatProvider {
         this.handleIncomingMessage(msg);
       });
 
+      this.client.on("messageDelete", (msg: Discord.Message) => {
+        this.handleDeletedMessage(msg);
+      });
+
+      this.client.on(
+        "messageReactionAdd",
+        (reaction: Discord.MessageReaction, user: Discord.User) => {
+          this.handleReaction(
+            reaction,
+            user,
+            SelfCommands.ADD_MESSAGE_REACTION
+          );
+        }
+      );
+
+      this.client.on(
+        "messageReactionRemove",
+        (reaction: Discord.MessageReaction, user: Discord.User) => {
+          this.handleReaction(
+            reaction,
+            user,
+            SelfCommands.REMOVE_MESSAGE_REACTION
+          );
+        }
+      );
+
       this.client.on("error", error => {
         Logger.log(`[ERROR] Discord: ${error.message}`);
       });
 
-      this.client.login(this.token);
+      this.client.login(this.token).catch(error => reject(error));
     });
   }
 
@@ -176,16 +280,128 @@ export class DiscordChatProvider implements IChatProvider {
     if (!guild || guild.id === currentGuild.id) {
       let newMessages: ChannelMessages = {};
       const channelId = msg.channel.id;
+      const root = this.getRootMessage(msg, msg.channel.messages.array());
+
+      if (root !== msg) {
+        return vscode.commands.executeCommand(
+          SelfCommands.UPDATE_MESSAGE_REPLIES,
+          {
+            provider: "discord",
+            parentTimestamp: getMessage(root).timestamp,
+            channelId,
+            reply: getReply(msg)
+          }
+        );
+      }
+
       const parsed = getMessage(msg);
       const { timestamp } = parsed;
       newMessages[timestamp] = parsed;
       vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGES, {
+        provider: "discord",
         channelId,
         messages: newMessages
       });
     }
   }
 
+  getRest(): any {
+    // discord.js v11 drops the message reference of replies, so replies
+    // are read and sent with the REST client of the library. Discord
+    // threads need a newer API version, and are not supported.
+    return (<any>this.client).rest;
+  }
+
+  updateReplyParent(raw: any) {
+    const { id, message_reference: reference } = raw;
+
+    if (!!reference && !!reference.message_id) {
+      this.replyParentIds[id] = reference.message_id;
+    }
+  }
+
+  getRootMessage(
+    msg: Discord.Message,
+    messages: Discord.Message[]
+  ): Discord.Message {
+    // Replies to replies are shown in the thread of the first message,
+    // if it is in the given messages
+    const parent = messages.find(
+      message => message.id === this.replyParentIds[msg.id]
+    );
+    return !!parent ? this.getRootMessage(parent, messages) : msg;
+  }
+
+  getMessagesWithReplies(messages: Discord.Message[]): ChannelMessages {
+    let result: ChannelMessages = {};
+    messages
+      .filter(message => this.getRootMessage(message, messages) === message)
+      .forEach(message => {
+        const parsed = getMessage(message);
+        result[parsed.timestamp] = parsed;
+      });
+    messages
+      .filter(message => this.getRootMessage(message, messages) !== message)
+      .forEach(message => {
+        const root = this.getRootMessage(message, messages);
+        const reply = getReply(message);
+        result[getMessage(root).timestamp].replies[reply.timestamp] = reply;
+      });
+    return result;
+  }
+
+  handleDeletedMessage(msg: Discord.Message) {
+    let newMessages: ChannelMessages = {};
+    const { timestamp } = getMessage(msg);
+    const root = this.getRootMessage(msg, msg.channel.messages.array());
+    delete this.replyParentIds[msg.id];
+
+    if (root !== msg) {
+      // Replies are shown in the thread of their root message
+      return vscode.commands.executeCommand(SelfCommands.REMOVE_MESSAGE_REPLY, {
+        provider: "discord",
+        parentTimestamp: getMessage(root).timestamp,
+        channelId: msg.channel.id,
+        timestamp
+      });
+    }
+
+    newMessages[timestamp] = undefined;
+    vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGES, {
+      provider: "discord",
+      channelId: msg.channel.id,
+      messages: newMessages
+    });
+  }
+
+  handleReaction(
+    reaction: Discord.MessageReaction,
+    user: Discord.User,
+    command: string
+  ) {
+    const { message, emoji } = reaction;
+    vscode.commands.executeCommand(command, {
+      provider: "discord",
+      userId: user.id,
+      channelId: message.channel.id,
+      msgTimestamp: getMessage(message).timestamp,
+      reactionName: emoji.name
+    });
+  }
+
+  handleTyping(
+    channel: Discord.Channel,
+    user: Discord.User,
+    isTyping: boolean
+  ) {
+    vscode.commands.executeCommand(SelfCommands.UPDATE_TYPING, {
+      provider: "discord",
+      channelId: channel.id,
+      userId: user.id,
+      isTyping
+    });
+  }
+
   handleIncomingLinks(msg: Discord.Message) {
     // For vsls invitations
     const currentGuild = this.getCurrentGuild();
@@ -203,6 +419,7 @@ export class DiscordChatProvider implements IChatProvider {
         if (text.startsWith("http")) {
           uri = vscode.Uri.parse(parsed.text);
           vscode.commands.executeCommand(SelfCommands.HANDLE_INCOMING_LINKS, {
+            provider: "discord",
             senderId: parsed.userId,
             uri
           });
@@ -221,7 +438,7 @@ export class DiscordChatProvider implements IChatProvider {
   }
 
   getCurrentGuild(): Discord.Guild {
-    const { currentTeamId } = this.store.currentUserInfo;
+    const { currentTeamId } = this.manager.currentUserInfo;
     return this.client.guilds.find(guild => guild.id === currentTeamId);
   }
 
@@ -289,7 +506,7 @@ export class DiscordChatProvider implements IChatProvider {
       .filter(channel => channel.type !== "category")
       .filter(channel => {
         return channel
-          .permissionsFor(this.store.currentUserInfo.id)
+          .permissionsFor(this.manager.currentUserInfo.id)
           .has(Discord.Permissions.FLAGS.VIEW_CHANNEL);
       })
       .map(channel => {
@@ -324,21 +541,71 @@ export class DiscordChatProvider implements IChatProvider {
     ]);
   }
 
-  loadChannelHistory(channelId: string): Promise<ChannelMessages> {
+  loadChannelHistory(
+    channelId: string,
+    before?: string
+  ): Promise<ChannelHistory> {
     const channel: any = this.client.channels.find(
       channel => channel.id === channelId
     );
-    // channel.fetchMessages will break for voice channels
-    return channel
-      .fetchMessages({ limit: HISTORY_LIMIT })
-      .then((messages: Discord.Message[]) => {
-        let result: ChannelMessages = {};
-        messages.forEach(message => {
-          const parsed = getMessage(message);
-          const { timestamp } = parsed;
-          result[timestamp] = parsed;
+    // The cursor is a timestamp, but Discord pages by message id
+    const beforeMessage = !!before
+      ? this.getDiscordMessage(channelId, before)
+      : undefined;
+
+    if (!!before && !beforeMessage) {
+      return Promise.resolve({ messages: {}, hasMore: false });
+    }
+
+    const options = !!beforeMessage
+      ? { limit: HISTORY_LIMIT, before: beforeMessage.id }
+      : { limit: HISTORY_LIMIT };
+    // Same as channel.fetchMessages, which will break for voice channels,
+    // but we keep the message references of the raw messages
+    return this.getRest()
+      .methods.getChannelMessages(channel, options)
+      .then((data: any[]) => {
+        const messages = data.map(raw => {
+          this.updateReplyParent(raw);
+          const message = new Discord.Message(channel, raw, this.client);
+          channel.messages.set(message.id, message);
+          return message;
         });
-        return result;
+        return {
+          messages: this.getMessagesWithReplies(messages),
+          hasMore: data.length === HISTORY_LIMIT
+        };
+      });
+  }
+
+  loadNewMessages(channelId: string, after: string): Promise<ChannelHistory> {
+    const channel: any = this.client.channels.find(
+      channel => channel.id === channelId
+    );
+    // Messages that are not in the cache of discord.js, like the ones
+    // of the disk cache, are found by a snowflake of their timestamp
+    const afterMessage = this.getDiscordMessage(channelId, after);
+    const afterId = !!afterMessage
+      ? afterMessage.id
+      : (<any>Discord.SnowflakeUtil).generate(Math.floor(+after * 1000));
+
+    // Pages after a message start right after it, and not at the newest
+    return this.getRest()
+      .methods.getChannelMessages(channel, {
+        limit: HISTORY_LIMIT,
+        after: afterId
+      })
+      .then((data: any[]) => {
+        const messages = data.map(raw => {
+          this.updateReplyParent(raw);
+          const message = new Discord.Message(channel, raw, this.client);
+          channel.messages.set(message.id, message);
+          return message;
+        });
+        return {
+          messages: this.getMessagesWithReplies(messages),
+          hasMore: data.length === HISTORY_LIMIT
+        };
       });
   }
 
@@ -346,11 +613,131 @@ export class DiscordChatProvider implements IChatProvider {
     text: string,
     currentUserId: string,
     channelId: string
+  ): Promise<string> {
+    const channel: any = this.client.channels.find(
+      channel => channel.id === channelId
+    );
+    return channel
+      .send(text)
+      .then((message: Discord.Message) => getMessage(message).timestamp);
+  }
+
+  getDiscordMessage(channelId: string, ts: string): Discord.Message {
+    // Messages are identified by their timestamp, so we look for the
+    // message in the cache of the channel, which has the fetched history
+    const channel: any = this.client.channels.find(
+      channel => channel.id === channelId
+    );
+    const messages: Discord.Collection<string, Discord.Message> =
+      channel.messages;
+    return messages.find(message => getMessage(message).timestamp === ts);
+  }
+
+  editMessage(channelId: string, ts: string, text: string): Promise<void> {
+    const message = this.getDiscordMessage(channelId, ts);
+    return !!message
+      ? message.edit(text).then(() => {})
+      : Promise.reject(new Error(`Message ${ts} not found`));
+  }
+
+  deleteMessage(channelId: string, ts: string): Promise<void> {
+    const message = this.getDiscordMessage(channelId, ts);
+    return !!message
+      ? message.delete().then(() => {})
+      : Promise.reject(new Error(`Message ${ts} not found`));
+  }
+
+  markThread(
+    channelId: string,
+    parentTimestamp: string,
+    ts: string
   ): Promise<void> {
+    // Read state of threads is only kept locally
+    return Promise.resolve();
+  }
+
+  addReaction(channelId: string, ts: string, name: string): Promise<void> {
+    // The store is updated with the messageReactionAdd event
+    const message = this.getDiscordMessage(channelId, ts);
+
+    if (!message) {
+      return Promise.reject(new Error(`Message ${ts} not found`));
+    }
+
+    const guild = this.getCurrentGuild();
+    const customEmoji = !!guild
+      ? guild.emojis.find(emoji => emoji.name === stripColons(name))
+      : undefined;
+    return message
+      .react(!!customEmoji ? customEmoji : getNativeEmoji(name))
+      .then(() => {});
+  }
+
+  removeReaction(channelId: string, ts: string, name: string): Promise<void> {
+    const message = this.getDiscordMessage(channelId, ts);
+    const reaction = !!message
+      ? message.reactions.find(r => isSameReaction(r.emoji.name, name))
+      : undefined;
+    return !!reaction
+      ? reaction.remove(this.client.user).then(() => {})
+      : Promise.reject(new Error(`Reaction ${name} not found`));
+  }
+
+  fetchCustomEmoji(): Promise<CustomEmoji> {
+    const guild = this.getCurrentGuild();
+    let customEmoji: CustomEmoji = {};
+
+    if (!!guild) {
+      guild.emojis.forEach(emoji => {
+        customEmoji[emoji.name] = emoji.url;
+      });
+    }
+
+    return Promise.resolve(customEmoji);
+  }
+
+  sendTyping(channelId: string): Promise<void> {
+    // Typing shows for a few seconds, so we stop right away instead of
+    // repeating it like startTyping does
     const channel: any = this.client.channels.find(
       channel => channel.id === channelId
     );
-    return channel.send(text);
+    channel.startTyping();
+    channel.stopTyping();
+    return Promise.resolve();
+  }
+
+  searchMessages(query: string): Promise<SearchResult[]> {
+    // Guild search is not available for bot users, and fails for them
+    const guild = this.getCurrentGuild();
+
+    if (!guild) {
+      return Promise.resolve([]);
+    }
+
+    return guild
+      .search({ content: query, sortBy: "recent" })
+      .then(({ messages }) => {
+        // Every result has a few messages around it, and the hit
+        return messages
+          .map(context => context.find(message => message.hit))
+          .filter(message => !!message && !!message.channel)
+          .map(message => {
+            // The result is cached to load the history before it
+            const channel: any = message.channel;
+            channel.messages.set(message.id, message);
+            return { channelId: channel.id, message: getMessage(message) };
+          });
+      });
+  }
+
+  fetchCommands(): Promise<string[]> {
+    // Discord has no slash commands for users
+    return Promise.resolve([]);
+  }
+
+  sendCommand(channelId: string, command: string, text: string): Promise<void> {
+    return Promise.resolve();
   }
 
   fetchChannelInfo(channel: Channel): Promise<Channel> {
@@ -359,12 +746,32 @@ export class DiscordChatProvider implements IChatProvider {
 
   subscribePresence(usersUsers): void {}
 
-  sendThreadReply() {
-    return Promise.resolve();
+  sendThreadReply(
+    text: string,
+    currentUserId: string,
+    channelId: string,
+    parentTimestamp: string
+  ): Promise<string> {
+    const parent = this.getDiscordMessage(channelId, parentTimestamp);
+
+    if (!parent) {
+      return Promise.reject(new Error(`Message ${parentTimestamp} not found`));
+    }
+
+    return this.getRest()
+      .makeRequest("post", `/channels/${channelId}/messages`, true, {
+        content: text,
+        message_reference: { message_id: parent.id }
+      })
+      .then(raw => {
+        const message = new Discord.Message(parent.channel, raw, this.client);
+        return getMessage(message).timestamp;
+      });
   }
 
   destroy() {
     if (!!this.client) {
+      this.isDestroyed = true;
       return this.client.destroy();
     }
   }
@@ -381,9 +788,22 @@ export class DiscordChatProvider implements IChatProvider {
       .then(() => ({ ...channel, readTimestamp: ts }));
   }
 
-  fetchThreadReplies(channelId: string, ts: string): Promise<any> {
-    // Never called. Discord has no threads.
-    return Promise.resolve();
+  fetchThreadReplies(channelId: string, ts: string): Promise<Message> {
+    // Discord can't list the replies of a message, so we look for
+    // them in the messages that we have fetched
+    const parent = this.getDiscordMessage(channelId, ts);
+
+    if (!parent) {
+      return Promise.resolve(undefined);
+    }
+
+    const messages = (<any>parent.channel).messages.array();
+    const replies = messages.filter(
+      message =>
+        message !== parent && this.getRootMessage(message, messages) === parent
+    );
+    const withReplies = this.getMessagesWithReplies([parent, ...replies]);
+    return Promise.resolve(withReplies[getMessage(parent).timestamp]);
   }
 
   createIMChannel(user: User): Promise<Channel> {
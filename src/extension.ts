@@ -2,9 +2,20 @@ import * as vscode from "vscode";
 import * as vsls from "vsls/vscode";
 import ViewController from "./controller";
 import Store from "./store";
+import ChatProviderManager from "./manager";
 import Logger from "./logger";
 import * as str from "./strings";
-import { Channel, ChatArgs, EventType, EventSource } from "./interfaces";
+import {
+  Channel,
+  ChannelLabel,
+  ChatArgs,
+  ThreadArgs,
+  EventType,
+  EventSource,
+  WorkspaceAccount,
+  Mention,
+  Message
+} from "./interfaces";
 import {
   SelfCommands,
   LiveShareCommands,
@@ -18,18 +29,43 @@ import {
 import travis from "./bots/travis";
 import { ExtensionUriHandler } from "./uri";
 import { openUrl, getExtension, toTitleCase } from "./utils";
+import { encodeMentions } from "./utils/mentions";
 import { askForAuth } from "./onboarding";
 import ConfigHelper from "./config";
 import Reporter from "./telemetry";
 import IssueReporter from "./issues";
+import ChatApi, { ChatExtensionApi } from "./api";
 
 let store: Store | undefined = undefined;
 let controller: ViewController | undefined = undefined;
 let reporter: Reporter | undefined = undefined;
+let api: ChatApi | undefined = undefined;
+
+const SUPPORTED_PROVIDERS = [
+  "slack",
+  "discord",
+  "mattermost",
+  "matrix",
+  "rocketchat",
+  "zulip",
+  "irc",
+  "mock"
+];
+
+// Self-hosted providers need a server url, in addition to the token
+const SELF_HOSTED_PROVIDERS = ["mattermost", "matrix", "rocketchat", "zulip"];
+
+// Providers that work without a token, which is set to a placeholder
+const TOKENLESS_PROVIDERS = ["mock"];
 
-const SUPPORTED_PROVIDERS = ["slack", "discord"];
+const SEARCH_LABEL_LENGTH = 80;
 
-export function activate(context: vscode.ExtensionContext) {
+export const getSearchLabel = (message: Message): string => {
+  // Hits can be attachments or files, which have no text
+  return (message.text || "").split("\n")[0].substr(0, SEARCH_LABEL_LENGTH);
+};
+
+export function activate(context: vscode.ExtensionContext): ChatExtensionApi {
   Logger.log("Activating vscode-chat");
   store = new Store(context);
   reporter = new Reporter(store);
@@ -39,6 +75,7 @@ export function activate(context: vscode.ExtensionContext) {
     () => store.loadChannelHistory(store.lastChannelId),
     () => store.updateReadMarker()
   );
+  api = new ChatApi(store, controller.registry);
 
   const setupFreshInstall = () => {
     store.generateInstallationId();
@@ -56,10 +93,10 @@ export function activate(context: vscode.ExtensionContext) {
       setupFreshInstall();
     }
 
-    if (!store.token) {
-      await store.initializeToken(provider);
+    if (!store.hasToken() || !!provider) {
+      await store.initializeTokens(provider);
 
-      if (!store.token) {
+      if (!store.hasToken()) {
         if (canPromptForAuth) {
           askForAuth();
         }
@@ -68,49 +105,166 @@ export function activate(context: vscode.ExtensionContext) {
       }
     }
 
+    // Cached users, channels and messages are shown till the providers connect
+    store.updateAllUI();
+
+    // Providers are set up independently, so that one of them
+    // failing does not block the others
+    const managers = store.getManagers().filter(manager => !!manager.token);
+    return Promise.all(managers.map(manager => setupManager(manager))).then(
+      () => {
+        // Other Slack workspaces are connected without blocking the chat panel
+        setupBackgroundManagers();
+      }
+    );
+  };
+
+  const setupBackgroundManagers = () => {
     return store
+      .initializeWorkspaceAccounts()
+      .then(() => {
+        const managers = store.getBackgroundManagers();
+        return Promise.all(managers.map(manager => setupManager(manager)));
+      })
+      .catch(error => Logger.log(error));
+  };
+
+  const setupManager = (manager: ChatProviderManager): Promise<any> => {
+    return manager
       .initializeProvider()
       .then(() => {
-        const { currentUserInfo } = store;
+        const { currentUserInfo } = manager;
         if (!currentUserInfo.currentTeamId) {
           // If no current team is available, we need to ask
-          return askForWorkspace();
+          return askForWorkspace(manager);
         }
       })
       .then(() => {
-        store.updateUserPrefs(); // TODO: for discord, this needs to happen after channels are fetched
-        return store.getUsersPromise();
+        manager.updateUserPrefs(); // TODO: for discord, this needs to happen after channels are fetched
+        manager.fetchCustomEmoji();
+        manager.fetchCommands();
+        return manager.getUsersPromise();
       })
       .then(() => {
-        const { users } = store;
-        store.chatProvider.subscribePresence(users);
-        return store.getChannelsPromise();
+        const { users } = manager;
+        manager.chatProvider.subscribePresence(users);
+        return manager.getChannelsPromise();
       })
       .catch(error => Logger.log(error));
   };
 
   const sendMessage = (
     text: string,
-    parentTimestamp: string
+    parentTimestamp: string,
+    broadcast?: boolean,
+    mentions?: Mention[]
   ): Promise<void> => {
-    const { lastChannelId, currentUserInfo } = store;
+    // Messages are sent with the provider of the current channel
+    const { lastChannelId } = store;
+    const manager = store.getLastManager();
+
+    if (!manager) {
+      return Promise.resolve();
+    }
+
+    text = encodeMentions(text, mentions, manager.providerName);
+
+    if (!!parentTimestamp && !manager.hasCapability("threads")) {
+      showNotSupported(manager, str.FEATURE_THREADS);
+      return Promise.resolve();
+    }
+
     reporter.record(EventType.messageSent, undefined, lastChannelId);
     store.updateReadMarker();
 
-    if (!!parentTimestamp) {
-      return store.chatProvider.sendThreadReply(
-        text,
-        currentUserInfo.id,
-        lastChannelId,
-        parentTimestamp
-      );
-    } else {
-      return store.chatProvider.sendMessage(
-        text,
-        currentUserInfo.id,
-        lastChannelId
-      );
+    return manager.sendMessage(
+      lastChannelId,
+      text,
+      parentTimestamp,
+      !!parentTimestamp && broadcast && manager.hasCapability("threadBroadcast")
+    );
+  };
+
+  const editMessage = (
+    timestamp: string,
+    text: string,
+    mentions?: Mention[]
+  ): Promise<void> => {
+    // Only messages of the current channel can be edited
+    const { lastChannelId } = store;
+    const manager = store.getLastManager();
+
+    if (!manager) {
+      return Promise.resolve();
     }
+
+    if (!manager.hasCapability("editMessage")) {
+      showNotSupported(manager, str.FEATURE_EDIT_MESSAGE);
+      return Promise.resolve();
+    }
+
+    const encoded = encodeMentions(text, mentions, manager.providerName);
+    return manager.editMessage(lastChannelId, timestamp, encoded);
+  };
+
+  const deleteMessage = async (timestamp: string): Promise<void> => {
+    const { lastChannelId } = store;
+    const manager = store.getLastManager();
+
+    if (!manager) {
+      return;
+    }
+
+    if (!manager.hasCapability("deleteMessage")) {
+      return showNotSupported(manager, str.FEATURE_DELETE_MESSAGE);
+    }
+
+    const selected = await vscode.window.showWarningMessage(
+      str.DELETE_MESSAGE_CONFIRM,
+      { modal: true },
+      str.DELETE_MESSAGE
+    );
+
+    if (selected === str.DELETE_MESSAGE) {
+      return manager.deleteMessage(lastChannelId, timestamp);
+    }
+  };
+
+  const toggleReaction = (
+    timestamp: string,
+    reactionName: string,
+    isAdded: boolean
+  ): Promise<void> => {
+    const { lastChannelId } = store;
+    const manager = store.getLastManager();
+
+    if (!manager) {
+      return Promise.resolve();
+    }
+
+    if (!manager.hasCapability("reactions")) {
+      showNotSupported(manager, str.FEATURE_REACTIONS);
+      return Promise.resolve();
+    }
+
+    return isAdded
+      ? manager.addOwnReaction(lastChannelId, timestamp, reactionName)
+      : manager.removeOwnReaction(lastChannelId, timestamp, reactionName);
+  };
+
+  const showNotSupported = (manager: ChatProviderManager, feature: string) => {
+    const providerTitle = toTitleCase(manager.providerName);
+    vscode.window.showWarningMessage(str.NOT_SUPPORTED(providerTitle, feature));
+  };
+
+  const getChannelDescription = (channelLabel: ChannelLabel): string => {
+    // With more than one provider, we show where the channel is from
+    const { channel, providerName } = channelLabel;
+    const hasManyProviders = store.getManagers().length > 1;
+    const parts = hasManyProviders
+      ? [toTitleCase(providerName), channel.categoryName]
+      : [channel.categoryName];
+    return parts.filter(part => !!part).join(" · ");
   };
 
   const askForChannel = (): Promise<Channel> => {
@@ -123,7 +277,7 @@ export function activate(context: vscode.ExtensionContext) {
       const qpickItems: vscode.QuickPickItem[] = channelList.map(
         channelLabel => ({
           label: channelLabel.label,
-          description: channelLabel.channel.categoryName
+          description: getChannelDescription(channelLabel)
         })
       );
 
@@ -134,16 +288,19 @@ export function activate(context: vscode.ExtensionContext) {
         .then(selected => {
           if (selected) {
             if (selected.label === str.RELOAD_CHANNELS) {
-              return store
-                .fetchUsers()
-                .then(() => store.fetchChannels())
-                .then(() => askForChannel());
+              const fetches = store
+                .getManagers()
+                .filter(manager => manager.isAuthenticated())
+                .map(manager =>
+                  manager.fetchUsers().then(() => manager.fetchChannels())
+                );
+              return Promise.all(fetches).then(() => askForChannel());
             }
 
             const selectedChannelLabel = channelList.find(
               x =>
                 x.label === selected.label &&
-                x.channel.categoryName === selected.description
+                getChannelDescription(x) === selected.description
             );
             const { channel } = selectedChannelLabel;
             store.updateLastChannelId(channel.id);
@@ -153,6 +310,11 @@ export function activate(context: vscode.ExtensionContext) {
     });
   };
 
+  const getIMChannel = (args: ChatArgs): Channel | undefined => {
+    const manager = store.getManager(args.providerName);
+    return !!manager ? manager.getIMChannel(args.user) : undefined;
+  };
+
   const getChatChannelId = (args?: ChatArgs): Promise<string> => {
     const { lastChannelId } = store;
     let channelIdPromise: Promise<string> = null;
@@ -167,10 +329,27 @@ export function activate(context: vscode.ExtensionContext) {
         const { channel } = args;
         store.updateLastChannelId(channel.id);
         channelIdPromise = Promise.resolve(channel.id);
+      } else if (!!args.user && !!getIMChannel(args)) {
+        // We have a user, from a mention, with an existing direct message
+        const { id } = getIMChannel(args);
+        store.updateLastChannelId(id);
+        channelIdPromise = Promise.resolve(id);
       } else if (!!args.user) {
         // We have a user, but no corresponding channel
-        // So we create one
-        channelIdPromise = store.createIMChannel(args.user).then(channel => {
+        // So we create one, if the provider can
+        const manager = store.getManager(args.providerName);
+
+        if (!manager) {
+          const error = str.PROVIDER_NOT_CONNECTED(args.providerName);
+          return Promise.reject(new Error(error));
+        }
+
+        if (!manager.hasCapability("createIMChannel")) {
+          showNotSupported(manager, str.FEATURE_CREATE_IM_CHANNEL);
+          return Promise.reject(new Error(str.FEATURE_CREATE_IM_CHANNEL));
+        }
+
+        channelIdPromise = manager.createIMChannel(args.user).then(channel => {
           return store.updateLastChannelId(channel.id).then(() => {
             return channel.id;
           });
@@ -183,12 +362,13 @@ export function activate(context: vscode.ExtensionContext) {
       : askForChannel().then(channel => channel.id);
   };
 
-  const openChatPanel = (args?: ChatArgs) => {
-    if (!!store.token) {
+  const openChatPanel = (args?: ChatArgs): Promise<void> => {
+    if (store.hasToken()) {
       controller.loadUi();
+      store.updateWebviewUI();
     }
 
-    setup({ canPromptForAuth: true, provider: undefined })
+    return setup({ canPromptForAuth: true, provider: undefined })
       .then(() => getChatChannelId(args))
       .then(() => {
         store.updateWebviewUI();
@@ -204,8 +384,33 @@ export function activate(context: vscode.ExtensionContext) {
       .catch(error => console.error(error));
   };
 
-  const askForWorkspace = () => {
-    const { currentUserInfo } = store;
+  const openThread = async (args: ThreadArgs) => {
+    // Threads from the tree view open their channel first, and
+    // threads from the webview are in the current channel
+    const { parentTimestamp, ...chatArgs } = args;
+    const manager = !!args.channel
+      ? store.getManager(args.providerName)
+      : store.getLastManager();
+
+    if (!manager) {
+      return;
+    }
+
+    if (!manager.hasCapability("threads")) {
+      return showNotSupported(manager, str.FEATURE_THREADS);
+    }
+
+    if (!!args.channel) {
+      await openChatPanel(chatArgs);
+    }
+
+    store.updateLastThreadTimestamp(parentTimestamp);
+    await store.fetchThreadReplies(parentTimestamp);
+    store.updateReadMarker();
+  };
+
+  const askForWorkspace = (manager: ChatProviderManager) => {
+    const { currentUserInfo } = manager;
     const { teams } = currentUserInfo;
     const placeHolder = str.CHANGE_WORKSPACE_TITLE;
     const labels = teams.map(t => t.name);
@@ -214,18 +419,116 @@ export function activate(context: vscode.ExtensionContext) {
       .then(selected => {
         if (!!selected) {
           const selectedTeam = teams.find(t => t.name === selected);
-          return store.updateCurrentWorkspace(selectedTeam);
+          return manager.updateCurrentWorkspace(selectedTeam);
         }
       });
   };
 
+  const askForManager = (
+    managers: ChatProviderManager[]
+  ): Thenable<ChatProviderManager> => {
+    if (managers.length <= 1) {
+      return Promise.resolve(managers[0]);
+    }
+
+    const labels = managers.map(manager => toTitleCase(manager.providerName));
+    return vscode.window
+      .showQuickPick(labels, { placeHolder: str.CHANGE_PROVIDER_TITLE })
+      .then(selected => managers[labels.indexOf(selected)]);
+  };
+
   const changeWorkspace = async () => {
     // TODO: If we don't have current user, we should ask for auth
-    if (store.isAuthenticated()) {
-      await askForWorkspace();
-      store.clearOldWorkspace();
+    const managers = store
+      .getManagers()
+      .filter(manager => manager.isAuthenticated());
+    const manager = await askForManager(managers);
+
+    if (!!manager && manager.providerName === "slack") {
+      // Slack has one token per workspace, which are managed separately
+      await manageWorkspaces();
+    } else if (!!manager) {
+      await askForWorkspace(manager);
+      manager.clearOldWorkspace();
       store.updateAllUI();
-      await setup({ canPromptForAuth: false, provider: undefined });
+      await setup({
+        canPromptForAuth: false,
+        provider: manager.providerName
+      });
+    }
+  };
+
+  const getWorkspaceLabel = (account: WorkspaceAccount): string => {
+    return !!account.label ? account.label : account.name;
+  };
+
+  const getWorkspaceDescription = (account: WorkspaceAccount): string => {
+    if (account.id === store.getActiveWorkspaceId()) {
+      return str.ACTIVE_WORKSPACE;
+    }
+
+    const unreads = store.getWorkspaceUnreads(account.id);
+    return unreads > 0 ? str.WORKSPACE_UNREADS(unreads) : "";
+  };
+
+  const manageWorkspaces = async () => {
+    const accounts = store.getWorkspaceAccounts();
+    const qpickItems: vscode.QuickPickItem[] = accounts.map(account => ({
+      label: getWorkspaceLabel(account),
+      description: getWorkspaceDescription(account)
+    }));
+    const selected = await vscode.window.showQuickPick(
+      [...qpickItems, { label: str.ADD_WORKSPACE }],
+      { placeHolder: str.MANAGE_WORKSPACES_TITLE }
+    );
+
+    if (!selected) {
+      return;
+    }
+
+    if (selected.label === str.ADD_WORKSPACE) {
+      // Signing in with a new token keeps the current workspace saved
+      return authenticate({ source: EventSource.command });
+    }
+
+    const account = accounts[qpickItems.indexOf(selected)];
+    const isActive = account.id === store.getActiveWorkspaceId();
+    const actions = isActive
+      ? [str.RENAME_WORKSPACE, str.REMOVE_WORKSPACE]
+      : [str.SWITCH_WORKSPACE, str.RENAME_WORKSPACE, str.REMOVE_WORKSPACE];
+    const action = await vscode.window.showQuickPick(actions, {
+      placeHolder: getWorkspaceLabel(account)
+    });
+
+    switch (action) {
+      case str.SWITCH_WORKSPACE:
+        const token = await ConfigHelper.getWorkspaceToken("slack", account.id);
+
+        if (!!token) {
+          // The workspace becomes the active one, and the current one
+          // moves to the background after the reset
+          return ConfigHelper.setToken(token, "slack");
+        }
+
+        return;
+
+      case str.RENAME_WORKSPACE:
+        const label = await vscode.window.showInputBox({
+          value: getWorkspaceLabel(account)
+        });
+
+        if (!!label) {
+          return store.renameWorkspaceAccount(account.id, label);
+        }
+
+        return;
+
+      case str.REMOVE_WORKSPACE:
+        await store.removeWorkspaceAccount(account.id);
+
+        if (isActive) {
+          return ConfigHelper.clearToken("slack");
+        }
     }
   };
 
@@ -244,27 +547,118 @@ export function activate(context: vscode.ExtensionContext) {
     );
   };
 
+  const searchMessages = async () => {
+    await setup({ canPromptForAuth: true, provider: undefined });
+    const query = await vscode.window.showInputBox({
+      placeHolder: str.SEARCH_PLACEHOLDER
+    });
+
+    if (!query) {
+      return;
+    }
+
+    const managers = store
+      .getManagers()
+      .filter(manager => manager.isAuthenticated());
+    const resultLists = await Promise.all(
+      managers.map(manager =>
+        manager
+          .searchMessages(query)
+          .then(results => results.map(result => ({ ...result, manager })))
+      )
+    );
+    const results = [].concat(...resultLists);
+
+    if (results.length === 0) {
+      vscode.window.showInformationMessage(str.NO_SEARCH_RESULTS(query));
+      return;
+    }
+
+    // Results are grouped by channel, with the newest first
+    const getChannelName = ({ manager, channelId }) => {
+      const channel = manager.getChannel(channelId);
+      return !!channel ? channel.name : channelId;
+    };
+    const items = results
+      .sort((a, b) => {
+        const byChannel = getChannelName(a).localeCompare(getChannelName(b));
+        return byChannel !== 0
+          ? byChannel
+          : +b.message.timestamp - +a.message.timestamp;
+      })
+      .map(result => {
+        const { manager, message } = result;
+        const user = manager.users[message.userId];
+        const userName = !!user ? user.name : message.userId;
+        const date = new Date(+message.timestamp * 1000);
+        return {
+          label: getSearchLabel(message),
+          description: `${getChannelName(result)} · ${userName}`,
+          detail: date.toLocaleString(),
+          result
+        };
+      });
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: str.SEARCH_RESULTS_TITLE(query),
+      matchOnDescription: true
+    });
+
+    if (!!selected) {
+      const { manager, channelId, message } = selected.result;
+      const channel = manager.getChannel(channelId);
+
+      if (!!channel) {
+        await openChatPanel({
+          channel,
+          user: undefined,
+          providerName: manager.providerName,
+          source: EventSource.search
+        });
+        store.updateLastHighlightTimestamp(message.timestamp);
+        await manager.loadSearchContext(channelId, message);
+      }
+    }
+  };
+
   const shareVslsLink = async (args?: ChatArgs) => {
+    // Invites are checked before a session is started, since they
+    // are sent as direct messages
+    const manager = !!args
+      ? store.getManager(args.providerName)
+      : store.getLastManager();
+
+    if (!manager) {
+      return;
+    }
+
+    if (!manager.hasCapability("createIMChannel")) {
+      return showNotSupported(manager, str.FEATURE_LIVE_SHARE);
+    }
+
+    // The channel is resolved first, so that we don't start a session
+    // for a user that the provider cannot message
+    let channelId: string = await getChatChannelId(args);
     const liveshare = await vsls.getApiAsync();
     // liveshare.share() creates a new session if required
     const vslsUri = await liveshare.share({ suppressNotification: true });
-    let channelId: string = await getChatChannelId(args);
     reporter.record(EventType.vslsShared, EventSource.activity, channelId);
-    const { currentUserInfo } = store;
-    store.chatProvider.sendMessage(
-      vslsUri.toString(),
-      currentUserInfo.id,
-      channelId
-    );
+    const channelManager = store.getManagerForChannel(channelId);
+    channelManager.sendMessage(channelId, vslsUri.toString());
   };
 
-  const promptVslsJoin = (senderId: string, messageUri: vscode.Uri) => {
-    if (senderId === store.currentUserInfo.id) {
+  const promptVslsJoin = (
+    senderId: string,
+    messageUri: vscode.Uri,
+    providerName: string
+  ) => {
+    const manager = store.getManager(providerName);
+
+    if (!manager || senderId === manager.currentUserInfo.id) {
       // This is our own message, ignore it
       return;
     }
 
-    const user = store.users[senderId];
+    const user = manager.users[senderId];
 
     if (!!user) {
       // We should prompt for auto-joining here
@@ -300,17 +694,23 @@ export function activate(context: vscode.ExtensionContext) {
     return openUrl(urls[service]);
   };
 
-  const reset = async (newProvider?: string) => {
-    store.clearAll();
+  const reset = async (provider?: string) => {
+    // Resets one provider, or all of them if none is given
+    if (!!provider) {
+      store.clearProvider(provider);
+    } else {
+      store.clearAll();
+    }
+
     store.updateAllUI();
-    await setup({ canPromptForAuth: false, provider: newProvider });
+    await setup({ canPromptForAuth: false, provider });
   };
 
   const signout = async () => {
-    const provider = store.getSelectedProvider();
+    const manager = await askForManager(store.getManagers());
 
-    if (!!provider) {
-      await ConfigHelper.clearToken(provider);
+    if (!!manager) {
+      await ConfigHelper.clearToken(manager.providerName);
     }
   };
 
@@ -340,11 +740,37 @@ export function activate(context: vscode.ExtensionContext) {
       .then(selected => (!!selected ? selected.toLowerCase() : undefined));
   };
 
+  const askForServerUrl = async (provider: string): Promise<string> => {
+    const existingUrl = ConfigHelper.getServerUrl(provider);
+    const serverUrl = await vscode.window.showInputBox({
+      placeHolder: str.SERVER_URL_PLACEHOLDER,
+      value: existingUrl
+    });
+
+    if (!!serverUrl && serverUrl !== existingUrl) {
+      await ConfigHelper.setServerUrl(provider, serverUrl);
+    }
+
+    return serverUrl;
+  };
+
   const configureToken = async () => {
     reporter.record(EventType.tokenConfigured, EventSource.command, undefined);
     const selectedProvider = await askForProvider();
 
     if (!!selectedProvider) {
+      if (TOKENLESS_PROVIDERS.indexOf(selectedProvider) >= 0) {
+        return ConfigHelper.setToken(selectedProvider, selectedProvider);
+      }
+
+      if (SELF_HOSTED_PROVIDERS.indexOf(selectedProvider) >= 0) {
+        const serverUrl = await askForServerUrl(selectedProvider);
+
+        if (!serverUrl) {
+          return;
+        }
+      }
+
       return vscode.window
         .showInputBox({
           placeHolder: str.TOKEN_PLACEHOLDER,
@@ -361,14 +787,16 @@ export function activate(context: vscode.ExtensionContext) {
   const runDiagnostic = async () => {
     let results = [];
     results.push(`Installation id: ${!!store.installationId}`);
-    results.push(`Token configured: ${!!store.token}`);
-    results.push(`Current user available: ${!!store.currentUserInfo}`);
 
-    const authResult = await store.runAuthTest();
-    results.push(`Authentication result: ${authResult}`);
+    for (const manager of store.getManagers()) {
+      const { providerName, chatProvider } = manager;
+      results.push(`Provider: ${providerName}`);
+      results.push(`Token configured: ${!!manager.token}`);
+      results.push(`Current user available: ${!!manager.currentUserInfo}`);
 
-    if (!!store.chatProvider) {
-      results.push(`Websocket connected: ${store.chatProvider.isConnected()}`);
+      const authResult = await manager.runAuthTest();
+      results.push(`Authentication result: ${authResult}`);
+      results.push(`Websocket connected: ${chatProvider.isConnected()}`);
     }
 
     const logs = results.join("\n");
@@ -390,92 +818,257 @@ export function activate(context: vscode.ExtensionContext) {
       SelfCommands.CHANGE_WORKSPACE,
       changeWorkspace
     ),
+    vscode.commands.registerCommand(
+      SelfCommands.MANAGE_WORKSPACES,
+      manageWorkspaces
+    ),
     vscode.commands.registerCommand(SelfCommands.CHANGE_CHANNEL, changeChannel),
+    vscode.commands.registerCommand(
+      SelfCommands.SEARCH_MESSAGES,
+      searchMessages
+    ),
     vscode.commands.registerCommand(SelfCommands.SIGN_IN, authenticate),
     vscode.commands.registerCommand(SelfCommands.SIGN_OUT, signout),
-    vscode.commands.registerCommand(
-      SelfCommands.RESET_STORE,
-      ({ newProvider }) => reset(newProvider)
+    vscode.commands.registerCommand(SelfCommands.RESET_STORE, ({ provider }) =>
+      reset(provider)
     ),
     vscode.commands.registerCommand(
       SelfCommands.CONFIGURE_TOKEN,
       configureToken
     ),
     vscode.commands.registerCommand(SelfCommands.DIAGNOSTIC, runDiagnostic),
-    vscode.commands.registerCommand(SelfCommands.SEND_MESSAGE, ({ text }) =>
-      sendMessage(text, undefined)
+    vscode.commands.registerCommand(
+      SelfCommands.SEND_MESSAGE,
+      ({ text, mentions }) => sendMessage(text, undefined, false, mentions)
     ),
     vscode.commands.registerCommand(
       SelfCommands.SEND_THREAD_REPLY,
-      ({ text, parentTimestamp }) => sendMessage(text, parentTimestamp)
+      ({ text, parentTimestamp, broadcast, mentions }) =>
+        sendMessage(text, parentTimestamp, broadcast, mentions)
+    ),
+    vscode.commands.registerCommand(
+      SelfCommands.RETRY_MESSAGE,
+      ({ clientMessageId }) => {
+        const manager = store.getLastManager();
+        return !!manager ? manager.retryMessage(clientMessageId) : null;
+      }
+    ),
+    vscode.commands.registerCommand(
+      SelfCommands.DISCARD_MESSAGE,
+      ({ clientMessageId }) => {
+        const manager = store.getLastManager();
+        return !!manager ? manager.discardMessage(clientMessageId) : null;
+      }
+    ),
+    vscode.commands.registerCommand(SelfCommands.CONNECTED, ({ provider }) => {
+      // Messages that failed while we were offline are sent again, and
+      // the messages that we missed are fetched
+      const manager = store.getManager(provider);
+
+      if (!!manager) {
+        manager.connection.onConnected();
+        return Promise.all([
+          manager.retryFailedMessages(),
+          manager.syncMessages()
+        ]);
+      }
+    }),
+    vscode.commands.registerCommand(
+      SelfCommands.RECONNECTING,
+      ({ provider }) => {
+        const manager = store.getManager(provider);
+        return !!manager ? manager.connection.onReconnecting() : null;
+      }
+    ),
+    vscode.commands.registerCommand(
+      SelfCommands.DISCONNECTED,
+      ({ provider }) => {
+        // The socket has given up, and is connected again with backoff
+        const manager = store.getManager(provider);
+        return !!manager ? manager.connection.onDisconnected() : null;
+      }
+    ),
+    vscode.commands.registerCommand(
+      SelfCommands.SEND_COMMAND,
+      ({ command, text }) => {
+        // Commands of the provider, like "/remind", in the current channel
+        const { lastChannelId } = store;
+        const manager = store.getLastManager();
+        return !!manager
+          ? manager.sendCommand(lastChannelId, command, text)
+          : null;
+      }
+    ),
+    vscode.commands.registerCommand(
+      SelfCommands.EDIT_MESSAGE,
+      ({ timestamp, text, mentions }) => editMessage(timestamp, text, mentions)
+    ),
+    vscode.commands.registerCommand(
+      SelfCommands.DELETE_MESSAGE,
+      ({ timestamp }) => deleteMessage(timestamp)
+    ),
+    vscode.commands.registerCommand(
+      SelfCommands.ADD_OWN_REACTION,
+      ({ timestamp, reactionName }) =>
+        toggleReaction(timestamp, reactionName, true)
+    ),
+    vscode.commands.registerCommand(
+      SelfCommands.REMOVE_OWN_REACTION,
+      ({ timestamp, reactionName }) =>
+        toggleReaction(timestamp, reactionName, false)
     ),
     vscode.commands.registerCommand(SelfCommands.LIVE_SHARE_FROM_MENU, item =>
       shareVslsLink({
         channel: item.channel,
         user: item.user,
+        providerName: item.providerName,
         source: EventSource.activity
       })
     ),
     vscode.commands.registerCommand(SelfCommands.LIVE_SHARE_SLASH, () => {
+      const manager = store.getLastManager();
       shareVslsLink({
         channel: store.getChannel(store.lastChannelId),
         user: undefined,
+        providerName: !!manager ? manager.providerName : undefined,
         source: EventSource.slash
       });
     }),
     vscode.commands.registerCommand(
       SelfCommands.LIVE_SHARE_JOIN_PROMPT,
-      ({ senderId, messageUri }) => promptVslsJoin(senderId, messageUri)
+      ({ senderId, messageUri, provider }) =>
+        promptVslsJoin(senderId, messageUri, provider)
     ),
     vscode.commands.registerCommand(SelfCommands.FETCH_REPLIES, fetchReplies),
+    vscode.commands.registerCommand(SelfCommands.OPEN_THREAD, openThread),
+    vscode.commands.registerCommand(SelfCommands.CLOSE_THREAD, () =>
+      store.updateLastThreadTimestamp(undefined)
+    ),
+    vscode.commands.registerCommand(
+      SelfCommands.UPDATE_THREAD_STATE,
+      ({ state, provider }) => {
+        const manager = store.getManager(provider);
+
+        if (!!manager) {
+          manager.updateThreadState(state);
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      SelfCommands.UPDATE_DRAFT,
+      ({ channelId, parentTimestamp, text, mentions }) =>
+        store.updateDraft(channelId, parentTimestamp, text, mentions)
+    ),
+    vscode.commands.registerCommand(SelfCommands.LOAD_OLDER_HISTORY, () =>
+      store.loadOlderHistory(store.lastChannelId)
+    ),
     vscode.commands.registerCommand(
       SelfCommands.UPDATE_MESSAGES,
-      ({ channelId, messages }) => {
-        store.updateMessages(channelId, messages);
+      ({ channelId, messages, provider }) => {
+        const manager = store.getManager(provider);
+
+        if (!!manager) {
+          manager.updateMessages(channelId, messages);
+          Object.keys(messages)
+            .filter(ts => !!messages[ts])
+            .forEach(ts =>
+              api.fireMessage({ provider, channelId, message: messages[ts] })
+            );
+        }
       }
     ),
     vscode.commands.registerCommand(
       SelfCommands.ADD_MESSAGE_REACTION,
-      ({ userId, msgTimestamp, channelId, reactionName }) => {
-        store.addReaction(channelId, msgTimestamp, userId, reactionName);
+      ({ userId, msgTimestamp, channelId, reactionName, provider }) => {
+        const manager = store.getManager(provider);
+
+        if (!!manager) {
+          manager.addReaction(channelId, msgTimestamp, userId, reactionName);
+        }
       }
     ),
     vscode.commands.registerCommand(
       SelfCommands.REMOVE_MESSAGE_REACTION,
-      ({ userId, msgTimestamp, channelId, reactionName }) => {
-        store.removeReaction(channelId, msgTimestamp, userId, reactionName);
+      ({ userId, msgTimestamp, channelId, reactionName, provider }) => {
+        const manager = store.getManager(provider);
+
+        if (!!manager) {
+          manager.removeReaction(channelId, msgTimestamp, userId, reactionName);
+        }
       }
     ),
     vscode.commands.registerCommand(
       SelfCommands.UPDATE_USER_PRESENCE,
-      ({ userId, isOnline }) => {
-        store.updateUserPresence(userId, isOnline);
+      ({ userId, isOnline, provider }) => {
+        const manager = store.getManager(provider);
+
+        if (!!manager) {
+          manager.updateUserPresence(userId, isOnline);
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      SelfCommands.UPDATE_TYPING,
+      ({ channelId, userId, isTyping, provider }) => {
+        const manager = store.getManager(provider);
+
+        if (!!manager) {
+          manager.updateTyping(channelId, userId, isTyping);
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      SelfCommands.SEND_TYPING,
+      ({ channelId }) => {
+        const manager = store.getManagerForChannel(channelId);
+        return !!manager ? manager.sendTyping(channelId) : null;
       }
     ),
     vscode.commands.registerCommand(
       SelfCommands.CHANNEL_MARKED,
-      ({ channelId, readTimestamp, unreadCount }) => {
-        const channel = store.getChannel(channelId);
+      ({ channelId, readTimestamp, unreadCount, provider }) => {
+        const manager = store.getManager(provider);
+        const channel = !!manager ? manager.getChannel(channelId) : undefined;
 
         if (!!channel) {
-          store.updateChannel({ ...channel, readTimestamp, unreadCount });
-          store.updateAllUI();
+          manager.updateChannel({ ...channel, readTimestamp, unreadCount });
+          manager.updateAllUI();
         }
       }
     ),
     vscode.commands.registerCommand(
       SelfCommands.UPDATE_MESSAGE_REPLIES,
-      ({ channelId, parentTimestamp, reply }) => {
-        store.updateMessageReply(parentTimestamp, channelId, reply);
+      ({ channelId, parentTimestamp, reply, provider }) => {
+        const manager = store.getManager(provider);
+
+        if (!!manager) {
+          manager.updateMessageReply(parentTimestamp, channelId, reply);
+          api.fireMessage({
+            provider,
+            channelId,
+            message: reply,
+            parentTimestamp
+          });
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      SelfCommands.REMOVE_MESSAGE_REPLY,
+      ({ channelId, parentTimestamp, timestamp, provider }) => {
+        const manager = store.getManager(provider);
+        return !!manager
+          ? manager.removeMessageReply(parentTimestamp, channelId, timestamp)
+          : null;
       }
     ),
     vscode.commands.registerCommand(
       SelfCommands.HANDLE_INCOMING_LINKS,
-      ({ uri, senderId }) => {
+      ({ uri, senderId, provider }) => {
         if (uri.authority === LIVE_SHARE_BASE_URL) {
           vscode.commands.executeCommand(SelfCommands.LIVE_SHARE_JOIN_PROMPT, {
             senderId,
-            messageUri: uri
+            messageUri: uri,
+            provider
           });
         }
       }
@@ -488,8 +1081,11 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.workspace.registerTextDocumentContentProvider(TRAVIS_SCHEME, travis),
     vscode.window.registerUriHandler(uriHandler),
     store,
-    reporter
+    reporter,
+    api
   );
+
+  return api;
 }
 
 export function deactivate() {}
@@ -1,24 +1,61 @@
 export interface IChatProvider {
+  capabilities: ChatProviderCapabilities;
   getToken: () => Promise<string>;
   getAuthTest: () => Promise<string>;
   fetchUsers: () => Promise<Users>;
   fetchUserInfo: (userId: string) => Promise<User>;
   fetchChannels: (users: Users) => Promise<Channel[]>;
   fetchChannelInfo: (channel: Channel) => Promise<Channel>;
-  loadChannelHistory: (channelId: string) => Promise<ChannelMessages>;
+  loadChannelHistory: (
+    channelId: string,
+    before?: string
+  ) => Promise<ChannelHistory>;
+  // Messages after the timestamp, to catch up after reconnects. If more
+  // than a page was missed, hasMore is true and the page can have gaps.
+  loadNewMessages: (
+    channelId: string,
+    after: string
+  ) => Promise<ChannelHistory>;
   getUserPrefs: () => Promise<UserPreferences>;
   markChannel: (channel: Channel, ts: string) => Promise<Channel>;
   fetchThreadReplies: (channelId: string, ts: string) => Promise<Message>;
+  // Sending resolves with the timestamp of the message, if the
+  // provider knows it, to replace the local echo of the message
   sendMessage: (
     text: string,
     currentUserId: string,
-    channelId: string
-  ) => Promise<void>;
+    channelId: string,
+    clientMessageId?: string
+  ) => Promise<string | void>;
   sendThreadReply: (
     text: string,
     currentUserId: string,
     channelId: string,
-    parentTimestamp: string
+    parentTimestamp: string,
+    broadcast?: boolean,
+    clientMessageId?: string
+  ) => Promise<string | void>;
+  markThread: (
+    channelId: string,
+    parentTimestamp: string,
+    ts: string
+  ) => Promise<void>;
+  editMessage: (channelId: string, ts: string, text: string) => Promise<void>;
+  deleteMessage: (channelId: string, ts: string) => Promise<void>;
+  addReaction: (channelId: string, ts: string, name: string) => Promise<void>;
+  removeReaction: (
+    channelId: string,
+    ts: string,
+    name: string
+  ) => Promise<void>;
+  fetchCustomEmoji: () => Promise<CustomEmoji>;
+  sendTyping: (channelId: string) => Promise<void>;
+  searchMessages: (query: string) => Promise<SearchResult[]>;
+  fetchCommands: () => Promise<string[]>;
+  sendCommand: (
+    channelId: string,
+    command: string,
+    text: string
   ) => Promise<void>;
   connect: () => Promise<CurrentUser>;
   isConnected: () => boolean;
@@ -28,6 +65,24 @@ export interface IChatProvider {
   // validateToken: (token: string) => Promise<boolean>;
 }
 
+export interface ChatProviderCapabilities {
+  // Declares what a chat provider can do, so that the UI can hide
+  // the rest, instead of failing silently
+  threads: boolean;
+  threadBroadcast: boolean; // thread replies can also be sent to the channel
+  reactions: boolean;
+  editMessage: boolean;
+  deleteMessage: boolean;
+  fileUpload: boolean;
+  presence: boolean;
+  historicalUnreads: boolean;
+  createIMChannel: boolean;
+  search: boolean;
+  typing: boolean; // typing indicators, both sent and received
+  commands: boolean; // slash commands of the provider, like "/remind"
+  syncHistory: boolean; // new messages since a timestamp, after reconnects
+}
+
 export interface User {
   id: string;
   name: string;
@@ -49,19 +104,42 @@ export interface CurrentUser {
   token: string;
   teams: Team[];
   currentTeamId: string;
-  provider: "slack" | "discord";
+  provider:
+    | "slack"
+    | "discord"
+    | "mattermost"
+    | "matrix"
+    | "rocketchat"
+    | "zulip"
+    | "irc"
+    | "mock";
 }
 
 export interface Team {
-  // Team represents workspace for Slack, guild for Discord
+  // Team represents workspace for Slack, guild for Discord, team for Mattermost,
+  // homeserver for Matrix, server for Rocket.Chat, organization for Zulip
+  // network for IRC, and the fake workspace for the mock provider
   id: string;
   name: string;
 }
 
+export interface WorkspaceAccount {
+  // A Slack workspace that the user has signed in to. The label is
+  // set when the user renames the workspace.
+  id: string;
+  name: string;
+  label?: string;
+}
+
 export interface Users {
   [id: string]: User;
 }
 
+export interface CustomEmoji {
+  // Image urls of the custom emoji of a workspace, by name
+  [name: string]: string;
+}
+
 interface MessageAttachment {
   name: string;
   permalink: string;
@@ -82,6 +160,7 @@ export interface MessageContent {
 
 interface MessageReaction {
   name: string;
+  rawName?: string; // name before the emoji is converted for display
   count: number;
   userIds: string[];
 }
@@ -92,6 +171,8 @@ export interface MessageReply {
   text?: string;
   attachment?: MessageAttachment;
   textHTML?: string;
+  clientMessageId?: string;
+  sendState?: MessageSendState;
 }
 
 export interface MessageReplies {
@@ -103,15 +184,48 @@ export interface Message {
   userId: string;
   text: string;
   textHTML?: string;
+  editText?: string; // text with mentions as names, for the edit box
+  editMentions?: Mention[];
   isEdited?: Boolean;
   attachment?: MessageAttachment;
   content: MessageContent;
   reactions: MessageReaction[];
   replies: MessageReplies;
+  clientMessageId?: string; // set by us, and echoed by some providers
+  sendState?: MessageSendState; // only for local echoes
   // TODO - add
   // subscribed (for threads)
 }
 
+export enum MessageSendState {
+  sending = "sending",
+  sent = "sent", // waiting for the provider to echo the message
+  failed = "failed"
+}
+
+export enum ConnectionState {
+  connecting = "connecting",
+  connected = "connected",
+  reconnecting = "reconnecting", // the socket is being connected again
+  offline = "offline" // waiting for the next reconnect attempt
+}
+
+export interface OutgoingMessage {
+  // Message in the outgoing queue, shown as a local echo till it is sent
+  clientMessageId: string;
+  channelId: string;
+  text: string;
+  timestamp: string; // of the local echo
+  parentTimestamp?: string;
+  broadcast?: boolean;
+  sendState: MessageSendState;
+}
+
+export interface SearchResult {
+  channelId: string;
+  message: Message;
+}
+
 export interface ChannelMessages {
   [timestamp: string]: Message;
 }
@@ -120,6 +234,13 @@ export interface Messages {
   [channelId: string]: ChannelMessages;
 }
 
+export interface ChannelHistory {
+  // One page of history. Older pages are loaded with the timestamp
+  // of the oldest message as the "before" cursor.
+  messages: ChannelMessages;
+  hasMore: boolean;
+}
+
 export enum ChannelType {
   channel = "channel",
   group = "group",
@@ -135,31 +256,73 @@ export interface Channel {
   categoryName?: string; // for Discord
 }
 
+export interface ThreadState {
+  // Thread that the user follows, with the read state from the provider
+  channelId: string;
+  parentTimestamp: string;
+  readTimestamp?: string;
+  isFollowed: boolean;
+}
+
+export interface ThreadLabel {
+  channel: Channel;
+  parentTimestamp: string;
+  label: string;
+  unread: number;
+  providerName: string;
+}
+
 export interface ChannelLabel {
   channel: Channel;
   unread: number;
   label: string;
   isOnline: boolean;
+  providerName: string;
 }
 
 enum MessageType {
   text = "text",
   thread_reply = "thread_reply",
+  edit_message = "edit_message",
+  delete_message = "delete_message",
+  add_reaction = "add_reaction",
+  remove_reaction = "remove_reaction",
   command = "command",
   link = "link",
   internal = "internal"
 }
 
+export interface Mention {
+  // Mention picked from the composer autocomplete, like "@name"
+  text: string;
+  type: "user" | "channel";
+  id: string;
+}
+
 export interface ExtensionMessage {
   type: MessageType;
   text: string;
+  mentions?: Mention[];
 }
 
 export interface UIMessage {
   messages: ChannelMessages;
   users: Users;
   channel: Channel;
+  channels: Channel[];
   currentUser: CurrentUser;
+  capabilities: ChatProviderCapabilities;
+  customEmoji: CustomEmoji;
+  hasMoreHistory: boolean;
+  threadTimestamp: string;
+  highlightTimestamp: string; // of the opened search result
+  draft: string;
+  threadDraft: string;
+  draftMentions: Mention[];
+  threadDraftMentions: Mention[];
+  commands: string[]; // of the provider
+  slashCommands?: string[]; // set by the view controller
+  connectionState: ConnectionState;
   statusText: string;
 }
 
@@ -177,21 +340,35 @@ export interface UIMessageGroup {
 }
 
 export interface IStore {
-  token: string;
   installationId: string;
   lastChannelId: string;
+  isAuthenticated: () => boolean;
+  getSelectedProviders: () => string[];
+  getChannel: (channelId: string) => Channel | undefined;
+  getChannelLabels: () => ChannelLabel[];
+  loadChannelHistory: (channelId: string) => Promise<void>;
+  loadOlderHistory: (channelId: string) => Promise<void>;
+  updateReadMarker: () => void;
+  updateUnreadCount: () => void;
+  updateConnectionState: () => void;
+  updateWebviewUI: () => void;
+}
+
+export interface IManager {
+  // State of one chat provider, which is passed to the provider
+  providerName: string;
+  token: string;
   channels: Channel[];
   currentUserInfo: CurrentUser;
   users: Users;
   messages: Messages;
   isAuthenticated: () => boolean;
-  getSelectedProvider: () => string;
   getChannel: (channelId: string) => Channel | undefined;
   getIMChannel: (user: User) => Channel | undefined;
-  getChannelLabels: () => any;
+  updateChannel: (channel: Channel) => void;
   updateMessages: (channelId: string, newMessages: ChannelMessages) => void;
   loadChannelHistory: (channelId: string) => Promise<void>;
-  updateReadMarker: () => void;
+  updateReadMarker: (channelId: string) => void;
   updateUserPresence: (userId: string, isOnline: boolean) => void;
   addReaction: (
     channelId: string,
@@ -207,18 +384,39 @@ export interface IStore {
   ) => void;
 }
 
+export interface ChatCommand {
+  // A "/namespace subcommand text" command, registered by another extension
+  namespace: string;
+  subcommand: string;
+  text: string;
+  provider: string;
+  channelId: string;
+}
+
+// The returned text, if any, is sent to the channel of the command
+export type ChatCommandHandler = (
+  command: ChatCommand
+) => string | void | Thenable<string | void>;
+
 export interface ChatArgs {
   channel: Channel;
   user: User;
+  providerName: string;
   source: EventSource;
 }
 
+export interface ThreadArgs extends ChatArgs {
+  parentTimestamp: string;
+}
+
 export enum EventSource {
   status = "status_item",
   command = "command_palette",
   activity = "activity_bar",
   info = "info_message",
-  slash = "slash_command"
+  slash = "slash_command",
+  search = "search_result",
+  mention = "message_mention"
 }
 
 export enum EventType {
@@ -0,0 +1,287 @@
+import * as tls from "tls";
+import * as net from "net";
+import ConfigHelper from "../config";
+import Logger from "../logger";
+
+const DEFAULT_PORT = 6697;
+const REGISTER_TIMEOUT = 30 * 1000; // in ms
+const MAX_LINE_LENGTH = 400; // leaves room for the prefix in 512 bytes
+
+// Capabilities that we request, if the server supports them
+const CAPABILITIES = ["away-notify", "multi-prefix"];
+
+export interface IRCNetwork {
+  name: string;
+  host: string;
+  port: number;
+  tls: boolean;
+  account: string; // for SASL, if configured
+  channels: string[];
+}
+
+export interface IRCMessage {
+  nick: string; // from the prefix, if it is a user
+  command: string;
+  params: string[];
+}
+
+export const parseLine = (line: string): IRCMessage => {
+  // Lines look like `:nick!user@host COMMAND param :trailing param`
+  let rest = line;
+  let prefix: string;
+
+  if (rest.startsWith("@")) {
+    // Message tags are not used
+    rest = rest.substr(rest.indexOf(" ") + 1);
+  }
+
+  if (rest.startsWith(":")) {
+    const spaceIndex = rest.indexOf(" ");
+    prefix = rest.substring(1, spaceIndex);
+    rest = rest.substr(spaceIndex + 1);
+  }
+
+  const trailingIndex = rest.indexOf(" :");
+  const trailing =
+    trailingIndex >= 0 ? rest.substr(trailingIndex + 2) : undefined;
+  const middle = trailingIndex >= 0 ? rest.substr(0, trailingIndex) : rest;
+  const [command, ...params] = middle.split(" ").filter(param => !!param);
+
+  if (trailing !== undefined) {
+    params.push(trailing);
+  }
+
+  return {
+    nick: !!prefix ? prefix.split("!")[0] : undefined,
+    command: command.toUpperCase(),
+    params
+  };
+};
+
+export const isChannelName = (target: string): boolean => {
+  return /^[#&+!]/.test(target);
+};
+
+export const splitText = (text: string): string[] => {
+  // IRC messages are single lines, with a maximum length
+  let lines = [];
+  text
+    .split(/\r?\n/)
+    .filter(line => !!line)
+    .forEach(line => {
+      for (let i = 0; i < line.length; i += MAX_LINE_LENGTH) {
+        lines.push(line.substr(i, MAX_LINE_LENGTH));
+      }
+    });
+  return lines;
+};
+
+export const getNetworks = (): IRCNetwork[] => {
+  const networks = ConfigHelper.getIrcNetworks();
+  return networks.filter(network => !!network.host).map(network => ({
+    name: network.name || network.host,
+    host: network.host,
+    port: network.port || DEFAULT_PORT,
+    tls: network.tls !== false,
+    account: network.account,
+    channels: network.channels || []
+  }));
+};
+
+class IRCClient {
+  nick: string;
+  isRegistered: boolean = false;
+  isDisconnecting: boolean = false;
+  private socket: net.Socket;
+  private buffer: string = "";
+  private availableCaps: string[] = [];
+
+  constructor(
+    private network: IRCNetwork,
+    nick: string,
+    private password: string,
+    private onMessage: (message: IRCMessage) => void,
+    private onClose: () => void
+  ) {
+    this.nick = nick;
+  }
+
+  connect = (): Promise<void> => {
+    // Resolves after the server has accepted our registration
+    const { host, port } = this.network;
+    const onConnect = () => {
+      this.send("CAP LS 302");
+      this.send(`NICK ${this.nick}`);
+      this.send(`USER ${this.nick} 0 * :${this.nick}`);
+    };
+
+    this.socket = this.network.tls
+      ? tls.connect(
+          {
+            host,
+            port,
+            servername: host,
+            rejectUnauthorized: !!ConfigHelper.getTlsRejectUnauthorized()
+          },
+          onConnect
+        )
+      : net.connect(
+          port,
+          host,
+          onConnect
+        );
+    this.socket.setEncoding("utf8");
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        onRegistered(new Error(`Registration timed out on ${host}`));
+        this.socket.destroy();
+      }, REGISTER_TIMEOUT);
+      const onRegistered = (error?: Error) => {
+        clearTimeout(timer);
+        return !!error ? reject(error) : resolve();
+      };
+
+      this.socket.on("data", (data: string) => {
+        this.buffer += data;
+        const lines = this.buffer.split("\r\n");
+        this.buffer = lines.pop();
+        lines
+          .filter(line => !!line)
+          .forEach(line => this.handleLine(line, onRegistered));
+      });
+
+      this.socket.on("error", error => {
+        Logger.log(`[ERROR] IRC ${host}: ${error.message}`);
+        onRegistered(error);
+      });
+
+      this.socket.on("close", () => {
+        Logger.log(`IRC connection closed: ${host}`);
+        const wasRegistered = this.isRegistered;
+        this.isRegistered = false;
+
+        // Disconnects that we asked for are not reconnected, and
+        // closes before the welcome fail the registration
+        if (!wasRegistered) {
+          onRegistered(
+            new Error(`Connection closed before registration on ${host}`)
+          );
+        } else if (!this.isDisconnecting) {
+          this.onClose();
+        }
+      });
+    });
+  };
+
+  send = (line: string) => {
+    if (!!this.socket && !this.socket.destroyed) {
+      this.socket.write(`${line}\r\n`);
+    }
+  };
+
+  handleLine = (line: string, onRegistered: (error?: Error) => void) => {
+    const message = parseLine(line);
+    const { command, params } = message;
+
+    switch (command) {
+      case "PING":
+        return this.send(`PONG :${params[0]}`);
+
+      case "CAP":
+        return this.handleCap(params);
+
+      case "AUTHENTICATE":
+        // SASL PLAIN sends the account and the password in one message
+        const { account } = this.network;
+        const credentials = `${account}\0${account}\0${this.password}`;
+        return this.send(
+          `AUTHENTICATE ${Buffer.from(credentials).toString("base64")}`
+        );
+
+      case "903": // RPL_SASLSUCCESS
+        return this.send("CAP END");
+
+      case "904": // ERR_SASLFAIL
+      case "905": // ERR_SASLTOOLONG
+        this.send("QUIT");
+        return onRegistered(new Error(`SASL failed: ${params[1]}`));
+
+      case "433": // ERR_NICKNAMEINUSE
+        if (!this.isRegistered) {
+          this.nick = `${this.nick}_`;
+          this.send(`NICK ${this.nick}`);
+        }
+        break;
+
+      case "001": // RPL_WELCOME
+        this.nick = params[0];
+        this.isRegistered = true;
+        onRegistered();
+        break;
+    }
+
+    this.onMessage(message);
+  };
+
+  handleCap = (params: string[]) => {
+    // Params look like `* LS :caps`, or `* LS * :caps` if there are more
+    const { account } = this.network;
+    const subcommand = params[1];
+    const isPartial = params.length > 3 && params[2] === "*";
+    const caps = params[params.length - 1];
+    const capNames = caps.split(" ").map(cap => cap.split("=")[0]);
+
+    switch (subcommand) {
+      case "LS":
+        this.availableCaps = [...this.availableCaps, ...capNames];
+
+        if (isPartial) {
+          return;
+        }
+
+        const wanted = !!account ? [...CAPABILITIES, "sasl"] : CAPABILITIES;
+        const requested = wanted.filter(
+          cap => this.availableCaps.indexOf(cap) >= 0
+        );
+
+        if (!!account && requested.indexOf("sasl") < 0) {
+          Logger.log(`IRC ${this.network.host} does not support SASL`);
+        }
+
+        return requested.length > 0
+          ? this.send(`CAP REQ :${requested.join(" ")}`)
+          : this.send("CAP END");
+
+      case "ACK":
+        return capNames.indexOf("sasl") >= 0
+          ? this.send("AUTHENTICATE PLAIN")
+          : this.send("CAP END");
+
+      case "NAK":
+        return this.send("CAP END");
+    }
+  };
+
+  join = (channel: string) => {
+    this.send(`JOIN ${channel}`);
+  };
+
+  sendMessage = (target: string, text: string) => {
+    splitText(text).forEach(line => this.send(`PRIVMSG ${target} :${line}`));
+  };
+
+  isConnected(): boolean {
+    return !!this.socket && !this.socket.destroyed && this.isRegistered;
+  }
+
+  disconnect() {
+    if (!!this.socket) {
+      this.isDisconnecting = true;
+      this.send("QUIT");
+      this.socket.end();
+    }
+  }
+}
+
+export default IRCClient;
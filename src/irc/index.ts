@@ -0,0 +1,227 @@
+import ConfigHelper from "../config";
+import { getNetworks } from "./client";
+import IRCMessenger, { getNick } from "./messenger";
+import {
+  IManager,
+  IChatProvider,
+  User,
+  Channel,
+  Users,
+  Message,
+  ChannelMessages,
+  UserPreferences,
+  CurrentUser,
+  ChatProviderCapabilities,
+  CustomEmoji,
+  ChannelHistory,
+  SearchResult
+} from "../interfaces";
+
+export class IRCChatProvider implements IChatProvider {
+  // IRC has no threads or reactions, and servers don't keep history
+  capabilities: ChatProviderCapabilities = {
+    threads: false,
+    threadBroadcast: false,
+    reactions: false,
+    editMessage: false,
+    deleteMessage: false,
+    fileUpload: false,
+    presence: true,
+    historicalUnreads: false,
+    createIMChannel: true,
+    search: false,
+    typing: false,
+    commands: false,
+    syncHistory: false
+  };
+
+  private token: string;
+  private nick: string;
+  private messenger: IRCMessenger;
+
+  constructor(private manager: IManager) {}
+
+  async getToken(): Promise<string> {
+    // Networks and the nickname are configured in the settings, and
+    // the token is the password for SASL auth
+    this.nick = ConfigHelper.getIrcNickname();
+    this.token = await ConfigHelper.getToken("irc");
+
+    if (!!this.nick && getNetworks().length > 0) {
+      return this.token;
+    }
+  }
+
+  getAuthTest(): Promise<string> {
+    const result = this.isConnected() ? "connected" : "not connected";
+    return Promise.resolve(result);
+  }
+
+  async connect(): Promise<CurrentUser> {
+    const networks = getNetworks();
+    this.messenger = new IRCMessenger(this.nick, this.token, this.manager);
+    await this.messenger.start(networks);
+
+    // Every network is a team
+    const teams = networks.map(({ name }) => ({ id: name, name }));
+    return {
+      id: this.messenger.selfId,
+      name: this.nick,
+      token: this.token,
+      teams,
+      // If there is only one network, we don't need to ask
+      currentTeamId: teams.length === 1 ? teams[0].id : undefined,
+      provider: "irc"
+    };
+  }
+
+  isConnected(): boolean {
+    return !!this.messenger && this.messenger.isConnected();
+  }
+
+  getCurrentTeamId(): string {
+    return this.manager.currentUserInfo.currentTeamId;
+  }
+
+  subscribePresence(users: Users) {
+    // Presence is derived from NAMES, AWAY and QUIT messages
+  }
+
+  createIMChannel(user: User): Promise<Channel> {
+    // Queries don't need to be created on the server
+    const channel = this.messenger.openQuery(
+      this.getCurrentTeamId(),
+      user.name
+    );
+    return Promise.resolve(channel);
+  }
+
+  fetchUsers(): Promise<Users> {
+    return Promise.resolve(this.messenger.getUsers(this.getCurrentTeamId()));
+  }
+
+  fetchUserInfo(userId: string): Promise<User> {
+    // Users that are not in our channels, like the sender of a query
+    const network = this.getCurrentTeamId();
+    const isOnline = this.messenger.isOnline(network, userId);
+    const nick = getNick(userId);
+    return Promise.resolve(this.messenger.getUser(userId, nick, isOnline));
+  }
+
+  fetchChannels(users: Users): Promise<Channel[]> {
+    return Promise.resolve(this.messenger.getChannels(this.getCurrentTeamId()));
+  }
+
+  fetchChannelInfo(channel: Channel): Promise<Channel> {
+    return Promise.resolve(this.messenger.getChannel(channel.id));
+  }
+
+  loadChannelHistory(channelId: string): Promise<ChannelHistory> {
+    // IRC servers don't keep history, so this is only what we have
+    // received since connecting
+    const history = this.messenger.history[channelId];
+    return Promise.resolve({ messages: { ...history }, hasMore: false });
+  }
+
+  loadNewMessages(channelId: string, after: string): Promise<ChannelHistory> {
+    // IRC servers don't keep history, so there is nothing to catch up on
+    return Promise.resolve({ messages: {}, hasMore: false });
+  }
+
+  getUserPrefs(): Promise<UserPreferences> {
+    return Promise.resolve({});
+  }
+
+  markChannel(channel: Channel, timestamp: string): Promise<Channel> {
+    // Read markers are only kept locally
+    this.messenger.readTimestamps[channel.id] = timestamp;
+    return Promise.resolve({
+      ...channel,
+      readTimestamp: timestamp,
+      unreadCount: 0
+    });
+  }
+
+  fetchThreadReplies(channelId: string, timestamp: string): Promise<Message> {
+    // IRC does not have threads
+    const history = this.messenger.history[channelId] || {};
+    return Promise.resolve(history[timestamp]);
+  }
+
+  sendMessage(
+    text: string,
+    currentUserId: string,
+    channelId: string
+  ): Promise<void> {
+    this.messenger.sendMessage(channelId, text, currentUserId);
+    return Promise.resolve();
+  }
+
+  sendThreadReply(
+    text: string,
+    currentUserId: string,
+    channelId: string,
+    parentTimestamp: string
+  ): Promise<void> {
+    // IRC does not have threads, so replies are sent to the channel
+    return this.sendMessage(text, currentUserId, channelId);
+  }
+
+  editMessage(channelId: string, ts: string, text: string): Promise<void> {
+    // IRC messages can't be edited or deleted
+    return Promise.resolve();
+  }
+
+  deleteMessage(channelId: string, ts: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  markThread(
+    channelId: string,
+    parentTimestamp: string,
+    ts: string
+  ): Promise<void> {
+    // Read state of threads is only kept locally
+    return Promise.resolve();
+  }
+
+  addReaction(channelId: string, ts: string, name: string): Promise<void> {
+    // IRC has no reactions
+    return Promise.resolve();
+  }
+
+  removeReaction(channelId: string, ts: string, name: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  fetchCustomEmoji(): Promise<CustomEmoji> {
+    return Promise.resolve({});
+  }
+
+  sendTyping(channelId: string): Promise<void> {
+    // IRC has no typing notifications
+    return Promise.resolve();
+  }
+
+  searchMessages(query: string): Promise<SearchResult[]> {
+    // IRC has no message history on the network
+    return Promise.resolve([]);
+  }
+
+  fetchCommands(): Promise<string[]> {
+    // IRC commands are not sent to the network
+    return Promise.resolve([]);
+  }
+
+  sendCommand(channelId: string, command: string, text: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  destroy(): Promise<void> {
+    if (!!this.messenger) {
+      this.messenger.disconnect();
+    }
+
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,412 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import IRCClient, { IRCNetwork, IRCMessage, isChannelName } from "./client";
+import {
+  IManager,
+  User,
+  Users,
+  Channel,
+  ChannelType,
+  ChannelMessages
+} from "../interfaces";
+import { SelfCommands } from "../constants";
+import Logger from "../logger";
+
+const HISTORY_LIMIT = 200; // messages kept per channel
+const JOIN_TIMEOUT = 10 * 1000; // in ms
+const NICK_PREFIXES = /^[~&@%+]+/;
+const ACTION_PATTERN = /^\u0001ACTION (.*)\u0001$/;
+
+interface IRCChannel {
+  id: string;
+  network: string;
+  target: string; // channel name, or nick for queries
+  type: ChannelType;
+  members: { [userId: string]: string }; // user id to nick
+}
+
+export const getUserId = (network: string, nick: string): string => {
+  // Nicks are case-insensitive, and only unique within their network
+  return `${network}/${nick.toLowerCase()}`;
+};
+
+export const getNick = (userId: string): string => {
+  // Nicks can't have slashes, unlike the names of networks
+  return userId.slice(userId.lastIndexOf("/") + 1);
+};
+
+export const getChannelId = (network: string, target: string): string => {
+  return `${network}/${target.toLowerCase()}`;
+};
+
+export const stripNickPrefix = (name: string): string => {
+  // NAMES replies prefix nicks with their channel modes, like @nick
+  return name.replace(NICK_PREFIXES, "");
+};
+
+class IRCMessenger {
+  clients: { [network: string]: IRCClient } = {};
+  channels: { [channelId: string]: IRCChannel } = {};
+  history: { [channelId: string]: ChannelMessages } = {};
+  readTimestamps: { [channelId: string]: string } = {};
+  private away: { [network: string]: { [userId: string]: boolean } } = {};
+  private pendingJoins: { [channelId: string]: () => void } = {};
+  private lastTimestamp: number = 0;
+  // We have the same user id on every network, also after nick changes
+  selfId: string;
+
+  constructor(
+    private nick: string,
+    private password: string,
+    private manager: IManager
+  ) {
+    this.selfId = nick.toLowerCase();
+  }
+
+  start = (networks: IRCNetwork[]): Promise<void> => {
+    // Networks that fail to connect are skipped, unless all of them fail
+    const connections = networks.map(network =>
+      this.connectNetwork(network)
+        .then(() => true)
+        .catch(error => {
+          Logger.log(`[ERROR] IRC ${network.name}: ${error.message}`);
+          return false;
+        })
+    );
+
+    return Promise.all(connections).then(results => {
+      if (results.every(result => !result)) {
+        throw new Error("Could not connect to any IRC network");
+      }
+    });
+  };
+
+  connectNetwork = (network: IRCNetwork): Promise<void> => {
+    const { name, channels } = network;
+    const client = new IRCClient(
+      network,
+      this.nick,
+      this.password,
+      message => this.handleMessage(name, message),
+      () => this.handleClose()
+    );
+    this.clients[name] = client;
+    this.away[name] = {};
+
+    return client.connect().then(() => {
+      vscode.commands.executeCommand(SelfCommands.CONNECTED, {
+        provider: "irc"
+      });
+      const joins = channels.map(
+        channel =>
+          new Promise(resolve => {
+            this.pendingJoins[getChannelId(name, channel)] = resolve;
+            client.join(channel);
+          })
+      );
+      const timeout = new Promise(resolve => setTimeout(resolve, JOIN_TIMEOUT));
+      return Promise.race([Promise.all(joins), timeout]).then(() => {});
+    });
+  };
+
+  handleClose = () => {
+    // A dropped network connects all networks again, since the
+    // provider is reconnected as a whole
+    vscode.commands.executeCommand(SelfCommands.DISCONNECTED, {
+      provider: "irc"
+    });
+  };
+
+  getTimestamp = (): string => {
+    // IRC has no message ids or server timestamps, so we use the time
+    // of arrival, in microseconds to keep timestamps unique
+    const now = new Date().valueOf() * 1000;
+    this.lastTimestamp = Math.max(now, this.lastTimestamp + 1);
+    return (this.lastTimestamp / 1000000).toFixed(6);
+  };
+
+  getChannel = (channelId: string): Channel => {
+    const { id, target, type } = this.channels[channelId];
+    return {
+      id,
+      name: target,
+      type,
+      readTimestamp: this.readTimestamps[channelId],
+      unreadCount: 0
+    };
+  };
+
+  getChannels = (network: string): Channel[] => {
+    return Object.keys(this.channels)
+      .filter(channelId => this.channels[channelId].network === network)
+      .map(channelId => this.getChannel(channelId));
+  };
+
+  addChannel = (network: string, target: string): IRCChannel => {
+    const id = getChannelId(network, target);
+
+    if (!(id in this.channels)) {
+      this.channels[id] = {
+        id,
+        network,
+        target,
+        type: isChannelName(target) ? ChannelType.channel : ChannelType.im,
+        members: {}
+      };
+      this.readTimestamps[id] = this.getTimestamp();
+      this.history[id] = {};
+    }
+
+    return this.channels[id];
+  };
+
+  openQuery = (network: string, nick: string): Channel => {
+    const { id } = this.addChannel(network, nick);
+    return this.getChannel(id);
+  };
+
+  getUser = (userId: string, nick: string, isOnline: boolean): User => {
+    const hash = crypto
+      .createHash("md5")
+      .update(userId)
+      .digest("hex");
+    const imageUrl = `https://www.gravatar.com/avatar/${hash}?d=identicon`;
+    return {
+      id: userId,
+      name: nick,
+      fullName: nick,
+      imageUrl,
+      smallImageUrl: imageUrl,
+      isOnline
+    };
+  };
+
+  getUsers = (network: string): Users => {
+    let users: Users = {};
+    Object.keys(this.channels)
+      .map(channelId => this.channels[channelId])
+      .filter(channel => channel.network === network)
+      .forEach(channel => {
+        if (channel.type === ChannelType.im) {
+          const userId = this.getNickUserId(network, channel.target);
+          const isOnline = this.isOnline(network, userId);
+          users[userId] = this.getUser(userId, channel.target, isOnline);
+        }
+
+        Object.keys(channel.members).forEach(userId => {
+          const nick = channel.members[userId];
+          const isOnline = this.isOnline(network, userId);
+          users[userId] = this.getUser(userId, nick, isOnline);
+        });
+      });
+    return users;
+  };
+
+  isOnline = (network: string, userId: string): boolean => {
+    // Users are online if they share a channel with us, and are not away
+    const isPresent = Object.keys(this.channels)
+      .map(channelId => this.channels[channelId])
+      .some(
+        channel => channel.network === network && userId in channel.members
+      );
+    return isPresent && !this.away[network][userId];
+  };
+
+  isCurrentNetwork = (network: string): boolean => {
+    // Only the current network is shown in the views
+    const { currentUserInfo } = this.manager;
+    return !!currentUserInfo && currentUserInfo.currentTeamId === network;
+  };
+
+  updateChannel = (channelId: string) => {
+    const { network } = this.channels[channelId];
+
+    if (this.isCurrentNetwork(network)) {
+      this.manager.updateChannel(this.getChannel(channelId));
+    }
+  };
+
+  updatePresence = (network: string, userId: string) => {
+    if (this.isCurrentNetwork(network)) {
+      vscode.commands.executeCommand(SelfCommands.UPDATE_USER_PRESENCE, {
+        provider: "irc",
+        userId,
+        isOnline: this.isOnline(network, userId)
+      });
+    }
+  };
+
+  isSelf = (network: string, nick: string): boolean => {
+    const client = this.clients[network];
+    return nick.toLowerCase() === client.nick.toLowerCase();
+  };
+
+  getNickUserId = (network: string, nick: string): string => {
+    return this.isSelf(network, nick) ? this.selfId : getUserId(network, nick);
+  };
+
+  handleMessage = (network: string, message: IRCMessage) => {
+    const { nick, command, params } = message;
+    // Messages of the server have no nick
+    const userId = !!nick ? this.getNickUserId(network, nick) : undefined;
+
+    switch (command) {
+      case "JOIN":
+        const joined = this.addChannel(network, params[0]);
+
+        if (this.isSelf(network, nick)) {
+          this.updateChannel(joined.id);
+        } else {
+          joined.members[userId] = nick;
+          this.updatePresence(network, userId);
+        }
+        break;
+
+      case "353": // RPL_NAMREPLY
+        const namesChannel = this.addChannel(network, params[2]);
+        params[3]
+          .split(" ")
+          .filter(name => !!name)
+          .map(name => stripNickPrefix(name))
+          .forEach(
+            name =>
+              (namesChannel.members[this.getNickUserId(network, name)] = name)
+          );
+        break;
+
+      case "366": // RPL_ENDOFNAMES
+        const channelId = getChannelId(network, params[1]);
+
+        if (channelId in this.pendingJoins) {
+          this.pendingJoins[channelId]();
+          delete this.pendingJoins[channelId];
+        }
+        break;
+
+      case "PART":
+      case "KICK":
+        const leftChannelId = getChannelId(network, params[0]);
+        const leftUserId =
+          command === "KICK" ? this.getNickUserId(network, params[1]) : userId;
+
+        if (leftChannelId in this.channels) {
+          delete this.channels[leftChannelId].members[leftUserId];
+          this.updatePresence(network, leftUserId);
+        }
+        break;
+
+      case "QUIT":
+        Object.keys(this.channels)
+          .map(id => this.channels[id])
+          .filter(channel => channel.network === network)
+          .forEach(channel => delete channel.members[userId]);
+        this.updatePresence(network, userId);
+        break;
+
+      case "NICK":
+        const newNick = params[0];
+        const newUserId = this.getNickUserId(network, newNick);
+        Object.keys(this.channels)
+          .map(id => this.channels[id])
+          .filter(channel => channel.network === network)
+          .filter(channel => userId in channel.members)
+          .forEach(channel => {
+            delete channel.members[userId];
+            channel.members[newUserId] = newNick;
+          });
+        this.updatePresence(network, userId);
+        this.updatePresence(network, newUserId);
+        break;
+
+      case "AWAY":
+        // Sent with the away-notify capability, without params when back
+        this.away[network][userId] = params.length > 0;
+        this.updatePresence(network, userId);
+        break;
+
+      case "PRIVMSG":
+        const [target, text] = params;
+        const channelTarget = isChannelName(target) ? target : nick;
+        const isNewQuery = !(
+          getChannelId(network, channelTarget) in this.channels
+        );
+        const channel = this.addChannel(network, channelTarget);
+        const action = text.match(ACTION_PATTERN);
+
+        if (text.startsWith("\u0001") && !action) {
+          // Other CTCP requests, like VERSION, are not shown
+          break;
+        }
+
+        if (isNewQuery) {
+          this.updateChannel(channel.id);
+        }
+
+        const messageText = !!action ? `_${action[1]}_` : text;
+        this.addMessage(channel.id, userId, messageText);
+        this.handleMessageLinks(messageText, userId);
+        break;
+    }
+  };
+
+  addMessage = (channelId: string, userId: string, text: string) => {
+    const timestamp = this.getTimestamp();
+    let newMessages: ChannelMessages = {};
+    newMessages[timestamp] = {
+      timestamp,
+      userId,
+      text,
+      content: null,
+      reactions: [],
+      replies: {}
+    };
+
+    // We keep a rolling history, since IRC servers don't have any
+    const history = { ...this.history[channelId], ...newMessages };
+    const timestamps = Object.keys(history).sort((a, b) => +a - +b);
+    timestamps
+      .slice(0, Math.max(timestamps.length - HISTORY_LIMIT, 0))
+      .forEach(ts => delete history[ts]);
+    this.history[channelId] = history;
+
+    vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGES, {
+      provider: "irc",
+      channelId,
+      messages: newMessages
+    });
+  };
+
+  sendMessage = (channelId: string, text: string, currentUserId: string) => {
+    // Servers don't echo our messages back, so we add them ourselves
+    const { network, target } = this.channels[channelId];
+    this.clients[network].sendMessage(target, text);
+    this.addMessage(channelId, currentUserId, text);
+  };
+
+  handleMessageLinks = (text: string, userId: string) => {
+    // For vsls invitations
+    try {
+      if (!!text && text.startsWith("http")) {
+        vscode.commands.executeCommand(SelfCommands.HANDLE_INCOMING_LINKS, {
+          provider: "irc",
+          senderId: userId,
+          uri: vscode.Uri.parse(text)
+        });
+      }
+    } catch (err) {}
+  };
+
+  isConnected(): boolean {
+    return Object.keys(this.clients).some(network =>
+      this.clients[network].isConnected()
+    );
+  }
+
+  disconnect() {
+    Object.keys(this.clients).forEach(network =>
+      this.clients[network].disconnect()
+    );
+  }
+}
+
+export default IRCMessenger;
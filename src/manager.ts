@@ -0,0 +1,1703 @@
+import * as vscode from "vscode";
+import {
+  Channel,
+  CurrentUser,
+  ChannelMessages,
+  Message,
+  Messages,
+  Users,
+  IStore,
+  IManager,
+  User,
+  Team,
+  ChannelType,
+  ChannelLabel,
+  UserPreferences,
+  IChatProvider,
+  ChatProviderCapabilities,
+  MessageReply,
+  MessageReplies,
+  CustomEmoji,
+  ChannelHistory,
+  ThreadState,
+  OutgoingMessage,
+  MessageSendState,
+  ThreadLabel,
+  SearchResult,
+  Mention
+} from "./interfaces";
+import { isSuperset, difference, getWorkspaceKey, uuidv4 } from "./utils";
+import { isSameReaction } from "./utils/emoji";
+import Logger from "./logger";
+import DiskCache, { getCachePath } from "./cache";
+import ConnectionManager from "./connection";
+import { DiscordChatProvider } from "./discord";
+import { SlackChatProvider } from "./slack";
+import { MattermostChatProvider } from "./mattermost";
+import { MatrixChatProvider } from "./matrix";
+import { RocketChatChatProvider } from "./rocketchat";
+import { ZulipChatProvider } from "./zulip";
+import { IRCChatProvider } from "./irc";
+import { MockChatProvider } from "./mock";
+import {
+  UnreadsTreeProvider,
+  ChannelTreeProvider,
+  GroupTreeProvider,
+  IMsTreeProvider,
+  OnlineUsersTreeProvider,
+  ThreadsTreeProvider
+} from "./tree";
+
+const stateKeys = {
+  CHANNELS: "channels",
+  USER_INFO: "userInfo",
+  USERS: "users",
+  DRAFTS: "drafts",
+  DRAFT_MENTIONS: "draftMentions"
+};
+
+const THREAD_LABEL_LENGTH = 40;
+
+// Seconds between our clock and the clock of the provider, when
+// local echoes are matched with the messages of the provider
+const MAX_CLOCK_SKEW = 60;
+
+// Milliseconds till a typing user is cleared, since Slack does not
+// tell us when users stop typing
+const TYPING_TIMEOUT = 6000;
+
+// Messages that are fetched again after reconnects, for their edits
+const SYNC_OVERLAP = 20;
+
+// Editors without a global storage path (before VS Code 1.31) have no
+// disk cache, and users and channels are saved in context.globalState.
+// Large discord communities like Reactiflux are not saved there due to its
+// quota, and their users and channels are fetched again on every start.
+const STORAGE_SIZE_LIMIT = 100;
+
+const getDraftKey = (channelId: string, parentTimestamp?: string): string => {
+  // Drafts of threads are saved separately from their channel
+  return !!parentTimestamp ? `${channelId}:${parentTimestamp}` : channelId;
+};
+
+export const getStateKey = (key: string, providerName: string): string => {
+  // State for every provider is saved separately
+  return `${key}.${providerName}`;
+};
+
+const getChatProvider = (
+  providerName: string,
+  manager: ChatProviderManager
+): IChatProvider => {
+  switch (providerName) {
+    case "discord":
+      return new DiscordChatProvider(manager);
+    case "slack":
+      return new SlackChatProvider(manager.workspaceId);
+    case "mattermost":
+      return new MattermostChatProvider(manager);
+    case "matrix":
+      return new MatrixChatProvider();
+    case "rocketchat":
+      return new RocketChatChatProvider(manager);
+    case "zulip":
+      return new ZulipChatProvider(manager);
+    case "irc":
+      return new IRCChatProvider(manager);
+    case "mock":
+      return new MockChatProvider(manager);
+  }
+};
+
+/**
+ * Holds the state of one chat provider, so that several providers
+ * can be connected at the same time
+ */
+export default class ChatProviderManager
+  implements IManager, vscode.Disposable {
+  token: string;
+  channels: Channel[] = [];
+  channelsFetchedAt: Date;
+  currentUserInfo: CurrentUser;
+  currentUserPrefs: UserPreferences = {};
+  customEmoji: CustomEmoji = {};
+  commands: string[] = [];
+  users: Users = {};
+  usersFetchedAt: Date;
+  messages: Messages = {};
+  hasMoreHistory: { [channelId: string]: boolean } = {};
+  loadingHistory: Set<string> = new Set([]);
+  threadStates: { [threadKey: string]: ThreadState } = {};
+  drafts: { [draftKey: string]: string } = {};
+  draftMentions: { [draftKey: string]: Mention[] } = {};
+  outgoing: OutgoingMessage[] = [];
+  typing: { [channelId: string]: string[] } = {};
+  typingTimers: { [typingKey: string]: NodeJS.Timer } = {};
+  cache: DiskCache;
+  unsavedKeys: Set<string> = new Set([]);
+  connection: ConnectionManager;
+
+  unreadsTreeProvider: UnreadsTreeProvider;
+  channelsTreeProvider: ChannelTreeProvider;
+  imsTreeProvider: IMsTreeProvider;
+  groupsTreeProvider: GroupTreeProvider;
+  usersTreeProvider: OnlineUsersTreeProvider;
+  threadsTreeProvider: ThreadsTreeProvider;
+
+  chatProvider: IChatProvider;
+
+  // Identifies the manager in realtime commands and saved state
+  key: string;
+
+  constructor(
+    public providerName: string,
+    private store: IStore,
+    private context: vscode.ExtensionContext,
+    public workspaceId?: string
+  ) {
+    // Managers with a workspaceId are connected in the background,
+    // and only count towards the unreads, without any tree views
+    this.key = !!workspaceId
+      ? getWorkspaceKey(providerName, workspaceId)
+      : providerName;
+
+    // Users, channels and messages are read from the disk cache, and
+    // from globalState for editors without one, or older versions
+    const { globalState } = context;
+    this.cache = new DiskCache(getCachePath(context, this.key));
+
+    if (!this.cache.isEnabled()) {
+      Logger.log(`No disk cache for ${this.key}, saving in globalState`);
+    }
+
+    this.channels =
+      this.cache.getChannels() ||
+      globalState.get(this.getStateKey(stateKeys.CHANNELS));
+    this.currentUserInfo = globalState.get(
+      this.getStateKey(stateKeys.USER_INFO)
+    );
+    this.users =
+      this.cache.getUsers() ||
+      globalState.get(this.getStateKey(stateKeys.USERS)) ||
+      {};
+    this.messages = this.cache.getMessages() || {};
+    this.connection = new ConnectionManager(providerName, this.reconnect, () =>
+      this.store.updateConnectionState()
+    );
+    this.drafts = globalState.get(this.getStateKey(stateKeys.DRAFTS)) || {};
+    this.draftMentions =
+      globalState.get(this.getStateKey(stateKeys.DRAFT_MENTIONS)) || {};
+
+    if (!this.isBackground()) {
+      this.usersTreeProvider = new OnlineUsersTreeProvider(providerName);
+      this.unreadsTreeProvider = new UnreadsTreeProvider(providerName);
+      this.channelsTreeProvider = new ChannelTreeProvider(providerName);
+      this.groupsTreeProvider = new GroupTreeProvider(providerName);
+      this.imsTreeProvider = new IMsTreeProvider(providerName);
+    }
+  }
+
+  getStateKey(key: string): string {
+    return getStateKey(key, this.key);
+  }
+
+  isBackground(): boolean {
+    return !!this.workspaceId;
+  }
+
+  initializeToken = async () => {
+    this.chatProvider = getChatProvider(this.providerName, this);
+    const token = await this.chatProvider.getToken();
+    this.token = token;
+  };
+
+  initializeProvider = async (): Promise<any> => {
+    const isConnected = this.chatProvider.isConnected();
+    const isAuthenticated = this.isAuthenticated();
+    let currentUser = this.currentUserInfo;
+
+    if (this.connection.isReconnecting()) {
+      // Reconnects are left to the backoff of the connection manager
+      return currentUser;
+    }
+
+    if (!(isConnected && isAuthenticated)) {
+      this.connection.onConnecting();
+
+      try {
+        currentUser = await this.chatProvider.connect();
+      } catch (error) {
+        this.connection.onConnectFailed(error);
+        throw error;
+      }
+
+      this.updateCurrentUser(currentUser);
+    }
+
+    this.connection.onConnected();
+    return currentUser;
+  };
+
+  reconnect = async (): Promise<void> => {
+    // The socket has given up, so the provider is connected from scratch,
+    // and users and channels are fetched again if they are outdated
+    await this.chatProvider.destroy();
+    const currentUser = await this.chatProvider.connect();
+    this.updateCurrentUser(currentUser);
+    await this.getUsersPromise();
+    await this.getChannelsPromise();
+    this.updateAllUI();
+  };
+
+  clearAll() {
+    this.updateCurrentUser(undefined);
+    this.clearOldWorkspace();
+  }
+
+  clearOldWorkspace() {
+    // This clears workspace info, does not clear current user
+    this.updateChannels([]);
+    this.updateUsers({});
+    this.usersFetchedAt = undefined;
+    this.channelsFetchedAt = undefined;
+    this.messages = {};
+    this.cache.updateMessages(this.messages);
+    this.outgoing = [];
+    this.hasMoreHistory = {};
+    this.threadStates = {};
+    this.updateDrafts({});
+    this.updateDraftMentions({});
+    this.token = undefined;
+    this.connection.reset();
+
+    if (!!this.chatProvider) {
+      this.chatProvider.destroy();
+    }
+  }
+
+  updateAllUI() {
+    this.updateTreeViews();
+    this.store.updateUnreadCount();
+    this.store.updateWebviewUI();
+  }
+
+  dispose() {
+    if (!!this.chatProvider) {
+      this.chatProvider.destroy();
+    }
+
+    this.cache.dispose();
+    this.connection.dispose();
+
+    if (!this.isBackground()) {
+      this.unreadsTreeProvider.dispose();
+      this.channelsTreeProvider.dispose();
+      this.groupsTreeProvider.dispose();
+      this.imsTreeProvider.dispose();
+      this.usersTreeProvider.dispose();
+    }
+
+    if (!!this.threadsTreeProvider) {
+      this.threadsTreeProvider.dispose();
+    }
+  }
+
+  isAuthenticated() {
+    return !!this.currentUserInfo && !!this.currentUserInfo.id;
+  }
+
+  getChannel(channelId: string): Channel {
+    return (this.channels || []).find(channel => channel.id === channelId);
+  }
+
+  getCapabilities(): ChatProviderCapabilities | undefined {
+    return !!this.chatProvider ? this.chatProvider.capabilities : undefined;
+  }
+
+  hasCapability(capability: keyof ChatProviderCapabilities): boolean {
+    // Providers that are not set up yet have no capabilities
+    const capabilities = this.getCapabilities();
+    return !!capabilities && !!capabilities[capability];
+  }
+
+  isChannelMuted(channelId: string): boolean {
+    const { mutedChannels } = this.currentUserPrefs;
+    return !!mutedChannels && mutedChannels.indexOf(channelId) >= 0;
+  }
+
+  getChannelLabels(): ChannelLabel[] {
+    return (this.channels || []).map(channel => {
+      const unread = this.getUnreadCount(channel);
+      const { name, type, id } = channel;
+      const isMuted = this.isChannelMuted(id);
+      let isOnline = false;
+
+      if (type === ChannelType.im) {
+        const relatedUserId = Object.keys(this.users).find(value => {
+          const user = this.users[value];
+          const { name: username } = user;
+          // Same issue as getIMChannel(), so we handle both
+          return `@${username}` === name || username === name;
+        });
+
+        if (!!relatedUserId) {
+          const relatedUser = this.users[relatedUserId];
+          isOnline = relatedUser.isOnline;
+        }
+      }
+
+      let label;
+
+      if (unread > 0) {
+        label = `${name} ${unread > 0 ? `(${unread} new)` : ""}`;
+      } else if (isMuted) {
+        label = `${name} (muted)`;
+      } else {
+        label = `${name}`;
+      }
+
+      if (!!this.getDraft(id)) {
+        label = `${label} (draft)`;
+      }
+
+      return {
+        channel,
+        unread,
+        label,
+        isOnline,
+        providerName: this.providerName
+      };
+    });
+  }
+
+  getIMChannel(user: User): Channel | undefined {
+    // Hacky implementation to tackle chat provider differences
+    // Slack: DM channels look like `@name`
+    // Discord: DM channels look like `name`
+    const { name } = user;
+    return (this.channels || []).find(
+      channel => channel.name === `@${name}` || channel.name === name
+    );
+  }
+
+  createIMChannel(user: User): Promise<Channel> {
+    return this.chatProvider.createIMChannel(user).then(channel => {
+      this.updateChannel(channel);
+      return channel;
+    });
+  }
+
+  getUnreadCount(channel: Channel): number {
+    const { id, readTimestamp, unreadCount } = channel;
+
+    if (this.isChannelMuted(id)) {
+      // This channel is muted, so return 0
+      return 0;
+    }
+
+    const messages = id in this.messages ? this.messages[id] : {};
+    const unreadMessages = Object.keys(messages).filter(ts => {
+      const isDifferentUser = messages[ts].userId !== this.currentUserInfo.id;
+      const isNewTimestamp = !!readTimestamp ? +ts > +readTimestamp : false;
+      return isDifferentUser && isNewTimestamp;
+    });
+    return unreadCount ? unreadCount : unreadMessages.length;
+  }
+
+  getTotalUnreads(): number {
+    if (!this.isAuthenticated()) {
+      return 0;
+    }
+
+    const unreads = (this.channels || []).map(channel =>
+      this.getUnreadCount(channel)
+    );
+    return unreads.reduce((a, b) => a + b, 0);
+  }
+
+  updateTreeViews() {
+    if (this.isAuthenticated() && !this.isBackground()) {
+      const channelLabels = this.getChannelLabels();
+      this.unreadsTreeProvider.update(channelLabels);
+      this.channelsTreeProvider.update(channelLabels);
+      this.groupsTreeProvider.update(channelLabels);
+      this.imsTreeProvider.update(channelLabels);
+
+      // We could possibly split this function for channel-updates and user-updates
+      // to avoid extra UI refresh calls.
+      const imChannels = {};
+      Object.keys(this.users).forEach(userId => {
+        const im = this.getIMChannel(this.users[userId]);
+
+        if (!!im) {
+          imChannels[userId] = im;
+        }
+      });
+
+      this.usersTreeProvider.updateData(
+        this.currentUserInfo,
+        this.users,
+        imChannels,
+        this.getCapabilities()
+      );
+      this.updateThreadsTreeView();
+    }
+  }
+
+  updateThreadsTreeView() {
+    // The view is only registered for providers that support threads
+    if (this.hasCapability("threads")) {
+      if (!this.threadsTreeProvider) {
+        this.threadsTreeProvider = new ThreadsTreeProvider(this.providerName);
+      }
+
+      this.threadsTreeProvider.updateThreads(this.getThreadLabels());
+    }
+  }
+
+  updateUserPresence = (userId: string, isOnline: boolean) => {
+    if (userId in this.users) {
+      this.users[userId] = {
+        ...this.users[userId],
+        isOnline
+      };
+
+      this.updateTreeViews();
+    }
+  };
+
+  updateTyping(channelId: string, userId: string, isTyping: boolean) {
+    const typingKey = `${channelId}:${userId}`;
+    const typingIds = (this.typing[channelId] || []).filter(
+      id => id !== userId
+    );
+    clearTimeout(this.typingTimers[typingKey]);
+    delete this.typingTimers[typingKey];
+
+    if (isTyping && userId !== this.currentUserInfo.id) {
+      this.typing[channelId] = [...typingIds, userId];
+      this.typingTimers[typingKey] = setTimeout(
+        () => this.updateTyping(channelId, userId, false),
+        TYPING_TIMEOUT
+      );
+    } else {
+      this.typing[channelId] = typingIds;
+    }
+
+    this.store.updateWebviewUI();
+  }
+
+  getTypingNames(channelId: string): string[] {
+    return (this.typing[channelId] || []).map(
+      userId => (userId in this.users ? this.users[userId].name : userId)
+    );
+  }
+
+  sendTyping(channelId: string): Promise<void> {
+    if (!this.hasCapability("typing")) {
+      return Promise.resolve();
+    }
+
+    return this.chatProvider
+      .sendTyping(channelId)
+      .catch(error => Logger.log(`Failed to send typing: ${error}`));
+  }
+
+  updateUsers = (users): Thenable<void> => {
+    this.users = users;
+    this.cache.updateUsers(this.users);
+    const size = Object.keys(this.users).length;
+    return this.updateSavedState(stateKeys.USERS, this.users, size);
+  };
+
+  updateUsersFetchedAt = () => {
+    this.usersFetchedAt = new Date();
+  };
+
+  updateChannelsFetchedAt = () => {
+    this.channelsFetchedAt = new Date();
+  };
+
+  updateChannels = channels => {
+    this.channels = channels;
+    this.cache.updateChannels(this.channels);
+    this.updateSavedState(stateKeys.CHANNELS, this.channels, channels.length);
+  };
+
+  updateSavedState(key: string, value: any, size: number): Thenable<void> {
+    // Without a global storage path there is no disk cache, and small
+    // workspaces are saved in globalState, within its quota. Otherwise the
+    // key is cleared, which also removes the state of older versions.
+    const isSaved = !this.cache.isEnabled() && size <= STORAGE_SIZE_LIMIT;
+
+    if (this.cache.isEnabled() || isSaved) {
+      this.unsavedKeys.delete(key);
+    } else if (!this.unsavedKeys.has(key)) {
+      // Logged once, until the workspace fits again
+      Logger.log(`Not saving ${key} of ${this.key}, with ${size} items`);
+      this.unsavedKeys.add(key);
+    }
+
+    const { globalState } = this.context;
+    return globalState.update(
+      this.getStateKey(key),
+      isSaved ? value : undefined
+    );
+  }
+
+  updateChannel = (newChannel: Channel) => {
+    // Adds/updates channel in this.channels
+    let found = false;
+    let updatedChannels = (this.channels || []).map(channel => {
+      const { id } = channel;
+
+      if (id === newChannel.id) {
+        found = true;
+        return {
+          ...channel,
+          ...newChannel
+        };
+      } else {
+        return channel;
+      }
+    });
+
+    if (!found) {
+      updatedChannels = [...updatedChannels, newChannel];
+    }
+
+    this.updateChannels(updatedChannels);
+    this.updateTreeViews();
+  };
+
+  fetchUsers = (): Promise<Users> => {
+    return this.chatProvider.fetchUsers().then((users: Users) => {
+      let usersWithPresence: Users = {};
+
+      Object.keys(users).forEach(userId => {
+        // This handles two different chat providers:
+        // In slack, we will get isOnline as undefined, because this API
+        //    does not know about user presence
+        // In discord, we will get true/false
+        const existingUser = userId in this.users ? this.users[userId] : null;
+        const newUser = users[userId];
+        let calculatedIsOnline: boolean;
+
+        if (newUser.isOnline !== undefined) {
+          calculatedIsOnline = newUser.isOnline;
+        } else {
+          calculatedIsOnline = !!existingUser ? existingUser.isOnline : false;
+        }
+
+        usersWithPresence[userId] = {
+          ...users[userId],
+          isOnline: calculatedIsOnline
+        };
+      });
+
+      this.updateUsers(usersWithPresence);
+      this.updateUsersFetchedAt();
+      return users;
+    });
+  };
+
+  fetchChannels = (): Promise<Channel[]> => {
+    return this.chatProvider.fetchChannels(this.users).then(channels => {
+      this.updateChannels(channels);
+      this.updateChannelsFetchedAt();
+      this.updateTreeViews();
+
+      // We have to fetch twice here because Slack does not return the
+      // historical unread counts for channels in the list API.
+      this.fetchChannelInfos(channels);
+      return channels;
+    });
+  };
+
+  fetchChannelInfos(channels: Channel[]): Promise<void> {
+    const promises = channels.map(channel =>
+      this.chatProvider
+        .fetchChannelInfo(channel)
+        .then((newChannel: Channel) => {
+          return this.updateChannel(newChannel);
+        })
+    );
+
+    return Promise.all(promises).then(() => this.store.updateUnreadCount());
+  }
+
+  shouldFetchNew = (lastFetchedAt: Date): boolean => {
+    if (!lastFetchedAt) {
+      return true;
+    }
+
+    const now = new Date();
+    const difference = now.valueOf() - lastFetchedAt.valueOf();
+    const FETCH_THRESHOLD = 15 * 60 * 1000; // 15-mins
+    return difference > FETCH_THRESHOLD;
+  };
+
+  getUsersPromise(): Promise<Users> {
+    function isNotEmpty(obj) {
+      return Object.keys(obj).length !== 0;
+    }
+
+    return isNotEmpty(this.users)
+      ? new Promise(resolve => {
+          if (this.shouldFetchNew(this.usersFetchedAt)) {
+            this.fetchUsers(); // async update
+          }
+          resolve(this.users);
+        })
+      : this.fetchUsers();
+  }
+
+  getChannelsPromise(): Promise<Channel[]> {
+    // This assumes that users are available
+    return !!this.channels
+      ? new Promise(resolve => {
+          if (this.shouldFetchNew(this.channelsFetchedAt)) {
+            this.fetchChannels(); // async update
+          }
+          resolve(this.channels);
+        })
+      : this.fetchChannels();
+  }
+
+  updateCurrentUser = (userInfo: CurrentUser): Thenable<void> => {
+    // In the case of discord, we need to know the current team (guild)
+    // If that is available in the store, we should use that
+    if (!userInfo) {
+      // Resetting userInfo
+      this.currentUserInfo = userInfo;
+    } else {
+      let currentTeamId: string = !!this.currentUserInfo
+        ? this.currentUserInfo.currentTeamId
+        : undefined;
+
+      if (!!userInfo.currentTeamId) {
+        currentTeamId = userInfo.currentTeamId;
+      }
+
+      this.currentUserInfo = { ...userInfo, currentTeamId };
+    }
+
+    return this.context.globalState.update(
+      this.getStateKey(stateKeys.USER_INFO),
+      this.currentUserInfo
+    );
+  };
+
+  updateCurrentWorkspace = (team: Team): Thenable<void> => {
+    const newCurrentUser: CurrentUser = {
+      ...this.currentUserInfo,
+      currentTeamId: team.id
+    };
+    return this.updateCurrentUser(newCurrentUser);
+  };
+
+  updateMessages = (channelId: string, newMessages: ChannelMessages) => {
+    newMessages = this.reconcileOutgoing(channelId, newMessages);
+
+    // Users have stopped typing when their message arrives
+    const typingIds = this.typing[channelId] || [];
+    Object.keys(newMessages)
+      .map(ts => newMessages[ts])
+      .filter(message => !!message && typingIds.indexOf(message.userId) >= 0)
+      .forEach(({ userId }) => this.updateTyping(channelId, userId, false));
+
+    const channelMessages = { ...this.messages[channelId], ...newMessages };
+    this.messages[channelId] = channelMessages;
+
+    // Updated parents keep the local echoes of their replies
+    this.outgoing
+      .filter(outgoing => outgoing.channelId === channelId)
+      .filter(outgoing => outgoing.parentTimestamp in newMessages)
+      .forEach(outgoing => this.addLocalEcho(outgoing));
+
+    // Remove undefined, after message deleted
+    Object.keys(this.messages[channelId]).forEach(key => {
+      if (typeof this.messages[channelId][key] === "undefined") {
+        delete this.messages[channelId][key];
+      }
+    });
+
+    // Check if we have all users. Since there is not bots.list API
+    // method, it is possible that a bot user is not in our store
+    const userIds = new Set(
+      (<any>Object)
+        .values(this.messages[channelId])
+        .map(message => message.userId)
+    );
+    const allIds = new Set(Object.keys(this.users));
+    if (!isSuperset(allIds, userIds)) {
+      this.fillUpUsers(difference(userIds, allIds));
+    }
+
+    this.cache.updateMessages(this.messages);
+    this.updateAllUI();
+  };
+
+  fillUpUsers(missingIds: Set<any>): Promise<void> {
+    // missingIds are user/bot ids that we don't have in the store. We will
+    // fetch their details, and then update the UI.
+    const usersCopy = { ...this.users };
+    let ids = Array.from(missingIds);
+
+    return Promise.all(
+      ids.map(userId => {
+        return this.chatProvider.fetchUserInfo(userId).then((user: User) => {
+          const { id } = user;
+          usersCopy[id] = user;
+        });
+      })
+    ).then(() => {
+      this.users = usersCopy;
+      this.cache.updateUsers(this.users);
+      return this.store.updateWebviewUI();
+    });
+  }
+
+  loadChannelHistory(channelId: string): Promise<void> {
+    return this.chatProvider
+      .loadChannelHistory(channelId)
+      .then(({ messages, hasMore }: ChannelHistory) => {
+        // If older pages were loaded before, we keep their state
+        if (!(channelId in this.hasMoreHistory)) {
+          this.hasMoreHistory[channelId] = hasMore;
+        }
+
+        this.updateMessages(channelId, messages);
+      })
+      .catch(error => console.error(error));
+  }
+
+  syncMessages(): Promise<void> {
+    // Channels with messages, like the ones from the disk cache, miss the
+    // messages that came in while we were offline. They are caught up one
+    // at a time, to stay within rate limits.
+    const channelIds = Object.keys(this.messages).filter(
+      channelId => !!this.getChannel(channelId)
+    );
+    return channelIds
+      .reduce(
+        (promise, channelId) =>
+          promise.then(() => this.syncChannelMessages(channelId)),
+        Promise.resolve()
+      )
+      .then(() => this.fetchChannelInfos(this.channels))
+      .catch(error => Logger.log(`Failed to sync messages: ${error}`));
+  }
+
+  syncChannelMessages(channelId: string): Promise<void> {
+    const messages = this.messages[channelId] || {};
+    const timestamps = Object.keys(messages)
+      .filter(ts => !!messages[ts] && !messages[ts].sendState)
+      .sort((a, b) => +a - +b);
+    // The last few messages are fetched again, so that their edits
+    // and deletions are merged. The message before them is the bound,
+    // since it is not included in the new messages.
+    const start = timestamps.length - SYNC_OVERLAP;
+
+    if (!timestamps.length) {
+      return Promise.resolve();
+    } else if (start <= 0 || !this.hasCapability("syncHistory")) {
+      return this.reloadChannelMessages(channelId, timestamps);
+    }
+
+    const after = timestamps[start - 1];
+    return this.chatProvider
+      .loadNewMessages(channelId, after)
+      .then(({ messages: newMessages, hasMore }: ChannelHistory) => {
+        if (hasMore) {
+          // Too many messages were missed, so the history starts over
+          // from the latest page, instead of having a gap
+          this.resetChannelMessages(channelId);
+          return this.loadChannelHistory(channelId);
+        }
+
+        timestamps
+          .filter(ts => +ts > +after && !(ts in newMessages))
+          .forEach(ts => (newMessages[ts] = undefined));
+        this.updateMessages(channelId, newMessages);
+      })
+      .catch(error => Logger.log(`Failed to sync ${channelId}: ${error}`));
+  }
+
+  reloadChannelMessages(
+    channelId: string,
+    timestamps: string[]
+  ): Promise<void> {
+    // Providers without syncHistory, and channels with only a few messages,
+    // load the latest page again. Missing messages in its range were deleted.
+    return this.chatProvider
+      .loadChannelHistory(channelId)
+      .then(({ messages: latestMessages, hasMore }: ChannelHistory) => {
+        const latest = Object.keys(latestMessages).map(ts => +ts);
+        const oldest = Math.min(...latest);
+        const newest = Math.max(...timestamps.map(ts => +ts));
+
+        if (!latest.length) {
+          return;
+        } else if (oldest > newest) {
+          // The page does not reach back to our messages, so the
+          // history starts over from it, instead of having a gap
+          this.resetChannelMessages(channelId);
+          this.hasMoreHistory[channelId] = hasMore;
+        }
+
+        timestamps
+          .filter(ts => +ts >= oldest && !(ts in latestMessages))
+          .forEach(ts => (latestMessages[ts] = undefined));
+        this.updateMessages(channelId, latestMessages);
+      })
+      .catch(error => Logger.log(`Failed to reload ${channelId}: ${error}`));
+  }
+
+  resetChannelMessages(channelId: string) {
+    this.messages[channelId] = {};
+    delete this.hasMoreHistory[channelId];
+    this.outgoing
+      .filter(outgoing => outgoing.channelId === channelId)
+      .forEach(outgoing => this.addLocalEcho(outgoing));
+  }
+
+  loadOlderHistory(channelId: string): Promise<void> {
+    const before = this.getFirstTimestamp(channelId);
+    const isLoading = this.loadingHistory.has(channelId);
+
+    if (!before || isLoading || !this.hasMoreHistory[channelId]) {
+      return Promise.resolve();
+    }
+
+    this.loadingHistory.add(channelId);
+    return this.chatProvider
+      .loadChannelHistory(channelId, before)
+      .then(({ messages, hasMore }: ChannelHistory) => {
+        this.hasMoreHistory[channelId] = hasMore;
+        this.updateMessages(channelId, messages);
+      })
+      .catch(error => Logger.log(`Failed to load older history: ${error}`))
+      .then(() => {
+        this.loadingHistory.delete(channelId);
+      });
+  }
+
+  loadSearchContext(channelId: string, message: Message): Promise<void> {
+    // Search results can be older than the loaded history, and are
+    // shown with the messages before them
+    const channelMessages = this.messages[channelId] || {};
+    const { timestamp } = message;
+
+    if (timestamp in channelMessages) {
+      return Promise.resolve();
+    }
+
+    this.updateMessages(channelId, { [timestamp]: message });
+    return this.chatProvider
+      .loadChannelHistory(channelId, timestamp)
+      .then(({ messages }: ChannelHistory) => {
+        this.updateMessages(channelId, messages);
+      })
+      .catch(error => Logger.log(`Failed to load search context: ${error}`));
+  }
+
+  searchMessages(query: string): Promise<SearchResult[]> {
+    const canSearch = this.hasCapability("search");
+    const providerResults: Promise<SearchResult[]> = canSearch
+      ? this.chatProvider.searchMessages(query).catch(error => {
+          Logger.log(`Failed to search messages: ${error}`);
+          return [];
+        })
+      : Promise.resolve([]);
+
+    return providerResults.then(results => {
+      // The local history has messages that the provider might not
+      // find, like the ones that were just sent
+      const getKey = ({ channelId, message }: SearchResult) =>
+        `${channelId}:${message.timestamp}`;
+      const keys = new Set(results.map(getKey));
+      const localResults = this.searchLocalMessages(query).filter(
+        result => !keys.has(getKey(result))
+      );
+      return [...results, ...localResults];
+    });
+  }
+
+  searchLocalMessages(query: string): SearchResult[] {
+    const lowerQuery = query.toLowerCase();
+    let results: SearchResult[] = [];
+
+    Object.keys(this.messages).forEach(channelId => {
+      const channelMessages = this.messages[channelId];
+      Object.keys(channelMessages)
+        .map(ts => channelMessages[ts])
+        .filter(message => !!message && !message.sendState && !!message.text)
+        .filter(message => message.text.toLowerCase().indexOf(lowerQuery) >= 0)
+        .forEach(message => results.push({ channelId, message }));
+    });
+
+    return results;
+  }
+
+  fetchCustomEmoji() {
+    return this.chatProvider
+      .fetchCustomEmoji()
+      .then(customEmoji => {
+        this.customEmoji = customEmoji;
+        this.store.updateWebviewUI();
+      })
+      .catch(error => Logger.log(`Failed to fetch custom emoji: ${error}`));
+  }
+
+  fetchCommands() {
+    if (!this.hasCapability("commands")) {
+      return Promise.resolve();
+    }
+
+    return this.chatProvider
+      .fetchCommands()
+      .then(commands => {
+        this.commands = commands;
+        this.store.updateWebviewUI();
+      })
+      .catch(error => Logger.log(`Failed to fetch commands: ${error}`));
+  }
+
+  sendCommand(channelId: string, command: string, text: string) {
+    return this.chatProvider.sendCommand(channelId, command, text);
+  }
+
+  updateUserPrefs() {
+    return this.chatProvider.getUserPrefs().then(response => {
+      // We could also save the muted channels to local storage
+      this.currentUserPrefs = response;
+      this.store.updateUnreadCount();
+    });
+  }
+
+  getFirstTimestamp(channelId: string): string {
+    const channelMessages =
+      channelId in this.messages ? this.messages[channelId] : {};
+    const timestamps = Object.keys(channelMessages).map(tsString => +tsString);
+
+    if (timestamps.length > 0) {
+      return Math.min(...timestamps).toString();
+    }
+  }
+
+  getThreadState(channelId: string, parentTimestamp: string): ThreadState {
+    return this.threadStates[`${channelId}:${parentTimestamp}`];
+  }
+
+  updateThreadState(state: ThreadState) {
+    const { channelId, parentTimestamp } = state;
+    const existing = this.getThreadState(channelId, parentTimestamp);
+    this.threadStates[`${channelId}:${parentTimestamp}`] = {
+      ...existing,
+      ...state
+    };
+    this.updateTreeViews();
+  }
+
+  getThreadReadTimestamp(channelId: string, message: Message): string {
+    // Without a read state from the provider, replies after our own
+    // last message in the thread are unread
+    const { id: currentUserId } = this.currentUserInfo;
+    const state = this.getThreadState(channelId, message.timestamp);
+
+    if (!!state && !!state.readTimestamp) {
+      return state.readTimestamp;
+    }
+
+    const ownTimestamps = Object.keys(message.replies)
+      .filter(ts => message.replies[ts].userId === currentUserId)
+      .map(ts => +ts);
+
+    if (message.userId === currentUserId) {
+      ownTimestamps.push(+message.timestamp);
+    }
+
+    return ownTimestamps.length > 0
+      ? Math.max(...ownTimestamps).toString()
+      : message.timestamp;
+  }
+
+  isFollowingThread(channelId: string, message: Message): boolean {
+    // We follow threads that we have started or replied to, unless
+    // the provider says otherwise
+    const { id: currentUserId } = this.currentUserInfo;
+    const state = this.getThreadState(channelId, message.timestamp);
+
+    if (!!state) {
+      return state.isFollowed;
+    }
+
+    const hasReplied = Object.keys(message.replies).some(
+      ts => message.replies[ts].userId === currentUserId
+    );
+    return message.userId === currentUserId || hasReplied;
+  }
+
+  getThreadUnreads(channelId: string, message: Message): number {
+    const { id: currentUserId } = this.currentUserInfo;
+    const readTimestamp = this.getThreadReadTimestamp(channelId, message);
+    return Object.keys(message.replies).filter(ts => {
+      const reply = message.replies[ts];
+      return reply.userId !== currentUserId && +ts > +readTimestamp;
+    }).length;
+  }
+
+  getThreadLabels(): ThreadLabel[] {
+    let labels: ThreadLabel[] = [];
+
+    Object.keys(this.messages).forEach(channelId => {
+      const channel = this.getChannel(channelId);
+      const channelMessages = this.messages[channelId];
+
+      if (!channel) {
+        return;
+      }
+
+      Object.keys(channelMessages)
+        .map(ts => channelMessages[ts])
+        .filter(message => Object.keys(message.replies).length > 0)
+        .filter(message => this.isFollowingThread(channelId, message))
+        .forEach(message => {
+          const unread = this.getThreadUnreads(channelId, message);
+          const firstLine = (message.text || "").split("\n")[0];
+          const text =
+            firstLine.length > THREAD_LABEL_LENGTH
+              ? `${firstLine.substr(0, THREAD_LABEL_LENGTH)}…`
+              : firstLine;
+          const hasDraft = !!this.getDraft(channelId, message.timestamp);
+          let label = `${channel.name}: ${text}`;
+
+          if (unread > 0) {
+            label = `${label} (${unread} new)`;
+          }
+
+          labels.push({
+            channel,
+            parentTimestamp: message.timestamp,
+            label: hasDraft ? `${label} (draft)` : label,
+            unread,
+            providerName: this.providerName
+          });
+        });
+    });
+
+    return labels;
+  }
+
+  markThreadRead(channelId: string, parentTimestamp: string) {
+    const message = this.getMessage(channelId, parentTimestamp);
+
+    if (!message || this.getThreadUnreads(channelId, message) === 0) {
+      return;
+    }
+
+    const timestamps = Object.keys(message.replies).map(ts => +ts);
+    const lastTs = Math.max(...timestamps).toString();
+    this.updateThreadState({
+      channelId,
+      parentTimestamp,
+      readTimestamp: lastTs,
+      isFollowed: this.isFollowingThread(channelId, message)
+    });
+    this.chatProvider
+      .markThread(channelId, parentTimestamp, lastTs)
+      .catch(error => Logger.log(`Failed to mark thread: ${error}`));
+  }
+
+  getDraft(channelId: string, parentTimestamp?: string): string {
+    return this.drafts[getDraftKey(channelId, parentTimestamp)] || "";
+  }
+
+  getDraftMentions(channelId: string, parentTimestamp?: string): Mention[] {
+    return this.draftMentions[getDraftKey(channelId, parentTimestamp)] || [];
+  }
+
+  updateDraft(
+    channelId: string,
+    parentTimestamp: string,
+    text: string,
+    mentions?: Mention[]
+  ) {
+    const key = getDraftKey(channelId, parentTimestamp);
+    const hadDraft = !!this.drafts[key];
+    const hadMentions = !!this.draftMentions[key];
+    let drafts = { ...this.drafts };
+    let draftMentions = { ...this.draftMentions };
+
+    if (!!text) {
+      drafts[key] = text;
+    } else {
+      delete drafts[key];
+    }
+
+    if (!!text && !!mentions && mentions.length > 0) {
+      draftMentions[key] = mentions;
+    } else {
+      delete draftMentions[key];
+    }
+
+    this.updateDrafts(drafts);
+
+    if (hadMentions || key in draftMentions) {
+      // Mentions are saved separately, to write them only when required
+      this.updateDraftMentions(draftMentions);
+    }
+
+    if (hadDraft !== !!text) {
+      this.updateTreeViews();
+    }
+  }
+
+  updateDrafts = (drafts): Thenable<void> => {
+    this.drafts = drafts;
+    const { globalState } = this.context;
+    return globalState.update(this.getStateKey(stateKeys.DRAFTS), this.drafts);
+  };
+
+  updateDraftMentions = (draftMentions): Thenable<void> => {
+    this.draftMentions = draftMentions;
+    const { globalState } = this.context;
+    return globalState.update(
+      this.getStateKey(stateKeys.DRAFT_MENTIONS),
+      this.draftMentions
+    );
+  };
+
+  getLastTimestamp(channelId: string): string {
+    const channelMessages =
+      channelId in this.messages ? this.messages[channelId] : {};
+    const timestamps = Object.keys(channelMessages).map(tsString => +tsString);
+
+    if (timestamps.length > 0) {
+      return Math.max(...timestamps).toString();
+    }
+  }
+
+  updateReadMarker(channelId: string): void {
+    const channel = this.getChannel(channelId);
+    const lastTs = this.getLastTimestamp(channelId);
+
+    if (channel && lastTs) {
+      const { readTimestamp } = channel;
+      const hasNewerMsgs = +readTimestamp < +lastTs;
+
+      if (!readTimestamp || hasNewerMsgs) {
+        const incremented = (+lastTs + 1).toString(); // Slack API workaround
+        this.chatProvider.markChannel(channel, incremented).then(channel => {
+          this.updateChannel(channel);
+          this.updateAllUI();
+        });
+      }
+    }
+  }
+
+  addReaction(
+    channelId: string,
+    msgTimestamp: string,
+    userId: string,
+    reactionName: string
+  ) {
+    if (channelId in this.messages) {
+      const channelMessages = this.messages[channelId];
+
+      if (msgTimestamp in channelMessages) {
+        const message = channelMessages[msgTimestamp];
+        let { reactions } = message;
+        const existing = reactions.find(r =>
+          isSameReaction(r.name, reactionName)
+        );
+
+        if (existing && existing.userIds.indexOf(userId) >= 0) {
+          // Our own reactions are added optimistically, and then
+          // echoed back by the realtime events of the provider
+          return;
+        }
+
+        if (existing) {
+          reactions = reactions.map(r => {
+            if (r === existing) {
+              return {
+                ...existing,
+                count: existing.count + 1,
+                userIds: [...existing.userIds, userId]
+              };
+            } else {
+              return { ...r };
+            }
+          });
+        } else {
+          reactions = [
+            ...reactions,
+            { name: reactionName, userIds: [userId], count: 1 }
+          ];
+        }
+
+        const newMessage = {
+          ...message,
+          reactions
+        };
+        const newMessages = {};
+        newMessages[msgTimestamp] = newMessage;
+        this.updateMessages(channelId, newMessages);
+      }
+    }
+  }
+
+  removeReaction(
+    channelId: string,
+    msgTimestamp: string,
+    userId: string,
+    reactionName: string
+  ) {
+    if (channelId in this.messages) {
+      const channelMessages = this.messages[channelId];
+
+      if (msgTimestamp in channelMessages) {
+        const message = channelMessages[msgTimestamp];
+        let { reactions } = message;
+        const existing = reactions.find(r =>
+          isSameReaction(r.name, reactionName)
+        );
+
+        if (!existing || existing.userIds.indexOf(userId) < 0) {
+          return;
+        }
+
+        reactions = reactions
+          .map(r => {
+            if (r === existing) {
+              return {
+                ...r,
+                count: r.count - 1,
+                userIds: r.userIds.filter(u => u !== userId)
+              };
+            } else {
+              return { ...r };
+            }
+          })
+          .filter(r => r.count > 0);
+
+        const newMessage = {
+          ...message,
+          reactions
+        };
+        const newMessages = {};
+        newMessages[msgTimestamp] = newMessage;
+        this.updateMessages(channelId, newMessages);
+      }
+    }
+  }
+
+  hasOwnReaction(channelId: string, ts: string, name: string): boolean {
+    const message = this.getMessage(channelId, ts);
+    const userId = this.currentUserInfo.id;
+    return (
+      !!message &&
+      message.reactions.some(
+        r => isSameReaction(r.name, name) && r.userIds.indexOf(userId) >= 0
+      )
+    );
+  }
+
+  addOwnReaction(channelId: string, ts: string, name: string): Promise<void> {
+    // Providers fail on duplicate reactions, which would revert the store
+    if (this.hasOwnReaction(channelId, ts, name)) {
+      return Promise.resolve();
+    }
+
+    const userId = this.currentUserInfo.id;
+    this.addReaction(channelId, ts, userId, name);
+
+    return this.chatProvider.addReaction(channelId, ts, name).catch(error => {
+      Logger.log(`Failed to add reaction: ${error}`);
+      this.removeReaction(channelId, ts, userId, name);
+    });
+  }
+
+  removeOwnReaction(
+    channelId: string,
+    ts: string,
+    name: string
+  ): Promise<void> {
+    if (!this.hasOwnReaction(channelId, ts, name)) {
+      return Promise.resolve();
+    }
+
+    const userId = this.currentUserInfo.id;
+    this.removeReaction(channelId, ts, userId, name);
+
+    return this.chatProvider
+      .removeReaction(channelId, ts, name)
+      .catch(error => {
+        Logger.log(`Failed to remove reaction: ${error}`);
+        this.addReaction(channelId, ts, userId, name);
+      });
+  }
+
+  getMessage(channelId: string, ts: string): Message | undefined {
+    const messages = channelId in this.messages ? this.messages[channelId] : {};
+    return messages[ts];
+  }
+
+  editMessage(channelId: string, ts: string, text: string): Promise<void> {
+    // The store is updated optimistically, and the realtime event
+    // from the provider reconciles it later
+    const message = this.getMessage(channelId, ts);
+
+    if (!message) {
+      return Promise.resolve();
+    }
+
+    let newMessages: ChannelMessages = {};
+    newMessages[ts] = { ...message, text, isEdited: true };
+    this.updateMessages(channelId, newMessages);
+
+    return this.chatProvider.editMessage(channelId, ts, text).catch(error => {
+      Logger.log(`Failed to edit message: ${error}`);
+      newMessages[ts] = message;
+      this.updateMessages(channelId, newMessages);
+    });
+  }
+
+  deleteMessage(channelId: string, ts: string): Promise<void> {
+    const message = this.getMessage(channelId, ts);
+
+    if (!message) {
+      return Promise.resolve();
+    }
+
+    let newMessages: ChannelMessages = {};
+    newMessages[ts] = undefined;
+    this.updateMessages(channelId, newMessages);
+
+    return this.chatProvider.deleteMessage(channelId, ts).catch(error => {
+      Logger.log(`Failed to delete message: ${error}`);
+      newMessages[ts] = message;
+      this.updateMessages(channelId, newMessages);
+    });
+  }
+
+  fetchThreadReplies(channelId: string, parentTimestamp: string) {
+    return this.chatProvider
+      .fetchThreadReplies(channelId, parentTimestamp)
+      .then(message => {
+        if (!!message) {
+          let messages = {};
+          messages[parentTimestamp] = message;
+          this.updateMessages(channelId, messages);
+        }
+      });
+  }
+
+  updateMessageReply(
+    parentTimestamp: string,
+    channelId: string,
+    reply: MessageReply
+  ) {
+    // We need to have the message in our store, else we
+    // ignore this reply
+    const messages = channelId in this.messages ? this.messages[channelId] : {};
+    const message =
+      parentTimestamp in messages ? messages[parentTimestamp] : undefined;
+
+    if (!!message) {
+      let newMessages = {};
+      const replyTs = reply.timestamp;
+      let replies: MessageReplies = { ...message.replies };
+      replies[replyTs] = { ...reply };
+      newMessages[parentTimestamp] = {
+        ...message,
+        replies
+      };
+      this.updateMessages(channelId, newMessages);
+    }
+  }
+
+  removeMessageReply(
+    parentTimestamp: string,
+    channelId: string,
+    timestamp: string
+  ) {
+    const messages = channelId in this.messages ? this.messages[channelId] : {};
+    const message = messages[parentTimestamp];
+
+    if (!!message && timestamp in message.replies) {
+      let replies: MessageReplies = { ...message.replies };
+      delete replies[timestamp];
+      this.updateMessages(channelId, {
+        [parentTimestamp]: { ...message, replies }
+      });
+    }
+  }
+
+  sendMessage(
+    channelId: string,
+    text: string,
+    parentTimestamp?: string,
+    broadcast?: boolean
+  ): Promise<void> {
+    // Messages are shown right away as "sending", and replaced by
+    // the message of the provider once it is sent
+    const outgoing: OutgoingMessage = {
+      clientMessageId: uuidv4(),
+      channelId,
+      text,
+      timestamp: (Date.now() / 1000).toFixed(6),
+      parentTimestamp,
+      broadcast,
+      sendState: MessageSendState.sending
+    };
+    this.outgoing = [...this.outgoing, outgoing];
+    this.addLocalEcho(outgoing);
+    this.updateAllUI();
+    return this.trySendMessage(outgoing);
+  }
+
+  trySendMessage(outgoing: OutgoingMessage): Promise<void> {
+    const { id: currentUserId } = this.currentUserInfo;
+    const { clientMessageId, channelId, text } = outgoing;
+    const { parentTimestamp, broadcast } = outgoing;
+
+    return Promise.resolve()
+      .then(() => {
+        return !!parentTimestamp
+          ? this.chatProvider.sendThreadReply(
+              text,
+              currentUserId,
+              channelId,
+              parentTimestamp,
+              broadcast,
+              clientMessageId
+            )
+          : this.chatProvider.sendMessage(
+              text,
+              currentUserId,
+              channelId,
+              clientMessageId
+            );
+      })
+      .then(timestamp => this.onMessageSent(clientMessageId, timestamp))
+      .catch(error => {
+        Logger.log(`Failed to send message: ${error}`);
+        this.updateSendState(clientMessageId, MessageSendState.failed);
+      });
+  }
+
+  onMessageSent(clientMessageId: string, timestamp: string | void) {
+    const outgoing = this.getOutgoing(clientMessageId);
+
+    if (!outgoing) {
+      // The provider has already echoed the message
+      return;
+    }
+
+    if (!timestamp) {
+      // The local echo stays till the provider echoes the message
+      return this.updateSendState(clientMessageId, MessageSendState.sent);
+    }
+
+    // The echo of the provider has the same timestamp, and replaces this
+    const { channelId, parentTimestamp } = outgoing;
+    const channelMessages = this.messages[channelId] || {};
+    const parent = channelMessages[parentTimestamp];
+    const isEchoed = !!parentTimestamp
+      ? !!parent && timestamp in parent.replies
+      : timestamp in channelMessages;
+    this.removeOutgoing(outgoing);
+
+    if (!isEchoed) {
+      this.addLocalEcho({ ...outgoing, timestamp, sendState: undefined });
+    }
+
+    this.updateAllUI();
+  }
+
+  retryMessage(clientMessageId: string): Promise<void> {
+    const outgoing = this.getOutgoing(clientMessageId);
+
+    if (!outgoing || outgoing.sendState !== MessageSendState.failed) {
+      return Promise.resolve();
+    }
+
+    this.updateSendState(clientMessageId, MessageSendState.sending);
+    return this.trySendMessage(outgoing);
+  }
+
+  retryFailedMessages(): Promise<void> {
+    const failed = this.outgoing.filter(
+      outgoing => outgoing.sendState === MessageSendState.failed
+    );
+    return Promise.all(
+      failed.map(outgoing => this.retryMessage(outgoing.clientMessageId))
+    ).then(() => {});
+  }
+
+  discardMessage(clientMessageId: string) {
+    const outgoing = this.getOutgoing(clientMessageId);
+
+    if (!!outgoing) {
+      this.removeOutgoing(outgoing);
+      this.updateAllUI();
+    }
+  }
+
+  getOutgoing(clientMessageId: string): OutgoingMessage | undefined {
+    return this.outgoing.find(
+      outgoing => outgoing.clientMessageId === clientMessageId
+    );
+  }
+
+  updateSendState(clientMessageId: string, sendState: MessageSendState) {
+    this.outgoing = this.outgoing.map(outgoing => {
+      if (outgoing.clientMessageId === clientMessageId) {
+        const updated = { ...outgoing, sendState };
+        this.addLocalEcho(updated);
+        return updated;
+      }
+
+      return outgoing;
+    });
+    this.updateAllUI();
+  }
+
+  addLocalEcho(outgoing: OutgoingMessage) {
+    // Adds the message to the store, without updating the UI
+    const { channelId, timestamp, parentTimestamp, text } = outgoing;
+    const { clientMessageId, sendState } = outgoing;
+    const { id: userId } = this.currentUserInfo;
+    const channelMessages = this.messages[channelId] || {};
+
+    if (!!parentTimestamp) {
+      const parent = channelMessages[parentTimestamp];
+
+      if (!!parent) {
+        const reply = { userId, timestamp, text, clientMessageId, sendState };
+        const replies = { ...parent.replies, [timestamp]: reply };
+        channelMessages[parentTimestamp] = { ...parent, replies };
+      }
+    } else {
+      channelMessages[timestamp] = {
+        userId,
+        timestamp,
+        text,
+        content: null,
+        reactions: [],
+        replies: {},
+        clientMessageId,
+        sendState
+      };
+    }
+
+    this.messages[channelId] = channelMessages;
+  }
+
+  removeOutgoing(outgoing: OutgoingMessage) {
+    // Removes the message from the queue, and its local echo
+    const { clientMessageId, channelId, timestamp, parentTimestamp } = outgoing;
+    const channelMessages = this.messages[channelId] || {};
+    this.outgoing = this.outgoing.filter(
+      item => item.clientMessageId !== clientMessageId
+    );
+
+    if (!!parentTimestamp && parentTimestamp in channelMessages) {
+      const parent = channelMessages[parentTimestamp];
+      const replies = { ...parent.replies };
+      delete replies[timestamp];
+      channelMessages[parentTimestamp] = { ...parent, replies };
+    } else if (!parentTimestamp) {
+      delete channelMessages[timestamp];
+    }
+  }
+
+  isEchoOf(message: Message | MessageReply, outgoing: OutgoingMessage) {
+    // Providers that do not echo our client message id are matched on text
+    const { id: currentUserId } = this.currentUserInfo;
+
+    if (!message || !!message.sendState || message.userId !== currentUserId) {
+      return false;
+    }
+
+    if (!!message.clientMessageId) {
+      return message.clientMessageId === outgoing.clientMessageId;
+    }
+
+    // Older messages with the same text, like from the history, are not echoes
+    const isRecent = +message.timestamp > +outgoing.timestamp - MAX_CLOCK_SKEW;
+    return isRecent && message.text === outgoing.text;
+  }
+
+  reconcileOutgoing(
+    channelId: string,
+    newMessages: ChannelMessages
+  ): ChannelMessages {
+    // Removes the local echoes of messages that the provider has echoed.
+    // Every message of the provider is the echo of one outgoing message
+    // at most, so that the same text sent twice is matched twice.
+    let result = { ...newMessages };
+    const knownMessages = this.messages[channelId] || {};
+    const matched = new Set<string>();
+
+    const findEcho = (
+      messages: ChannelMessages | MessageReplies,
+      knownTimestamps: string[],
+      outgoing: OutgoingMessage
+    ): string | undefined => {
+      // Known messages have been matched when they first arrived
+      const getKey = (ts: string) => `${outgoing.parentTimestamp}:${ts}`;
+      const echoTimestamp = Object.keys(messages)
+        .filter(ts => knownTimestamps.indexOf(ts) < 0)
+        .filter(ts => !matched.has(getKey(ts)))
+        .sort((a, b) => +a - +b)
+        .find(ts => this.isEchoOf(messages[ts], outgoing));
+
+      if (!!echoTimestamp) {
+        matched.add(getKey(echoTimestamp));
+      }
+
+      return echoTimestamp;
+    };
+
+    // The queue is in the order of sending, so older messages match first
+    this.outgoing
+      .filter(outgoing => outgoing.channelId === channelId)
+      .forEach(outgoing => {
+        const { parentTimestamp, timestamp } = outgoing;
+
+        if (!parentTimestamp) {
+          const knownTimestamps = Object.keys(knownMessages);
+          const isEchoed = !!findEcho(newMessages, knownTimestamps, outgoing);
+
+          if (isEchoed) {
+            this.removeOutgoing(outgoing);
+            delete result[timestamp];
+          }
+        } else if (!!result[parentTimestamp]) {
+          const parent = result[parentTimestamp];
+          const replies = { ...parent.replies };
+          const knownParent = knownMessages[parentTimestamp];
+          const knownTimestamps = !!knownParent
+            ? Object.keys(knownParent.replies || {})
+            : [];
+          const isEchoed = !!findEcho(replies, knownTimestamps, outgoing);
+
+          if (isEchoed) {
+            this.removeOutgoing(outgoing);
+            delete replies[timestamp];
+            result[parentTimestamp] = { ...parent, replies };
+          }
+        }
+      });
+
+    return result;
+  }
+
+  runAuthTest(): Promise<string> {
+    return this.chatProvider.getAuthTest();
+  }
+}
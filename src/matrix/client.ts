@@ -0,0 +1,433 @@
+import ConfigHelper from "../config";
+import { User, ChannelMessages, Message, MessageReply } from "../interfaces";
+const rp = require("request-promise-native");
+
+const HISTORY_LIMIT = 50;
+
+export const EventTypes = {
+  MESSAGE: "m.room.message",
+  REACTION: "m.reaction",
+  REDACTION: "m.room.redaction",
+  MEMBER: "m.room.member",
+  NAME: "m.room.name",
+  CANONICAL_ALIAS: "m.room.canonical_alias",
+  JOIN_RULES: "m.room.join_rules",
+  DIRECT: "m.direct",
+  FULLY_READ: "m.fully_read",
+  PRESENCE: "m.presence"
+};
+
+export const RelationTypes = {
+  THREAD: "m.thread",
+  REPLACE: "m.replace",
+  ANNOTATION: "m.annotation"
+};
+
+export const getTimestamp = (millis: number): string => {
+  // Matrix uses epoch milliseconds, the extension uses
+  // Slack-style epoch seconds
+  return (millis / 1000).toString();
+};
+
+export const getRelation = (event: any) => {
+  const { content } = event;
+  return !!content ? content["m.relates_to"] : undefined;
+};
+
+export const getLocalpart = (userId: string): string => {
+  // Matrix user ids look like @localpart:homeserver
+  const matched = userId.match(/^@([^:]+):/);
+  return matched ? matched[1] : userId;
+};
+
+export const isRedacted = (event: any): boolean => {
+  const { unsigned } = event;
+  return !!unsigned && !!unsigned.redacted_because;
+};
+
+export const isThreadReply = (event: any): boolean => {
+  const relation = getRelation(event);
+  return !!relation && relation.rel_type === RelationTypes.THREAD;
+};
+
+export default class MatrixAPIClient {
+  // Matrix identifies events by id, while the extension uses
+  // timestamps. We keep track of both to map threads, edits,
+  // reactions and read markers.
+  private events: {
+    [eventId: string]: {
+      roomId: string;
+      timestamp: string;
+      threadRootId?: string;
+    };
+  } = {};
+
+  // Reactions are removed by redacting the reaction event
+  private reactions: {
+    [eventId: string]: {
+      roomId: string;
+      msgTimestamp: string;
+      userId: string;
+      reactionName: string;
+    };
+  } = {};
+
+  constructor(private homeserverUrl: string, private token: string) {}
+
+  request = (
+    method: string,
+    uri: string,
+    body?: any,
+    timeout?: number
+  ): Promise<any> => {
+    let options: any = {
+      baseUrl: `${this.homeserverUrl}/_matrix/client/`,
+      uri,
+      method,
+      body,
+      json: true,
+      timeout,
+      headers: {
+        Authorization: `Bearer ${this.token}`
+      }
+    };
+    const customAgent = ConfigHelper.getCustomAgent();
+
+    if (!!customAgent) {
+      options.agent = customAgent;
+    }
+
+    return rp(options);
+  };
+
+  getHomeserverName = (): string => {
+    return this.homeserverUrl.replace(/^https?:\/\//, "");
+  };
+
+  rememberEvent = (roomId: string, event: any): string => {
+    const { event_id, origin_server_ts } = event;
+    const timestamp = getTimestamp(origin_server_ts);
+    const threadRootId = isThreadReply(event)
+      ? getRelation(event).event_id
+      : undefined;
+    this.events[event_id] = { roomId, timestamp, threadRootId };
+    return timestamp;
+  };
+
+  rememberReaction = (roomId: string, event: any) => {
+    const { event_id: targetId, key } = getRelation(event);
+    this.reactions[event.event_id] = {
+      roomId,
+      msgTimestamp: this.getEventTimestamp(targetId),
+      userId: event.sender,
+      reactionName: key
+    };
+    return this.reactions[event.event_id];
+  };
+
+  getReaction = (eventId: string) => {
+    return this.reactions[eventId];
+  };
+
+  getEventTimestamp = (eventId: string): string => {
+    return eventId in this.events ? this.events[eventId].timestamp : undefined;
+  };
+
+  getThreadRootTimestamp = (eventId: string): string => {
+    // For thread replies, returns the timestamp of the thread root
+    const event = this.events[eventId];
+    return !!event && !!event.threadRootId
+      ? this.getEventTimestamp(event.threadRootId)
+      : undefined;
+  };
+
+  getEventId = (roomId: string, timestamp: string): string => {
+    return Object.keys(this.events).find(eventId => {
+      const event = this.events[eventId];
+      return event.roomId === roomId && event.timestamp === timestamp;
+    });
+  };
+
+  getLatestEventId = (roomId: string, timestamp: string): string => {
+    // Returns the newest known event in the room, up to the timestamp
+    let latest: string = undefined;
+    Object.keys(this.events).forEach(eventId => {
+      const event = this.events[eventId];
+      const isCandidate =
+        event.roomId === roomId && +event.timestamp <= +timestamp;
+
+      if (
+        isCandidate &&
+        (!latest || +event.timestamp > +this.events[latest].timestamp)
+      ) {
+        latest = eventId;
+      }
+    });
+    return latest;
+  };
+
+  getMediaUrl = (mxcUrl: string, size: number): string => {
+    // mxc://server/mediaId to a http thumbnail url
+    const matched = !!mxcUrl ? mxcUrl.match(/^mxc:\/\/([^/]+)\/(.+)$/) : null;
+
+    if (matched) {
+      const [, serverName, mediaId] = matched;
+      return `${
+        this.homeserverUrl
+      }/_matrix/media/r0/thumbnail/${serverName}/${mediaId}?width=${size}&height=${size}&method=crop`;
+    }
+  };
+
+  getDownloadUrl = (mxcUrl: string): string => {
+    const matched = !!mxcUrl ? mxcUrl.match(/^mxc:\/\/([^/]+)\/(.+)$/) : null;
+
+    if (matched) {
+      const [, serverName, mediaId] = matched;
+      return `${
+        this.homeserverUrl
+      }/_matrix/media/r0/download/${serverName}/${mediaId}`;
+    }
+  };
+
+  getUser = (userId: string, content: any): User => {
+    const { displayname, avatar_url } = content || ({} as any);
+    const name = !!displayname ? displayname : getLocalpart(userId);
+    return {
+      id: userId,
+      name,
+      fullName: name,
+      imageUrl: this.getMediaUrl(avatar_url, 96),
+      smallImageUrl: this.getMediaUrl(avatar_url, 32),
+      isOnline: undefined
+    };
+  };
+
+  getMessage = (roomId: string, event: any): Message => {
+    const { sender, content } = event;
+    const { msgtype, body, url } = content;
+    const timestamp = this.rememberEvent(roomId, event);
+    const isFile = ["m.file", "m.image", "m.video", "m.audio"].indexOf(msgtype);
+
+    return {
+      timestamp,
+      userId: sender,
+      text: body,
+      isEdited: false,
+      attachment:
+        isFile >= 0 && !!url
+          ? { name: body, permalink: this.getDownloadUrl(url) }
+          : null,
+      content: null,
+      reactions: [],
+      replies: {}
+    };
+  };
+
+  getMessageReply = (roomId: string, event: any): MessageReply => {
+    const { userId, timestamp, text, attachment } = this.getMessage(
+      roomId,
+      event
+    );
+    return { userId, timestamp, text, attachment };
+  };
+
+  getChannelMessages = (roomId: string, events: any[]): ChannelMessages => {
+    // Events are expected in chronological order. Edits, reactions and
+    // thread replies are applied to their target messages, if the target
+    // is available in the list.
+    let result: ChannelMessages = {};
+    const messages = events.filter(
+      event => event.type === EventTypes.MESSAGE && !isRedacted(event)
+    );
+    const reactions = events.filter(
+      event => event.type === EventTypes.REACTION && !isRedacted(event)
+    );
+
+    messages.forEach(event => {
+      const relation = getRelation(event);
+      const relType = !!relation ? relation.rel_type : undefined;
+
+      if (relType === RelationTypes.REPLACE) {
+        const targetTs = this.getEventTimestamp(relation.event_id);
+        const newContent = event.content["m.new_content"];
+
+        if (!!targetTs && targetTs in result && !!newContent) {
+          result[targetTs] = {
+            ...result[targetTs],
+            text: newContent.body,
+            isEdited: true
+          };
+        }
+      } else if (relType === RelationTypes.THREAD) {
+        const parentTs = this.getEventTimestamp(relation.event_id);
+
+        if (!!parentTs && parentTs in result) {
+          const reply = this.getMessageReply(roomId, event);
+          result[parentTs].replies[reply.timestamp] = reply;
+        }
+      } else {
+        const message = this.getMessage(roomId, event);
+        result[message.timestamp] = message;
+      }
+    });
+
+    reactions.forEach(event => {
+      const { event_id: targetId, key } = getRelation(event);
+      const targetTs = this.getEventTimestamp(targetId);
+      this.rememberReaction(roomId, event);
+
+      if (!!targetTs && targetTs in result) {
+        const message = result[targetTs];
+        const existing = message.reactions.find(r => r.name === key);
+        const others = message.reactions.filter(r => r.name !== key);
+        const reaction = !!existing
+          ? {
+              ...existing,
+              count: existing.count + 1,
+              userIds: [...existing.userIds, event.sender]
+            }
+          : { name: key, count: 1, userIds: [event.sender] };
+        result[targetTs] = { ...message, reactions: [...others, reaction] };
+      }
+    });
+
+    return result;
+  };
+
+  getAuthTest = (): Promise<string> => {
+    // Used for diagnostic logging
+    return this.request("GET", "r0/account/whoami")
+      .then(() => "account/whoami successful")
+      .catch(error => `error: ${error.toString()}`);
+  };
+
+  whoami = (): Promise<string> => {
+    return this.request("GET", "r0/account/whoami").then(
+      response => response.user_id
+    );
+  };
+
+  getProfile = (userId: string): Promise<User> => {
+    const uri = `r0/profile/${encodeURIComponent(userId)}`;
+    return this.request("GET", uri).then(profile =>
+      this.getUser(userId, profile)
+    );
+  };
+
+  sync = (since: string, filter: any, timeout: number): Promise<any> => {
+    const params = [
+      `filter=${encodeURIComponent(JSON.stringify(filter))}`,
+      `timeout=${timeout}`
+    ];
+
+    if (!!since) {
+      params.push(`since=${since}`);
+    }
+
+    // The request timeout needs to be longer than the long-polling timeout
+    return this.request(
+      "GET",
+      `r0/sync?${params.join("&")}`,
+      undefined,
+      timeout + 30 * 1000
+    );
+  };
+
+  getRoomMessages = (
+    roomId: string,
+    from: string
+  ): Promise<ChannelMessages> => {
+    const params = [`dir=b`, `limit=${HISTORY_LIMIT}`];
+
+    if (!!from) {
+      params.push(`from=${from}`);
+    }
+
+    const uri = `r0/rooms/${encodeURIComponent(roomId)}/messages?${params.join(
+      "&"
+    )}`;
+    return this.request("GET", uri).then(response => {
+      // Events are in reverse-chronological order for dir=b
+      const events = [...response.chunk].reverse();
+      return this.getChannelMessages(roomId, events);
+    });
+  };
+
+  getThread = (roomId: string, timestamp: string): Promise<Message> => {
+    const eventId = this.getEventId(roomId, timestamp);
+    const room = encodeURIComponent(roomId);
+    const event = encodeURIComponent(eventId);
+    const root = this.request("GET", `r0/rooms/${room}/event/${event}`);
+    const relations = this.request(
+      "GET",
+      `v1/rooms/${room}/relations/${event}/${RelationTypes.THREAD}?limit=100`
+    );
+    return Promise.all([root, relations]).then(([root, relations]) => {
+      const events = [root, ...[...relations.chunk].reverse()];
+      const messages = this.getChannelMessages(roomId, events);
+      return messages[timestamp];
+    });
+  };
+
+  sendMessage = (
+    roomId: string,
+    text: string,
+    parentTimestamp: string
+  ): Promise<any> => {
+    const txnId = `vscode${new Date().valueOf()}`;
+    const uri = `r0/rooms/${encodeURIComponent(roomId)}/send/${
+      EventTypes.MESSAGE
+    }/${txnId}`;
+    let content: any = { msgtype: "m.text", body: text };
+
+    if (!!parentTimestamp) {
+      const parentId = this.getEventId(roomId, parentTimestamp);
+      content["m.relates_to"] = {
+        rel_type: RelationTypes.THREAD,
+        event_id: parentId,
+        is_falling_back: true,
+        "m.in_reply_to": { event_id: parentId }
+      };
+    }
+
+    return this.request("PUT", uri, content);
+  };
+
+  getMutedRooms = (): Promise<string[]> => {
+    // Rooms are muted with a room-specific push rule that does not notify
+    return this.request("GET", "r0/pushrules/").then(response => {
+      const roomRules: any[] = response.global.room || [];
+      return roomRules
+        .filter(
+          rule => rule.enabled && rule.actions.indexOf("dont_notify") >= 0
+        )
+        .map(rule => rule.rule_id);
+    });
+  };
+
+  setReadMarker = (roomId: string, eventId: string): Promise<any> => {
+    const uri = `r0/rooms/${encodeURIComponent(roomId)}/read_markers`;
+    return this.request("POST", uri, {
+      "m.fully_read": eventId,
+      "m.read": eventId
+    });
+  };
+
+  createDirectRoom = (userId: string): Promise<string> => {
+    return this.request("POST", "r0/createRoom", {
+      is_direct: true,
+      invite: [userId],
+      preset: "trusted_private_chat"
+    }).then(response => response.room_id);
+  };
+
+  setDirectRooms = (
+    currentUserId: string,
+    directRooms: { [userId: string]: string[] }
+  ): Promise<any> => {
+    const uri = `r0/user/${encodeURIComponent(currentUserId)}/account_data/${
+      EventTypes.DIRECT
+    }`;
+    return this.request("PUT", uri, directRooms);
+  };
+}
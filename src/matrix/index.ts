@@ -0,0 +1,264 @@
+import ConfigHelper from "../config";
+import MatrixAPIClient from "./client";
+import MatrixMessenger, { RoomState } from "./messenger";
+import {
+  IChatProvider,
+  User,
+  Channel,
+  ChannelType,
+  Users,
+  Message,
+  ChannelMessages,
+  UserPreferences,
+  CurrentUser,
+  ChatProviderCapabilities,
+  CustomEmoji,
+  ChannelHistory,
+  SearchResult
+} from "../interfaces";
+
+export class MatrixChatProvider implements IChatProvider {
+  capabilities: ChatProviderCapabilities = {
+    threads: true,
+    threadBroadcast: false,
+    reactions: false,
+    editMessage: false,
+    deleteMessage: false,
+    fileUpload: false,
+    presence: true,
+    historicalUnreads: true,
+    createIMChannel: true,
+    search: false,
+    typing: false,
+    commands: false,
+    syncHistory: false
+  };
+
+  private token: string;
+  private currentUserId: string;
+  private client: MatrixAPIClient;
+  private messenger: MatrixMessenger;
+
+  async getToken(): Promise<string> {
+    // Matrix can be self-hosted, so we need the homeserver url, in
+    // addition to the access token
+    const homeserverUrl = ConfigHelper.getServerUrl("matrix");
+    this.token = await ConfigHelper.getToken("matrix");
+
+    if (!!homeserverUrl && !!this.token) {
+      this.client = new MatrixAPIClient(homeserverUrl, this.token);
+      return this.token;
+    }
+  }
+
+  getAuthTest(): Promise<string> {
+    if (!!this.client) {
+      return this.client.getAuthTest();
+    }
+  }
+
+  async connect(): Promise<CurrentUser> {
+    this.currentUserId = await this.client.whoami();
+    const profile = await this.client.getProfile(this.currentUserId);
+    this.messenger = new MatrixMessenger(this.currentUserId, this.client);
+    await this.messenger.start();
+
+    // Matrix does not have a concept of workspaces, so the
+    // homeserver is the only team
+    const homeserver = this.client.getHomeserverName();
+    return {
+      id: this.currentUserId,
+      name: profile.name,
+      token: this.token,
+      teams: [{ id: homeserver, name: homeserver }],
+      currentTeamId: homeserver,
+      provider: "matrix"
+    };
+  }
+
+  isConnected(): boolean {
+    return !!this.messenger && this.messenger.isConnected();
+  }
+
+  subscribePresence(users: Users) {
+    // Presence updates are a part of the sync response
+  }
+
+  getChannel(room: RoomState): Channel {
+    const { id, name, alias, isPublic, unreadCount } = room;
+    const otherMembers = this.messenger.getOtherMembers(room);
+    const memberNames = otherMembers.map(user => user.name).join(", ");
+    const readTimestamp = this.messenger.getReadTimestamp(room);
+
+    if (this.messenger.isDirectRoom(id)) {
+      return {
+        id,
+        name: otherMembers.length > 0 ? otherMembers[0].name : name,
+        type: ChannelType.im,
+        readTimestamp,
+        unreadCount
+      };
+    }
+
+    return {
+      id,
+      name: name || alias || memberNames || id,
+      type: isPublic ? ChannelType.channel : ChannelType.group,
+      readTimestamp,
+      unreadCount
+    };
+  }
+
+  async createIMChannel(user: User): Promise<Channel> {
+    const roomId = await this.client.createDirectRoom(user.id);
+    const { directRooms } = this.messenger;
+    const existing = user.id in directRooms ? directRooms[user.id] : [];
+    directRooms[user.id] = [...existing, roomId];
+    await this.client.setDirectRooms(this.currentUserId, directRooms);
+    return {
+      id: roomId,
+      name: user.name,
+      type: ChannelType.im,
+      readTimestamp: undefined,
+      unreadCount: 0
+    };
+  }
+
+  fetchUsers(): Promise<Users> {
+    // Matrix has no user directory listing, so we use the
+    // members of the joined rooms
+    return Promise.resolve(this.messenger.getUsers());
+  }
+
+  fetchUserInfo(userId: string): Promise<User> {
+    return this.client.getProfile(userId);
+  }
+
+  fetchChannels(users: Users): Promise<Channel[]> {
+    const { rooms } = this.messenger;
+    const channels = Object.keys(rooms).map(roomId =>
+      this.getChannel(rooms[roomId])
+    );
+    return Promise.resolve(channels);
+  }
+
+  fetchChannelInfo(channel: Channel): Promise<Channel> {
+    // Unread counts are kept up-to-date by the sync loop
+    const room = this.messenger.rooms[channel.id];
+    return Promise.resolve(!!room ? this.getChannel(room) : channel);
+  }
+
+  loadChannelHistory(channelId: string): Promise<ChannelHistory> {
+    // Older pages are not supported yet
+    return this.client
+      .getRoomMessages(channelId, undefined)
+      .then(messages => ({ messages, hasMore: false }));
+  }
+
+  loadNewMessages(channelId: string, after: string): Promise<ChannelHistory> {
+    // Catching up is not supported yet, see capabilities
+    return Promise.resolve({ messages: {}, hasMore: false });
+  }
+
+  getUserPrefs(): Promise<UserPreferences> {
+    return this.client.getMutedRooms().then(mutedChannels => ({
+      mutedChannels
+    }));
+  }
+
+  markChannel(channel: Channel, timestamp: string): Promise<Channel> {
+    const { id: roomId } = channel;
+    const eventId = this.client.getLatestEventId(roomId, timestamp);
+
+    if (!eventId) {
+      return Promise.resolve(channel);
+    }
+
+    return this.client.setReadMarker(roomId, eventId).then(() => ({
+      ...channel,
+      readTimestamp: timestamp,
+      unreadCount: 0
+    }));
+  }
+
+  fetchThreadReplies(channelId: string, timestamp: string): Promise<Message> {
+    return this.client.getThread(channelId, timestamp);
+  }
+
+  sendMessage(
+    text: string,
+    currentUserId: string,
+    channelId: string
+  ): Promise<void> {
+    // The new message is received in the sync response, so we
+    // don't need to update the store here
+    return this.client.sendMessage(channelId, text, undefined);
+  }
+
+  sendThreadReply(
+    text: string,
+    currentUserId: string,
+    channelId: string,
+    parentTimestamp: string
+  ): Promise<void> {
+    return this.client.sendMessage(channelId, text, parentTimestamp);
+  }
+
+  editMessage(channelId: string, ts: string, text: string): Promise<void> {
+    // Edits are not supported yet, see capabilities
+    return Promise.resolve();
+  }
+
+  deleteMessage(channelId: string, ts: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  markThread(
+    channelId: string,
+    parentTimestamp: string,
+    ts: string
+  ): Promise<void> {
+    // Read state of threads is only kept locally
+    return Promise.resolve();
+  }
+
+  addReaction(channelId: string, ts: string, name: string): Promise<void> {
+    // Reacting is not supported yet, see capabilities
+    return Promise.resolve();
+  }
+
+  removeReaction(channelId: string, ts: string, name: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  fetchCustomEmoji(): Promise<CustomEmoji> {
+    return Promise.resolve({});
+  }
+
+  sendTyping(channelId: string): Promise<void> {
+    // Typing notifications are not supported yet, see capabilities
+    return Promise.resolve();
+  }
+
+  searchMessages(query: string): Promise<SearchResult[]> {
+    // Search is not supported yet, see capabilities
+    return Promise.resolve([]);
+  }
+
+  fetchCommands(): Promise<string[]> {
+    // Slash commands are not supported yet, see capabilities
+    return Promise.resolve([]);
+  }
+
+  sendCommand(channelId: string, command: string, text: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  destroy(): Promise<void> {
+    if (!!this.messenger) {
+      this.messenger.disconnect();
+    }
+
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,381 @@
+import * as vscode from "vscode";
+import MatrixAPIClient, {
+  EventTypes,
+  RelationTypes,
+  getRelation,
+  isRedacted
+} from "./client";
+import { ChannelMessages, User, Users } from "../interfaces";
+import { SelfCommands } from "../constants";
+import Logger from "../logger";
+
+const SYNC_TIMEOUT = 30 * 1000; // long-polling timeout, in ms
+const RETRY_TIMEOUT = 10 * 1000; // wait after a failed sync, in ms
+
+// The initial sync is only used for room state, and so we
+// limit the timeline to the latest event (for read markers)
+const INITIAL_FILTER = { room: { timeline: { limit: 1 } } };
+const SYNC_FILTER = { room: { timeline: { limit: 50 } } };
+
+export interface RoomState {
+  id: string;
+  name: string;
+  alias: string;
+  isPublic: boolean;
+  members: Users;
+  fullyReadEventId: string;
+  unreadCount: number;
+  prevBatch: string;
+}
+
+class MatrixMessenger {
+  rooms: { [roomId: string]: RoomState } = {};
+  directRooms: { [userId: string]: string[] } = {};
+  presence: { [userId: string]: boolean } = {};
+  private since: string;
+  private isRunning: boolean = false;
+  private isSyncing: boolean = false;
+
+  constructor(private currentUserId: string, private client: MatrixAPIClient) {}
+
+  start = (): Promise<void> => {
+    return this.client.sync(undefined, INITIAL_FILTER, 0).then(response => {
+      this.handleSync(response, false);
+      this.isRunning = true;
+      this.isSyncing = true;
+      this.syncLoop();
+    });
+  };
+
+  syncLoop = async () => {
+    while (this.isRunning) {
+      try {
+        const response = await this.client.sync(
+          this.since,
+          SYNC_FILTER,
+          SYNC_TIMEOUT
+        );
+
+        if (this.isRunning) {
+          if (!this.isSyncing) {
+            // Back after failed syncs, so the missed messages are fetched
+            vscode.commands.executeCommand(SelfCommands.CONNECTED, {
+              provider: "matrix"
+            });
+          }
+
+          this.isSyncing = true;
+          this.handleSync(response, true);
+        }
+      } catch (error) {
+        Logger.log(`[ERROR] Matrix sync: ${error.message}`);
+
+        if (this.isRunning && this.isSyncing) {
+          vscode.commands.executeCommand(SelfCommands.DISCONNECTED, {
+            provider: "matrix"
+          });
+        }
+
+        this.isSyncing = false;
+        await new Promise(resolve => setTimeout(resolve, RETRY_TIMEOUT));
+      }
+    }
+  };
+
+  handleSync = (response: any, shouldEmit: boolean) => {
+    const { next_batch, rooms, presence, account_data } = response;
+    this.since = next_batch;
+
+    if (!!account_data) {
+      account_data.events
+        .filter(event => event.type === EventTypes.DIRECT)
+        .forEach(event => (this.directRooms = event.content));
+    }
+
+    if (!!presence) {
+      presence.events
+        .filter(event => event.type === EventTypes.PRESENCE)
+        .forEach(event => this.handlePresence(event, shouldEmit));
+    }
+
+    if (!!rooms && !!rooms.join) {
+      Object.keys(rooms.join).forEach(roomId => {
+        this.handleJoinedRoom(roomId, rooms.join[roomId], shouldEmit);
+      });
+    }
+
+    if (!!rooms && !!rooms.leave) {
+      Object.keys(rooms.leave).forEach(roomId => delete this.rooms[roomId]);
+    }
+  };
+
+  handlePresence = (event: any, shouldEmit: boolean) => {
+    const { sender, content } = event;
+    const isOnline = content.presence === "online";
+    this.presence[sender] = isOnline;
+
+    if (shouldEmit) {
+      vscode.commands.executeCommand(SelfCommands.UPDATE_USER_PRESENCE, {
+        provider: "matrix",
+        userId: sender,
+        isOnline
+      });
+    }
+  };
+
+  getRoom = (roomId: string): RoomState => {
+    if (!(roomId in this.rooms)) {
+      this.rooms[roomId] = {
+        id: roomId,
+        name: undefined,
+        alias: undefined,
+        isPublic: false,
+        members: {},
+        fullyReadEventId: undefined,
+        unreadCount: 0,
+        prevBatch: undefined
+      };
+    }
+
+    return this.rooms[roomId];
+  };
+
+  handleStateEvent = (room: RoomState, event: any) => {
+    const { type, content, state_key } = event;
+
+    switch (type) {
+      case EventTypes.NAME:
+        room.name = content.name;
+        break;
+      case EventTypes.CANONICAL_ALIAS:
+        room.alias = content.alias;
+        break;
+      case EventTypes.JOIN_RULES:
+        room.isPublic = content.join_rule === "public";
+        break;
+      case EventTypes.MEMBER:
+        if (content.membership === "join") {
+          room.members[state_key] = this.client.getUser(state_key, content);
+        } else {
+          delete room.members[state_key];
+        }
+        break;
+    }
+  };
+
+  handleJoinedRoom = (roomId: string, joined: any, shouldEmit: boolean) => {
+    const room = this.getRoom(roomId);
+    const { state, timeline, account_data, unread_notifications } = joined;
+    const timelineEvents = !!timeline ? timeline.events : [];
+
+    if (!!state) {
+      state.events.forEach(event => this.handleStateEvent(room, event));
+    }
+
+    if (!!timeline && !room.prevBatch) {
+      room.prevBatch = timeline.prev_batch;
+    }
+
+    timelineEvents.forEach(event => {
+      if (event.state_key !== undefined) {
+        this.handleStateEvent(room, event);
+      }
+
+      if (shouldEmit) {
+        this.handleTimelineEvent(roomId, event);
+      } else {
+        this.client.rememberEvent(roomId, event);
+      }
+    });
+
+    if (!!unread_notifications) {
+      room.unreadCount = unread_notifications.notification_count || 0;
+    }
+
+    if (!!account_data) {
+      account_data.events
+        .filter(event => event.type === EventTypes.FULLY_READ)
+        .forEach(event => {
+          room.fullyReadEventId = event.content.event_id;
+
+          if (shouldEmit) {
+            // The read marker was updated, possibly from another client
+            vscode.commands.executeCommand(SelfCommands.CHANNEL_MARKED, {
+              provider: "matrix",
+              channelId: roomId,
+              readTimestamp: this.getReadTimestamp(room),
+              unreadCount: room.unreadCount
+            });
+          }
+        });
+    }
+  };
+
+  handleTimelineEvent = (roomId: string, event: any) => {
+    const { type } = event;
+
+    switch (type) {
+      case EventTypes.MESSAGE:
+        return isRedacted(event) ? null : this.handleMessage(roomId, event);
+
+      case EventTypes.REACTION:
+        const reaction = this.client.rememberReaction(roomId, event);
+        return vscode.commands.executeCommand(
+          SelfCommands.ADD_MESSAGE_REACTION,
+          { provider: "matrix", ...reaction, channelId: roomId }
+        );
+
+      case EventTypes.REDACTION:
+        return this.handleRedaction(roomId, event);
+
+      default:
+        this.client.rememberEvent(roomId, event);
+    }
+  };
+
+  handleMessage = (roomId: string, event: any) => {
+    const relation = getRelation(event);
+    const relType = !!relation ? relation.rel_type : undefined;
+    let newMessages: ChannelMessages = {};
+
+    switch (relType) {
+      case RelationTypes.REPLACE:
+        // Edits are sent as new events, that replace the original event
+        const targetTs = this.client.getEventTimestamp(relation.event_id);
+        const newContent = event.content["m.new_content"];
+        const threadRootTs = this.client.getThreadRootTimestamp(
+          relation.event_id
+        );
+        const edited = { ...event, content: newContent };
+
+        if (!targetTs || !newContent) {
+          break;
+        }
+
+        if (!!threadRootTs) {
+          vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGE_REPLIES, {
+            provider: "matrix",
+            parentTimestamp: threadRootTs,
+            channelId: roomId,
+            reply: {
+              ...this.client.getMessageReply(roomId, edited),
+              timestamp: targetTs
+            }
+          });
+        } else {
+          newMessages[targetTs] = {
+            ...this.client.getMessage(roomId, edited),
+            timestamp: targetTs,
+            isEdited: true
+          };
+        }
+        break;
+
+      case RelationTypes.THREAD:
+        const parentTimestamp = this.client.getEventTimestamp(
+          relation.event_id
+        );
+
+        if (!!parentTimestamp) {
+          vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGE_REPLIES, {
+            provider: "matrix",
+            parentTimestamp,
+            channelId: roomId,
+            reply: this.client.getMessageReply(roomId, event)
+          });
+        }
+        break;
+
+      default:
+        const message = this.client.getMessage(roomId, event);
+        newMessages[message.timestamp] = message;
+        this.handleMessageLinks(message.text, message.userId);
+    }
+
+    vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGES, {
+      provider: "matrix",
+      channelId: roomId,
+      messages: newMessages
+    });
+  };
+
+  handleRedaction = (roomId: string, event: any) => {
+    const { redacts } = event;
+    const reaction = this.client.getReaction(redacts);
+
+    if (!!reaction) {
+      return vscode.commands.executeCommand(
+        SelfCommands.REMOVE_MESSAGE_REACTION,
+        { provider: "matrix", ...reaction, channelId: roomId }
+      );
+    }
+
+    const timestamp = this.client.getEventTimestamp(redacts);
+
+    if (!!timestamp) {
+      let newMessages: ChannelMessages = {};
+      newMessages[timestamp] = undefined;
+      return vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGES, {
+        provider: "matrix",
+        channelId: roomId,
+        messages: newMessages
+      });
+    }
+  };
+
+  handleMessageLinks = (text: string, userId: string) => {
+    // For vsls invitations
+    try {
+      if (!!text && text.startsWith("http")) {
+        vscode.commands.executeCommand(SelfCommands.HANDLE_INCOMING_LINKS, {
+          provider: "matrix",
+          senderId: userId,
+          uri: vscode.Uri.parse(text)
+        });
+      }
+    } catch (err) {}
+  };
+
+  getReadTimestamp = (room: RoomState): string => {
+    const { fullyReadEventId } = room;
+    return !!fullyReadEventId
+      ? this.client.getEventTimestamp(fullyReadEventId)
+      : undefined;
+  };
+
+  isDirectRoom = (roomId: string): boolean => {
+    return Object.keys(this.directRooms).some(
+      userId => this.directRooms[userId].indexOf(roomId) >= 0
+    );
+  };
+
+  getOtherMembers = (room: RoomState): User[] => {
+    return Object.keys(room.members)
+      .filter(userId => userId !== this.currentUserId)
+      .map(userId => room.members[userId]);
+  };
+
+  getUsers = (): Users => {
+    let users: Users = {};
+    Object.keys(this.rooms).forEach(roomId => {
+      const { members } = this.rooms[roomId];
+      Object.keys(members).forEach(userId => {
+        users[userId] = {
+          ...members[userId],
+          isOnline: !!this.presence[userId]
+        };
+      });
+    });
+    return users;
+  };
+
+  isConnected(): boolean {
+    return this.isRunning && this.isSyncing;
+  }
+
+  disconnect() {
+    this.isRunning = false;
+  }
+}
+
+export default MatrixMessenger;
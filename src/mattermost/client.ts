@@ -0,0 +1,346 @@
+import ConfigHelper from "../config";
+import {
+  Users,
+  User,
+  Channel,
+  ChannelType,
+  ChannelMessages,
+  Message,
+  MessageContent,
+  MessageReply,
+  Team,
+  UserPreferences
+} from "../interfaces";
+const rp = require("request-promise-native");
+
+const HISTORY_LIMIT = 50;
+const USERS_PAGE_SIZE = 200;
+
+export const getTimestamp = (millis: number): string => {
+  // Mattermost uses epoch milliseconds, the extension uses
+  // Slack-style epoch seconds
+  return (millis / 1000).toString();
+};
+
+const getContent = (attachment): MessageContent => {
+  // Message attachments follow the Slack attachment format
+  return {
+    author: attachment.author_name,
+    authorIcon: attachment.author_icon,
+    pretext: attachment.pretext,
+    title: attachment.title,
+    titleLink: attachment.title_link,
+    text: attachment.text,
+    footer: attachment.footer,
+    borderColor: !!attachment.color
+      ? attachment.color.replace(/^#/, "")
+      : undefined
+  };
+};
+
+export const getReactions = (rawReactions: any[]) => {
+  // Mattermost has one reaction object for every user and emoji pair
+  let reactions = {};
+  rawReactions.forEach(({ user_id, emoji_name }) => {
+    const name = `:${emoji_name}:`;
+    const existing = reactions[name] || { name, count: 0, userIds: [] };
+    reactions[name] = {
+      ...existing,
+      count: existing.count + 1,
+      userIds: [...existing.userIds, user_id]
+    };
+  });
+  return Object.keys(reactions).map(name => reactions[name]);
+};
+
+export default class MattermostAPIClient {
+  // Mattermost identifies posts by id, while the extension uses
+  // timestamps. We keep track of both to map threads and reactions.
+  private postTimestamps: { [postId: string]: string } = {};
+
+  constructor(private serverUrl: string, private token: string) {}
+
+  request = (method: string, uri: string, body?: any): Promise<any> => {
+    let options: any = {
+      baseUrl: `${this.serverUrl}/api/v4/`,
+      uri,
+      method,
+      body,
+      json: true,
+      headers: {
+        Authorization: `Bearer ${this.token}`
+      }
+    };
+    const customAgent = ConfigHelper.getCustomAgent();
+
+    if (!!customAgent) {
+      options.agent = customAgent;
+    }
+
+    return rp(options);
+  };
+
+  getSocketUrl = (): string => {
+    const socketBase = this.serverUrl.replace(/^http/, "ws");
+    return `${socketBase}/api/v4/websocket`;
+  };
+
+  getPostTimestamp = (postId: string): string => {
+    return this.postTimestamps[postId];
+  };
+
+  getPostId = (timestamp: string): string => {
+    return Object.keys(this.postTimestamps).find(
+      postId => this.postTimestamps[postId] === timestamp
+    );
+  };
+
+  getFileLink = (fileId: string): string => {
+    return `${this.serverUrl}/api/v4/files/${fileId}?download=1`;
+  };
+
+  getUser = (raw: any): User => {
+    const { id, username, first_name, last_name, is_bot } = raw;
+    const fullName = [first_name, last_name].filter(name => !!name).join(" ");
+    // The image API requires authentication, which cannot be sent
+    // as a header from the webview. The token is kept out of urls,
+    // since they are saved with the users, so no avatar is shown.
+    return {
+      id,
+      name: username,
+      fullName: !!fullName ? fullName : username,
+      imageUrl: undefined,
+      smallImageUrl: undefined,
+      isOnline: undefined,
+      isBot: !!is_bot
+    };
+  };
+
+  getMessage = (post: any): Message => {
+    const { id, create_at, user_id, message, edit_at, props, metadata } = post;
+    const timestamp = getTimestamp(create_at);
+    const attachments = !!props ? props.attachments : undefined;
+    const files = !!metadata ? metadata.files : undefined;
+    const reactions = !!metadata ? metadata.reactions : undefined;
+    this.postTimestamps[id] = timestamp;
+
+    return {
+      timestamp,
+      userId: user_id,
+      text: message,
+      isEdited: !!edit_at,
+      attachment:
+        !!files && files.length > 0
+          ? { name: files[0].name, permalink: this.getFileLink(files[0].id) }
+          : null,
+      content:
+        !!attachments && attachments.length > 0
+          ? getContent(attachments[0])
+          : null,
+      reactions: !!reactions ? getReactions(reactions) : [],
+      replies: {}
+    };
+  };
+
+  getMessageReply = (post: any): MessageReply => {
+    const { userId, timestamp, text, attachment } = this.getMessage(post);
+    return { userId, timestamp, text, attachment };
+  };
+
+  getChannelMessages = (postList: any): ChannelMessages => {
+    // Posts with a root_id are thread replies, and we attach them to
+    // their root post (if it is available in the list)
+    const { order, posts } = postList;
+    let result: ChannelMessages = {};
+    const rootIds = order.filter(postId => !posts[postId].root_id);
+    const replyIds = order.filter(postId => !!posts[postId].root_id);
+
+    rootIds.forEach(postId => {
+      const message = this.getMessage(posts[postId]);
+      result[message.timestamp] = message;
+    });
+
+    replyIds.forEach(postId => {
+      const post = posts[postId];
+      const parentTimestamp = this.getPostTimestamp(post.root_id);
+
+      if (!!parentTimestamp && parentTimestamp in result) {
+        const reply = this.getMessageReply(post);
+        result[parentTimestamp].replies[reply.timestamp] = reply;
+      }
+    });
+
+    return result;
+  };
+
+  getAuthTest = (): Promise<string> => {
+    // Used for diagnostic logging
+    return this.request("GET", "users/me")
+      .then(() => "users/me successful")
+      .catch(error => `error: ${error.toString()}`);
+  };
+
+  getMe = (): Promise<any> => {
+    return this.request("GET", "users/me");
+  };
+
+  getTeams = (): Promise<Team[]> => {
+    return this.request("GET", "users/me/teams").then((teams: any[]) =>
+      teams.map(team => ({ id: team.id, name: team.display_name }))
+    );
+  };
+
+  getUsers = (teamId: string): Promise<Users> => {
+    let users: Users = {};
+    const fetchPage = (page: number): Promise<Users> => {
+      const query = `in_team=${teamId}&page=${page}&per_page=${USERS_PAGE_SIZE}`;
+      return this.request("GET", `users?${query}`).then((members: any[]) => {
+        members.forEach(member => {
+          const user = this.getUser(member);
+          users[user.id] = user;
+        });
+
+        return members.length < USERS_PAGE_SIZE ? users : fetchPage(page + 1);
+      });
+    };
+
+    return fetchPage(0);
+  };
+
+  getUserInfo = (userId: string): Promise<User> => {
+    return this.request("GET", `users/${userId}`).then(this.getUser);
+  };
+
+  getUserStatuses = (userIds: string[]): Promise<any[]> => {
+    return this.request("POST", "users/status/ids", userIds);
+  };
+
+  getChannel = (raw: any, currentUserId: string, users: Users): Channel => {
+    const { id, type, name, display_name } = raw;
+
+    switch (type) {
+      case "D":
+        // Direct message channels are named "userId1__userId2"
+        const otherId =
+          name.split("__").find(userId => userId !== currentUserId) ||
+          currentUserId;
+        return {
+          id,
+          name: otherId in users ? users[otherId].name : otherId,
+          type: ChannelType.im,
+          readTimestamp: undefined,
+          unreadCount: 0
+        };
+      case "G":
+      case "P":
+        // Group messages and private channels
+        return {
+          id,
+          name: display_name,
+          type: ChannelType.group,
+          readTimestamp: undefined,
+          unreadCount: 0
+        };
+      default:
+        return {
+          id,
+          name: display_name,
+          type: ChannelType.channel,
+          readTimestamp: undefined,
+          unreadCount: 0
+        };
+    }
+  };
+
+  getChannels = (
+    teamId: string,
+    currentUserId: string,
+    users: Users
+  ): Promise<Channel[]> => {
+    return this.request("GET", `users/me/teams/${teamId}/channels`).then(
+      (channels: any[]) =>
+        channels
+          .filter(channel => !channel.delete_at)
+          .map(channel => this.getChannel(channel, currentUserId, users))
+    );
+  };
+
+  getChannelInfo = (originalChannel: Channel): Promise<Channel> => {
+    const { id } = originalChannel;
+    const channel = this.request("GET", `channels/${id}`);
+    const member = this.request("GET", `channels/${id}/members/me`);
+    return Promise.all([channel, member]).then(([channel, member]) => {
+      const { total_msg_count } = channel;
+      const { msg_count, last_viewed_at } = member;
+      return {
+        ...originalChannel,
+        readTimestamp: getTimestamp(last_viewed_at),
+        unreadCount: Math.max(total_msg_count - msg_count, 0)
+      };
+    });
+  };
+
+  getUserPrefs = (teamId: string): Promise<UserPreferences> => {
+    // Muted channels only notify on mentions
+    return this.request(
+      "GET",
+      `users/me/teams/${teamId}/channels/members`
+    ).then((members: any[]) => {
+      const mutedChannels = members
+        .filter(member => {
+          const { notify_props } = member;
+          return !!notify_props && notify_props.mark_unread === "mention";
+        })
+        .map(member => member.channel_id);
+      return { mutedChannels };
+    });
+  };
+
+  getConversationHistory = (channelId: string): Promise<ChannelMessages> => {
+    const uri = `channels/${channelId}/posts?per_page=${HISTORY_LIMIT}`;
+    return this.request("GET", uri).then(this.getChannelMessages);
+  };
+
+  getReplies = (
+    channelId: string,
+    messageTimestamp: string
+  ): Promise<Message> => {
+    const postId = this.getPostId(messageTimestamp);
+    return this.request("GET", `posts/${postId}/thread`).then(postList => {
+      const messages = this.getChannelMessages(postList);
+      return messages[messageTimestamp];
+    });
+  };
+
+  sendMessage = (
+    channelId: string,
+    text: string,
+    parentTimestamp: string
+  ): Promise<any> => {
+    const rootId = !!parentTimestamp ? this.getPostId(parentTimestamp) : "";
+    return this.request("POST", "posts", {
+      channel_id: channelId,
+      message: text,
+      root_id: rootId
+    });
+  };
+
+  markChannel = (channelId: string): Promise<any> => {
+    return this.request("POST", "channels/members/me/view", {
+      channel_id: channelId
+    });
+  };
+
+  openIMChannel = (currentUserId: string, user: User): Promise<Channel> => {
+    const { id, name } = user;
+    return this.request("POST", "channels/direct", [currentUserId, id]).then(
+      channel => ({
+        id: channel.id,
+        name,
+        type: ChannelType.im,
+        readTimestamp: undefined,
+        unreadCount: 0
+      })
+    );
+  };
+}
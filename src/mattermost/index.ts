@@ -0,0 +1,238 @@
+import * as vscode from "vscode";
+import ConfigHelper from "../config";
+import MattermostAPIClient from "./client";
+import MattermostMessenger from "./messenger";
+import {
+  IManager,
+  IChatProvider,
+  User,
+  Channel,
+  Users,
+  Message,
+  ChannelMessages,
+  UserPreferences,
+  CurrentUser,
+  ChatProviderCapabilities,
+  CustomEmoji,
+  ChannelHistory,
+  SearchResult
+} from "../interfaces";
+import { SelfCommands } from "../constants";
+
+export class MattermostChatProvider implements IChatProvider {
+  capabilities: ChatProviderCapabilities = {
+    threads: true,
+    threadBroadcast: false,
+    reactions: false,
+    editMessage: false,
+    deleteMessage: false,
+    fileUpload: false,
+    presence: true,
+    historicalUnreads: true,
+    createIMChannel: true,
+    search: false,
+    typing: false,
+    commands: false,
+    syncHistory: false
+  };
+
+  private token: string;
+  private client: MattermostAPIClient;
+  private messenger: MattermostMessenger;
+
+  constructor(private manager: IManager) {}
+
+  async getToken(): Promise<string> {
+    // Mattermost is self-hosted, so we also need the server url. The token
+    // is a personal access token, created from the account settings.
+    const serverUrl = ConfigHelper.getServerUrl("mattermost");
+    this.token = await ConfigHelper.getToken("mattermost");
+
+    if (!!serverUrl && !!this.token) {
+      this.client = new MattermostAPIClient(serverUrl, this.token);
+      return this.token;
+    }
+  }
+
+  getAuthTest(): Promise<string> {
+    if (!!this.client) {
+      return this.client.getAuthTest();
+    }
+  }
+
+  async connect(): Promise<CurrentUser> {
+    const me = await this.client.getMe();
+    const teams = await this.client.getTeams();
+    this.messenger = new MattermostMessenger(this.token, this.client);
+    await this.messenger.start();
+
+    return {
+      id: me.id,
+      name: me.username,
+      token: this.token,
+      teams,
+      // If the user is in only one team, we don't need to ask
+      currentTeamId: teams.length === 1 ? teams[0].id : undefined,
+      provider: "mattermost"
+    };
+  }
+
+  isConnected(): boolean {
+    return !!this.messenger && this.messenger.isConnected();
+  }
+
+  getCurrentTeamId(): string {
+    return this.manager.currentUserInfo.currentTeamId;
+  }
+
+  subscribePresence(users: Users) {
+    // Initial statuses are fetched from the API, and the websocket
+    // sends status_change events after that
+    const userIds = Object.keys(users);
+
+    if (userIds.length > 0) {
+      this.client.getUserStatuses(userIds).then(statuses => {
+        statuses.forEach(({ user_id, status }) => {
+          vscode.commands.executeCommand(SelfCommands.UPDATE_USER_PRESENCE, {
+            provider: "mattermost",
+            userId: user_id,
+            isOnline: status === "online" || status === "away"
+          });
+        });
+      });
+    }
+  }
+
+  createIMChannel(user: User): Promise<Channel> {
+    const { id: currentUserId } = this.manager.currentUserInfo;
+    return this.client.openIMChannel(currentUserId, user);
+  }
+
+  fetchUsers(): Promise<Users> {
+    return this.client.getUsers(this.getCurrentTeamId());
+  }
+
+  fetchUserInfo(userId: string): Promise<User> {
+    return this.client.getUserInfo(userId);
+  }
+
+  fetchChannels(users: Users): Promise<Channel[]> {
+    // users argument is required to name IM channels
+    const { id: currentUserId } = this.manager.currentUserInfo;
+    return this.client.getChannels(
+      this.getCurrentTeamId(),
+      currentUserId,
+      users
+    );
+  }
+
+  fetchChannelInfo(channel: Channel): Promise<Channel> {
+    return this.client.getChannelInfo(channel);
+  }
+
+  loadChannelHistory(channelId: string): Promise<ChannelHistory> {
+    // Older pages are not supported yet
+    return this.client
+      .getConversationHistory(channelId)
+      .then(messages => ({ messages, hasMore: false }));
+  }
+
+  loadNewMessages(channelId: string, after: string): Promise<ChannelHistory> {
+    // Catching up is not supported yet, see capabilities
+    return Promise.resolve({ messages: {}, hasMore: false });
+  }
+
+  getUserPrefs(): Promise<UserPreferences> {
+    return this.client.getUserPrefs(this.getCurrentTeamId());
+  }
+
+  markChannel(channel: Channel, timestamp: string): Promise<Channel> {
+    // Mattermost marks the complete channel as viewed
+    return this.client.markChannel(channel.id).then(() => ({
+      ...channel,
+      readTimestamp: timestamp,
+      unreadCount: 0
+    }));
+  }
+
+  fetchThreadReplies(channelId: string, timestamp: string): Promise<Message> {
+    return this.client.getReplies(channelId, timestamp);
+  }
+
+  sendMessage(
+    text: string,
+    currentUserId: string,
+    channelId: string
+  ): Promise<void> {
+    // The new post is received on the websocket, so we don't
+    // need to update the store here
+    return this.client.sendMessage(channelId, text, undefined);
+  }
+
+  sendThreadReply(
+    text: string,
+    currentUserId: string,
+    channelId: string,
+    parentTimestamp: string
+  ): Promise<void> {
+    return this.client.sendMessage(channelId, text, parentTimestamp);
+  }
+
+  editMessage(channelId: string, ts: string, text: string): Promise<void> {
+    // Edits are not supported yet, see capabilities
+    return Promise.resolve();
+  }
+
+  deleteMessage(channelId: string, ts: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  markThread(
+    channelId: string,
+    parentTimestamp: string,
+    ts: string
+  ): Promise<void> {
+    // Read state of threads is only kept locally
+    return Promise.resolve();
+  }
+
+  addReaction(channelId: string, ts: string, name: string): Promise<void> {
+    // Reacting is not supported yet, see capabilities
+    return Promise.resolve();
+  }
+
+  removeReaction(channelId: string, ts: string, name: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  fetchCustomEmoji(): Promise<CustomEmoji> {
+    return Promise.resolve({});
+  }
+
+  sendTyping(channelId: string): Promise<void> {
+    // Typing notifications are not supported yet, see capabilities
+    return Promise.resolve();
+  }
+
+  searchMessages(query: string): Promise<SearchResult[]> {
+    // Search is not supported yet, see capabilities
+    return Promise.resolve([]);
+  }
+
+  fetchCommands(): Promise<string[]> {
+    // Slash commands are not supported yet, see capabilities
+    return Promise.resolve([]);
+  }
+
+  sendCommand(channelId: string, command: string, text: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  destroy(): Promise<void> {
+    if (!!this.messenger) {
+      this.messenger.disconnect();
+    }
+
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,182 @@
+import * as vscode from "vscode";
+import * as WebSocket from "ws";
+import ConfigHelper from "../config";
+import MattermostAPIClient, { getTimestamp } from "./client";
+import { ChannelMessages } from "../interfaces";
+import { SelfCommands } from "../constants";
+import Logger from "../logger";
+
+const SocketEvents = {
+  POSTED: "posted",
+  POST_EDITED: "post_edited",
+  POST_DELETED: "post_deleted",
+  REACTION_ADDED: "reaction_added",
+  REACTION_REMOVED: "reaction_removed",
+  STATUS_CHANGE: "status_change",
+  CHANNEL_VIEWED: "channel_viewed"
+};
+
+class MattermostMessenger {
+  socket: WebSocket;
+  seq: number = 1;
+  isDisconnecting: boolean = false;
+
+  constructor(private token: string, private client: MattermostAPIClient) {}
+
+  start = (): Promise<void> => {
+    let options: WebSocket.ClientOptions = {};
+    const customAgent = ConfigHelper.getCustomAgent();
+
+    if (!!customAgent) {
+      options.agent = customAgent;
+    }
+
+    this.socket = new WebSocket(this.client.getSocketUrl(), options);
+
+    return new Promise((resolve, reject) => {
+      this.socket.once("open", () => {
+        this.send("authentication_challenge", { token: this.token });
+        vscode.commands.executeCommand(SelfCommands.CONNECTED, {
+          provider: "mattermost"
+        });
+        resolve();
+      });
+
+      this.socket.on("error", error => {
+        Logger.log(`[ERROR] Mattermost: ${error.message}`);
+        reject(error);
+      });
+
+      this.socket.on("message", (data: string) => {
+        try {
+          this.handleEvent(JSON.parse(data));
+        } catch (error) {
+          Logger.log(`[ERROR] Mattermost: ${error.message}`);
+        }
+      });
+
+      this.socket.on("close", (code: number) => {
+        Logger.log(`Mattermost websocket closed: ${code}`);
+
+        // Disconnects that we asked for are not reconnected
+        if (!this.isDisconnecting) {
+          vscode.commands.executeCommand(SelfCommands.DISCONNECTED, {
+            provider: "mattermost"
+          });
+        }
+      });
+    });
+  };
+
+  send = (action: string, data: any) => {
+    this.socket.send(JSON.stringify({ seq: this.seq++, action, data }));
+  };
+
+  handleEvent = (payload: any) => {
+    const { event, data, broadcast } = payload;
+
+    switch (event) {
+      case SocketEvents.POSTED:
+      case SocketEvents.POST_EDITED:
+        return this.handlePost(JSON.parse(data.post));
+
+      case SocketEvents.POST_DELETED:
+        const deleted = JSON.parse(data.post);
+        let newMessages: ChannelMessages = {};
+        newMessages[getTimestamp(deleted.create_at)] = undefined;
+        return vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGES, {
+          provider: "mattermost",
+          channelId: deleted.channel_id,
+          messages: newMessages
+        });
+
+      case SocketEvents.REACTION_ADDED:
+      case SocketEvents.REACTION_REMOVED:
+        const { user_id, post_id, emoji_name } = JSON.parse(data.reaction);
+        const command =
+          event === SocketEvents.REACTION_ADDED
+            ? SelfCommands.ADD_MESSAGE_REACTION
+            : SelfCommands.REMOVE_MESSAGE_REACTION;
+        return vscode.commands.executeCommand(command, {
+          provider: "mattermost",
+          userId: user_id,
+          channelId: broadcast.channel_id,
+          msgTimestamp: this.client.getPostTimestamp(post_id),
+          reactionName: `:${emoji_name}:`
+        });
+
+      case SocketEvents.STATUS_CHANGE:
+        return vscode.commands.executeCommand(
+          SelfCommands.UPDATE_USER_PRESENCE,
+          {
+            provider: "mattermost",
+            userId: data.user_id,
+            isOnline: data.status === "online" || data.status === "away"
+          }
+        );
+
+      case SocketEvents.CHANNEL_VIEWED:
+        // The current user has viewed the channel on another client
+        return vscode.commands.executeCommand(SelfCommands.CHANNEL_MARKED, {
+          provider: "mattermost",
+          channelId: data.channel_id,
+          readTimestamp: getTimestamp(new Date().valueOf()),
+          unreadCount: 0
+        });
+    }
+  };
+
+  handlePost = (post: any) => {
+    const { root_id, channel_id } = post;
+
+    if (!!root_id) {
+      // This is a thread reply
+      const parentTimestamp = this.client.getPostTimestamp(root_id);
+
+      if (!!parentTimestamp) {
+        vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGE_REPLIES, {
+          provider: "mattermost",
+          parentTimestamp,
+          channelId: channel_id,
+          reply: this.client.getMessageReply(post)
+        });
+      }
+    } else {
+      const message = this.client.getMessage(post);
+      let newMessages: ChannelMessages = {};
+      newMessages[message.timestamp] = message;
+      vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGES, {
+        provider: "mattermost",
+        channelId: channel_id,
+        messages: newMessages
+      });
+      this.handleMessageLinks(message.text, message.userId);
+    }
+  };
+
+  handleMessageLinks = (text: string, userId: string) => {
+    // For vsls invitations
+    try {
+      if (!!text && text.startsWith("http")) {
+        vscode.commands.executeCommand(SelfCommands.HANDLE_INCOMING_LINKS, {
+          provider: "mattermost",
+          senderId: userId,
+          uri: vscode.Uri.parse(text)
+        });
+      }
+    } catch (err) {}
+  };
+
+  isConnected(): boolean {
+    return !!this.socket && this.socket.readyState === WebSocket.OPEN;
+  }
+
+  disconnect() {
+    if (!!this.socket) {
+      this.isDisconnecting = true;
+      this.socket.close();
+    }
+  }
+}
+
+export default MattermostMessenger;
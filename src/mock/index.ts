@@ -0,0 +1,385 @@
+import * as path from "path";
+import ConfigHelper from "../config";
+import Logger from "../logger";
+import { getExtension } from "../utils";
+import { EXTENSION_ID } from "../constants";
+import MockMessenger, { readFixture } from "./messenger";
+import {
+  MOCK_TEAM,
+  MOCK_CURRENT_USER_ID,
+  getUsers,
+  getChannels,
+  getHistory
+} from "./workspace";
+import {
+  IManager,
+  IChatProvider,
+  User,
+  Channel,
+  ChannelType,
+  Users,
+  Message,
+  ChannelMessages,
+  UserPreferences,
+  CurrentUser,
+  ChatProviderCapabilities,
+  CustomEmoji,
+  ChannelHistory,
+  SearchResult
+} from "../interfaces";
+
+const HISTORY_LIMIT = 50;
+
+export interface MockCall {
+  method: string;
+  args: any[];
+}
+
+export const getFixturePath = (): string => {
+  // The setting overrides the fixture that is bundled with the extension
+  const fixturePath = ConfigHelper.getMockFixturePath();
+
+  if (!!fixturePath) {
+    return fixturePath;
+  }
+
+  const extension = getExtension(EXTENSION_ID);
+  return !!extension
+    ? path.join(extension.extensionPath, "public", "mock", "fixture.json")
+    : undefined;
+};
+
+export class MockChatProvider implements IChatProvider {
+  capabilities: ChatProviderCapabilities = {
+    threads: true,
+    threadBroadcast: true,
+    reactions: true,
+    editMessage: true,
+    deleteMessage: true,
+    fileUpload: false,
+    presence: true,
+    historicalUnreads: true,
+    createIMChannel: true,
+    search: false,
+    typing: true,
+    commands: true,
+    syncHistory: true
+  };
+
+  // Outgoing calls are recorded, so that they can be inspected
+  calls: MockCall[] = [];
+  // Smaller pages can be used to try out loading older history
+  historyLimit: number = HISTORY_LIMIT;
+  private token: string;
+  private users: Users;
+  private channels: Channel[];
+  private history: { [channelId: string]: ChannelMessages };
+  private messenger: MockMessenger;
+
+  constructor(private manager: IManager) {
+    const now = new Date().valueOf() / 1000;
+    this.users = getUsers();
+    this.channels = getChannels(now);
+    this.history = getHistory(now);
+  }
+
+  async getToken(): Promise<string> {
+    // The token is a placeholder, since there is no server
+    this.token = await ConfigHelper.getToken("mock");
+    return this.token;
+  }
+
+  getAuthTest(): Promise<string> {
+    return Promise.resolve("mock");
+  }
+
+  async connect(): Promise<CurrentUser> {
+    this.messenger = new MockMessenger(this.users, this.channels, this.history);
+    const fixturePath = getFixturePath();
+    let events = [];
+
+    if (!!fixturePath) {
+      try {
+        events = await readFixture(fixturePath);
+      } catch (error) {
+        // The workspace is still usable without scripted events
+        Logger.log(`[ERROR] Mock fixture ${fixturePath}: ${error.message}`);
+      }
+    }
+
+    this.messenger.start(events);
+
+    const { id, name } = this.users[MOCK_CURRENT_USER_ID];
+    return {
+      id,
+      name,
+      token: this.token,
+      teams: [{ ...MOCK_TEAM }],
+      currentTeamId: MOCK_TEAM.id,
+      provider: "mock"
+    };
+  }
+
+  isConnected(): boolean {
+    return !!this.messenger && this.messenger.isConnected();
+  }
+
+  recordCall(method: string, args: any[]) {
+    Logger.log(`Mock ${method}: ${JSON.stringify(args)}`);
+    this.calls.push({ method, args });
+  }
+
+  subscribePresence(users: Users) {
+    // Presence changes come from the fixture
+  }
+
+  createIMChannel(user: User): Promise<Channel> {
+    const existing = this.channels.find(
+      channel => channel.type === ChannelType.im && channel.name === user.name
+    );
+
+    if (!!existing) {
+      return Promise.resolve(existing);
+    }
+
+    const channel: Channel = {
+      id: `D-${user.id}`,
+      name: user.name,
+      type: ChannelType.im,
+      readTimestamp: undefined,
+      unreadCount: 0
+    };
+    this.channels.push(channel);
+    this.history[channel.id] = {};
+    return Promise.resolve(channel);
+  }
+
+  fetchUsers(): Promise<Users> {
+    return Promise.resolve({ ...this.users });
+  }
+
+  fetchUserInfo(userId: string): Promise<User> {
+    return Promise.resolve(this.users[userId]);
+  }
+
+  fetchChannels(users: Users): Promise<Channel[]> {
+    return Promise.resolve(this.channels.map(channel => ({ ...channel })));
+  }
+
+  fetchChannelInfo(channel: Channel): Promise<Channel> {
+    const existing = this.channels.find(({ id }) => id === channel.id);
+    return Promise.resolve({ ...existing });
+  }
+
+  loadChannelHistory(
+    channelId: string,
+    before?: string
+  ): Promise<ChannelHistory> {
+    const history = this.history[channelId] || {};
+    const timestamps = Object.keys(history)
+      .filter(ts => !before || +ts < +before)
+      .sort((a, b) => +a - +b);
+    const page = timestamps.slice(-this.historyLimit);
+    let messages: ChannelMessages = {};
+    page.forEach(ts => (messages[ts] = history[ts]));
+    return Promise.resolve({
+      messages,
+      hasMore: timestamps.length > page.length
+    });
+  }
+
+  loadNewMessages(channelId: string, after: string): Promise<ChannelHistory> {
+    const history = this.history[channelId] || {};
+    const timestamps = Object.keys(history)
+      .filter(ts => +ts > +after)
+      .sort((a, b) => +a - +b);
+    const page = timestamps.slice(-this.historyLimit);
+    let messages: ChannelMessages = {};
+    page.forEach(ts => (messages[ts] = history[ts]));
+    return Promise.resolve({
+      messages,
+      hasMore: timestamps.length > page.length
+    });
+  }
+
+  getUserPrefs(): Promise<UserPreferences> {
+    return Promise.resolve({});
+  }
+
+  markChannel(channel: Channel, timestamp: string): Promise<Channel> {
+    this.recordCall("markChannel", [channel.id, timestamp]);
+    const existing = this.channels.find(({ id }) => id === channel.id);
+
+    if (!!existing) {
+      existing.readTimestamp = timestamp;
+      existing.unreadCount = 0;
+    }
+
+    return Promise.resolve({
+      ...channel,
+      readTimestamp: timestamp,
+      unreadCount: 0
+    });
+  }
+
+  fetchThreadReplies(channelId: string, timestamp: string): Promise<Message> {
+    const history = this.history[channelId] || {};
+    return Promise.resolve(history[timestamp]);
+  }
+
+  sendMessage(
+    text: string,
+    currentUserId: string,
+    channelId: string,
+    clientMessageId?: string
+  ): Promise<string> {
+    this.recordCall("sendMessage", [text, currentUserId, channelId]);
+
+    if (!this.messenger) {
+      return Promise.resolve(undefined);
+    }
+
+    // There is no server to echo the message back, so we do that
+    const timestamp = this.messenger.getTimestamp();
+    this.messenger.addMessage(channelId, {
+      timestamp,
+      userId: currentUserId,
+      text,
+      content: null,
+      reactions: [],
+      replies: {},
+      clientMessageId
+    });
+    return Promise.resolve(timestamp);
+  }
+
+  sendThreadReply(
+    text: string,
+    currentUserId: string,
+    channelId: string,
+    parentTimestamp: string,
+    broadcast?: boolean,
+    clientMessageId?: string
+  ): Promise<string> {
+    const args = [text, currentUserId, channelId, parentTimestamp];
+    this.recordCall("sendThreadReply", !!broadcast ? [...args, true] : args);
+    const history = this.history[channelId] || {};
+
+    if (!!this.messenger && parentTimestamp in history) {
+      const timestamp = this.messenger.getTimestamp();
+      this.messenger.addReply(channelId, parentTimestamp, {
+        userId: currentUserId,
+        timestamp,
+        text,
+        clientMessageId
+      });
+
+      if (!!broadcast) {
+        this.messenger.addMessage(channelId, {
+          timestamp,
+          userId: currentUserId,
+          text,
+          content: null,
+          reactions: [],
+          replies: {}
+        });
+      }
+
+      return Promise.resolve(timestamp);
+    }
+
+    return Promise.resolve(undefined);
+  }
+
+  markThread(
+    channelId: string,
+    parentTimestamp: string,
+    ts: string
+  ): Promise<void> {
+    this.recordCall("markThread", [channelId, parentTimestamp, ts]);
+    return Promise.resolve();
+  }
+
+  editMessage(channelId: string, ts: string, text: string): Promise<void> {
+    this.recordCall("editMessage", [channelId, ts, text]);
+    const history = this.history[channelId] || {};
+
+    if (!!this.messenger && ts in history) {
+      const ref = { channelId, timestamp: ts, parentTimestamp: undefined };
+      this.messenger.editMessage(ref, text);
+    }
+
+    return Promise.resolve();
+  }
+
+  deleteMessage(channelId: string, ts: string): Promise<void> {
+    this.recordCall("deleteMessage", [channelId, ts]);
+    const history = this.history[channelId] || {};
+
+    if (!!this.messenger && ts in history) {
+      const ref = { channelId, timestamp: ts, parentTimestamp: undefined };
+      this.messenger.deleteMessage(ref);
+    }
+
+    return Promise.resolve();
+  }
+
+  addReaction(channelId: string, ts: string, name: string): Promise<void> {
+    this.recordCall("addReaction", [channelId, ts, name]);
+    return this.updateReaction(channelId, ts, name, true);
+  }
+
+  removeReaction(channelId: string, ts: string, name: string): Promise<void> {
+    this.recordCall("removeReaction", [channelId, ts, name]);
+    return this.updateReaction(channelId, ts, name, false);
+  }
+
+  private updateReaction(
+    channelId: string,
+    ts: string,
+    name: string,
+    isAdded: boolean
+  ): Promise<void> {
+    const history = this.history[channelId] || {};
+
+    if (!!this.messenger && ts in history) {
+      const ref = { channelId, timestamp: ts, parentTimestamp: undefined };
+      this.messenger.updateReaction(ref, MOCK_CURRENT_USER_ID, name, isAdded);
+    }
+
+    return Promise.resolve();
+  }
+
+  fetchCustomEmoji(): Promise<CustomEmoji> {
+    // The fake workspace has no custom emoji
+    return Promise.resolve({});
+  }
+
+  sendTyping(channelId: string): Promise<void> {
+    this.recordCall("sendTyping", [channelId]);
+    return Promise.resolve();
+  }
+
+  searchMessages(query: string): Promise<SearchResult[]> {
+    // Only the local history of the fake workspace is searched
+    return Promise.resolve([]);
+  }
+
+  fetchCommands(): Promise<string[]> {
+    // Commands of the fake workspace, to try out forwarded commands
+    return Promise.resolve(["/giphy", "/remind"]);
+  }
+
+  sendCommand(channelId: string, command: string, text: string): Promise<void> {
+    this.recordCall("sendCommand", [channelId, command, text]);
+    return Promise.resolve();
+  }
+
+  destroy(): Promise<void> {
+    if (!!this.messenger) {
+      this.messenger.disconnect();
+    }
+
+    return Promise.resolve();
+  }
+}
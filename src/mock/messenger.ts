@@ -0,0 +1,268 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import {
+  Users,
+  Channel,
+  ChannelMessages,
+  Message,
+  MessageReply
+} from "../interfaces";
+import { SelfCommands } from "../constants";
+import { getTimestamp, findUser, findChannel } from "./workspace";
+import Logger from "../logger";
+
+const DEFAULT_DELAY = 3000; // between fixture events, in ms
+
+export interface FixtureEvent {
+  type: string;
+  delay?: number;
+  id?: string; // to refer to this message in later events
+  channel?: string;
+  user?: string;
+  text?: string;
+  parent?: string;
+  reaction?: string;
+  online?: boolean;
+  unreadCount?: number;
+}
+
+interface MessageRef {
+  channelId: string;
+  timestamp: string;
+  parentTimestamp: string;
+}
+
+export const readFixture = (fixturePath: string): Promise<FixtureEvent[]> => {
+  return new Promise((resolve, reject) => {
+    fs.readFile(fixturePath, "utf8", (error, data) => {
+      if (!!error) {
+        return reject(error);
+      }
+
+      try {
+        resolve(JSON.parse(data).events || []);
+      } catch (parseError) {
+        reject(parseError);
+      }
+    });
+  });
+};
+
+class MockMessenger {
+  private refs: { [fixtureId: string]: MessageRef } = {};
+  private timer: NodeJS.Timer;
+  private isRunning: boolean = false;
+  private lastTimestamp: number = 0;
+
+  constructor(
+    private users: Users,
+    private channels: Channel[],
+    private history: { [channelId: string]: ChannelMessages }
+  ) {}
+
+  start = (events: FixtureEvent[]) => {
+    this.isRunning = true;
+    this.replay(events, 0);
+  };
+
+  replay = (events: FixtureEvent[], index: number) => {
+    if (!this.isRunning || index >= events.length) {
+      return;
+    }
+
+    const event = events[index];
+    const delay = event.delay !== undefined ? event.delay : DEFAULT_DELAY;
+    this.timer = setTimeout(() => {
+      try {
+        this.handleEvent(event);
+      } catch (error) {
+        Logger.log(`[ERROR] Mock event ${event.type}: ${error.message}`);
+      }
+
+      this.replay(events, index + 1);
+    }, delay);
+  };
+
+  getTimestamp = (): string => {
+    // Events can fire in the same millisecond, so timestamps are
+    // kept unique in microseconds
+    const now = new Date().valueOf() * 1000;
+    this.lastTimestamp = Math.max(now, this.lastTimestamp + 1);
+    return getTimestamp(this.lastTimestamp / 1000000);
+  };
+
+  getUserId = (name: string): string => {
+    const user = findUser(this.users, name);
+    return !!user ? user.id : name;
+  };
+
+  getChannelId = (name: string): string => {
+    const channel = findChannel(this.channels, name);
+    return !!channel ? channel.id : name;
+  };
+
+  handleEvent = (event: FixtureEvent) => {
+    const ref = !!event.id ? this.refs[event.id] : undefined;
+
+    switch (event.type) {
+      case "message":
+        const channelId = this.getChannelId(event.channel);
+        const timestamp = this.getTimestamp();
+        this.rememberRef(event.id, channelId, timestamp, undefined);
+        return this.addMessage(channelId, {
+          timestamp,
+          userId: this.getUserId(event.user),
+          text: event.text,
+          content: null,
+          reactions: [],
+          replies: {}
+        });
+
+      case "reply":
+        const parentRef = this.refs[event.parent];
+        const replyTimestamp = this.getTimestamp();
+        this.rememberRef(
+          event.id,
+          parentRef.channelId,
+          replyTimestamp,
+          parentRef.timestamp
+        );
+        return this.addReply(parentRef.channelId, parentRef.timestamp, {
+          userId: this.getUserId(event.user),
+          timestamp: replyTimestamp,
+          text: event.text
+        });
+
+      case "edit":
+        return this.editMessage(ref, event.text);
+
+      case "delete":
+        return this.deleteMessage(ref);
+
+      case "reaction_added":
+      case "reaction_removed":
+        return this.updateReaction(
+          ref,
+          this.getUserId(event.user),
+          event.reaction,
+          event.type === "reaction_added"
+        );
+
+      case "presence":
+        return vscode.commands.executeCommand(
+          SelfCommands.UPDATE_USER_PRESENCE,
+          {
+            provider: "mock",
+            userId: this.getUserId(event.user),
+            isOnline: !!event.online
+          }
+        );
+
+      case "channel_marked":
+        return vscode.commands.executeCommand(SelfCommands.CHANNEL_MARKED, {
+          provider: "mock",
+          channelId: this.getChannelId(event.channel),
+          readTimestamp: this.getTimestamp(),
+          unreadCount: event.unreadCount || 0
+        });
+
+      default:
+        Logger.log(`Unknown mock event: ${event.type}`);
+    }
+  };
+
+  rememberRef = (
+    fixtureId: string,
+    channelId: string,
+    timestamp: string,
+    parentTimestamp: string
+  ) => {
+    if (!!fixtureId) {
+      this.refs[fixtureId] = { channelId, timestamp, parentTimestamp };
+    }
+  };
+
+  addMessage = (channelId: string, message: Message) => {
+    let newMessages: ChannelMessages = {};
+    newMessages[message.timestamp] = message;
+    this.history[channelId] = {
+      ...this.history[channelId],
+      ...newMessages
+    };
+    vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGES, {
+      provider: "mock",
+      channelId,
+      messages: newMessages
+    });
+  };
+
+  addReply = (
+    channelId: string,
+    parentTimestamp: string,
+    reply: MessageReply
+  ) => {
+    const parent = this.history[channelId][parentTimestamp];
+    parent.replies = { ...parent.replies, [reply.timestamp]: reply };
+    vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGE_REPLIES, {
+      provider: "mock",
+      parentTimestamp,
+      channelId,
+      reply
+    });
+  };
+
+  editMessage = (ref: MessageRef, text: string) => {
+    const { channelId, timestamp, parentTimestamp } = ref;
+
+    if (!!parentTimestamp) {
+      const parent = this.history[channelId][parentTimestamp];
+      const reply = { ...parent.replies[timestamp], text };
+      return this.addReply(channelId, parentTimestamp, reply);
+    }
+
+    const message = this.history[channelId][timestamp];
+    this.addMessage(channelId, { ...message, text, isEdited: true });
+  };
+
+  deleteMessage = (ref: MessageRef) => {
+    // Only top-level messages can be removed from the store
+    const { channelId, timestamp } = ref;
+    let newMessages: ChannelMessages = {};
+    newMessages[timestamp] = undefined;
+    delete this.history[channelId][timestamp];
+    vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGES, {
+      provider: "mock",
+      channelId,
+      messages: newMessages
+    });
+  };
+
+  updateReaction = (
+    ref: MessageRef,
+    userId: string,
+    reactionName: string,
+    isAdded: boolean
+  ) => {
+    const command = isAdded
+      ? SelfCommands.ADD_MESSAGE_REACTION
+      : SelfCommands.REMOVE_MESSAGE_REACTION;
+    return vscode.commands.executeCommand(command, {
+      provider: "mock",
+      userId,
+      channelId: ref.channelId,
+      msgTimestamp: ref.timestamp,
+      reactionName
+    });
+  };
+
+  isConnected(): boolean {
+    return this.isRunning;
+  }
+
+  disconnect() {
+    this.isRunning = false;
+    clearTimeout(this.timer);
+  }
+}
+
+export default MockMessenger;
@@ -0,0 +1,147 @@
+import {
+  Users,
+  User,
+  Channel,
+  ChannelType,
+  ChannelMessages,
+  Message
+} from "../interfaces";
+
+export const MOCK_TEAM = { id: "mock-team", name: "Mock Workspace" };
+export const MOCK_CURRENT_USER_ID = "U0";
+
+const USERS = [
+  { id: MOCK_CURRENT_USER_ID, name: "you", fullName: "You" },
+  { id: "U1", name: "alice", fullName: "Alice Anderson" },
+  { id: "U2", name: "bob", fullName: "Bob Brown" },
+  { id: "U3", name: "carol", fullName: "Carol Chen" },
+  { id: "U4", name: "travis", fullName: "Travis CI", isBot: true }
+];
+
+const CHANNELS = [
+  { id: "C1", name: "general", type: ChannelType.channel },
+  { id: "C2", name: "random", type: ChannelType.channel },
+  { id: "G1", name: "core-team", type: ChannelType.group },
+  { id: "D1", name: "alice", type: ChannelType.im },
+  { id: "D2", name: "bob", type: ChannelType.im }
+];
+
+// Initial history, with a thread and reactions, relative to the
+// time when the workspace is generated (in seconds)
+const HISTORY = [
+  {
+    channelId: "C1",
+    userId: "U1",
+    offset: -3600,
+    text: "Welcome to the mock workspace :wave:",
+    reactions: [{ name: ":wave:", count: 2, userIds: ["U2", "U3"] }]
+  },
+  {
+    channelId: "C1",
+    userId: "U2",
+    offset: -1800,
+    text: "Has anyone looked at the failing build?",
+    replies: [
+      { userId: "U3", offset: -1700, text: "Looking at it now" },
+      { userId: "U2", offset: -1600, text: "Thanks!" }
+    ]
+  },
+  {
+    channelId: "C1",
+    userId: "U4",
+    offset: -1500,
+    text: "Build #42 passed on `master`"
+  },
+  {
+    channelId: "C2",
+    userId: "U3",
+    offset: -7200,
+    text: "Here's a link: https://code.visualstudio.com"
+  },
+  {
+    channelId: "G1",
+    userId: "U1",
+    offset: -900,
+    text: "Let's sync on the release plan tomorrow"
+  },
+  {
+    channelId: "D1",
+    userId: "U1",
+    offset: -600,
+    text: "Hey, do you have a minute?"
+  }
+];
+
+export const getTimestamp = (seconds: number): string => {
+  return seconds.toFixed(6);
+};
+
+export const getUsers = (): Users => {
+  let users: Users = {};
+  USERS.forEach(({ id, name, fullName, isBot }) => {
+    // Avatars are identicons, which are generated from the id
+    const imageUrl = `https://www.gravatar.com/avatar/${id}?d=identicon`;
+    users[id] = {
+      id,
+      name,
+      fullName,
+      imageUrl,
+      smallImageUrl: imageUrl,
+      isOnline: id !== "U3",
+      isBot: !!isBot
+    };
+  });
+  return users;
+};
+
+export const getChannels = (now: number): Channel[] => {
+  // Everything before this is read, so that history shows up as unread
+  const readTimestamp = getTimestamp(now - 1000);
+  return CHANNELS.map(({ id, name, type }) => ({
+    id,
+    name,
+    type,
+    readTimestamp,
+    unreadCount: 0
+  }));
+};
+
+export const getHistory = (
+  now: number
+): { [channelId: string]: ChannelMessages } => {
+  let history = {};
+  CHANNELS.forEach(({ id }) => (history[id] = {}));
+  HISTORY.forEach(item => {
+    const timestamp = getTimestamp(now + item.offset);
+    let message: Message = {
+      timestamp,
+      userId: item.userId,
+      text: item.text,
+      content: null,
+      reactions: item.reactions || [],
+      replies: {}
+    };
+    (item.replies || []).forEach(reply => {
+      const replyTimestamp = getTimestamp(now + reply.offset);
+      message.replies[replyTimestamp] = {
+        userId: reply.userId,
+        timestamp: replyTimestamp,
+        text: reply.text
+      };
+    });
+    history[item.channelId][timestamp] = message;
+  });
+  return history;
+};
+
+export const findUser = (users: Users, name: string): User => {
+  // Fixture events can refer to users by id or name
+  return Object.keys(users)
+    .map(userId => users[userId])
+    .find(user => user.id === name || user.name === name);
+};
+
+export const findChannel = (channels: Channel[], name: string): Channel => {
+  // Fixture events can refer to channels by id or name
+  return channels.find(channel => channel.id === name || channel.name === name);
+};
@@ -4,15 +4,20 @@ import { SelfCommands } from "./constants";
 import { EventSource } from "./interfaces";
 import { hasExtensionPack, openUrl } from "./utils";
 import IssueReporter from "./issues";
+import ConfigHelper from "./config";
 
 export const addNewProvider = async () => {
   const opts: vscode.InputBoxOptions = {
     prompt: "Which chat provider do you use?",
-    placeHolder: "For example: Microsoft Teams, Telegram, Rocket.Chat"
+    placeHolder: "For example: Microsoft Teams, Telegram, Gitter"
   };
   const input = await vscode.window.showInputBox(opts);
+  const setupProvider = !!input ? getSetupForProvider(input) : undefined;
 
-  if (!!input) {
+  if (!!setupProvider) {
+    // This provider is already supported
+    setupProvider();
+  } else if (!!input) {
     const title = `Add new chat provider: ${input}`;
     const body = `My chat provider is ${input}`;
     IssueReporter.openNewIssue(title, body);
@@ -32,6 +37,53 @@ export const setupDiscord = () => {
   );
 };
 
+export const setupMattermost = () => {
+  openUrl(
+    "https://github.com/karigari/vscode-chat/blob/master/docs/MATTERMOST.md"
+  );
+};
+
+export const setupMatrix = () => {
+  openUrl("https://github.com/karigari/vscode-chat/blob/master/docs/MATRIX.md");
+};
+
+export const setupRocketChat = () => {
+  openUrl(
+    "https://github.com/karigari/vscode-chat/blob/master/docs/ROCKETCHAT.md"
+  );
+};
+
+export const setupZulip = () => {
+  openUrl("https://github.com/karigari/vscode-chat/blob/master/docs/ZULIP.md");
+};
+
+export const setupIRC = () => {
+  openUrl("https://github.com/karigari/vscode-chat/blob/master/docs/IRC.md");
+};
+
+export const setupMock = () => {
+  // The mock provider has no account, so we can sign in directly
+  return ConfigHelper.setToken("mock", "mock");
+};
+
+const getSetupForProvider = (input: string): (() => void) | undefined => {
+  // Ignores case and separators, so that "Rocket.Chat" matches rocketchat
+  const provider = input.toLowerCase().replace(/[^a-z]/g, "");
+  const setupFunctions = {
+    slack: setupSlack,
+    discord: setupDiscord,
+    mattermost: setupMattermost,
+    matrix: setupMatrix,
+    rocketchat: setupRocketChat,
+    zulip: setupZulip,
+    irc: setupIRC,
+    mock: setupMock
+  };
+  return setupFunctions.hasOwnProperty(provider)
+    ? setupFunctions[provider]
+    : undefined;
+};
+
 export const askForAuth = async () => {
   const actionItems = [str.SETUP_SLACK, str.SETUP_DISCORD];
 
@@ -76,6 +128,12 @@ interface OnboardingTreeNode {
 const OnboardingCommands = {
   SETUP_SLACK: "extension.chat.onboarding.slack",
   SETUP_DISCORD: "extension.chat.onboarding.discord",
+  SETUP_MATTERMOST: "extension.chat.onboarding.mattermost",
+  SETUP_MATRIX: "extension.chat.onboarding.matrix",
+  SETUP_ROCKETCHAT: "extension.chat.onboarding.rocketchat",
+  SETUP_ZULIP: "extension.chat.onboarding.zulip",
+  SETUP_IRC: "extension.chat.onboarding.irc",
+  SETUP_MOCK: "extension.chat.onboarding.mock",
   ADD_NEW: "extension.chat.onboarding.addNew"
 };
 
@@ -97,6 +155,24 @@ export class OnboardingTreeProvider
         OnboardingCommands.SETUP_DISCORD,
         setupDiscord
       ),
+      vscode.commands.registerCommand(
+        OnboardingCommands.SETUP_MATTERMOST,
+        setupMattermost
+      ),
+      vscode.commands.registerCommand(
+        OnboardingCommands.SETUP_MATRIX,
+        setupMatrix
+      ),
+      vscode.commands.registerCommand(
+        OnboardingCommands.SETUP_ROCKETCHAT,
+        setupRocketChat
+      ),
+      vscode.commands.registerCommand(
+        OnboardingCommands.SETUP_ZULIP,
+        setupZulip
+      ),
+      vscode.commands.registerCommand(OnboardingCommands.SETUP_IRC, setupIRC),
+      vscode.commands.registerCommand(OnboardingCommands.SETUP_MOCK, setupMock),
       vscode.commands.registerCommand(
         OnboardingCommands.ADD_NEW,
         addNewProvider
@@ -112,6 +188,18 @@ export class OnboardingTreeProvider
     return Promise.resolve([
       { label: str.SETUP_SLACK, command: OnboardingCommands.SETUP_SLACK },
       { label: str.SETUP_DISCORD, command: OnboardingCommands.SETUP_DISCORD },
+      {
+        label: str.SETUP_MATTERMOST,
+        command: OnboardingCommands.SETUP_MATTERMOST
+      },
+      { label: str.SETUP_MATRIX, command: OnboardingCommands.SETUP_MATRIX },
+      {
+        label: str.SETUP_ROCKETCHAT,
+        command: OnboardingCommands.SETUP_ROCKETCHAT
+      },
+      { label: str.SETUP_ZULIP, command: OnboardingCommands.SETUP_ZULIP },
+      { label: str.SETUP_IRC, command: OnboardingCommands.SETUP_IRC },
+      { label: str.SETUP_MOCK, command: OnboardingCommands.SETUP_MOCK },
       {
         label: str.ADD_NEW_PROVIDER,
         command: OnboardingCommands.ADD_NEW
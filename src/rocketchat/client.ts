@@ -0,0 +1,322 @@
+import ConfigHelper from "../config";
+import {
+  Users,
+  User,
+  Channel,
+  ChannelType,
+  ChannelMessages,
+  Message,
+  MessageContent,
+  MessageReply
+} from "../interfaces";
+const rp = require("request-promise-native");
+
+const HISTORY_LIMIT = 50;
+const USERS_PAGE_SIZE = 500;
+
+// Room types: public channels, private groups and direct messages
+const HISTORY_ENDPOINTS = {
+  c: "channels.history",
+  p: "groups.history",
+  d: "im.history"
+};
+
+export const getTimestamp = (date: any): string => {
+  // The REST API sends ISO strings, while the realtime API sends
+  // EJSON dates like { $date: 1537880000000 }
+  const millis =
+    !!date && date.$date !== undefined ? date.$date : Date.parse(date);
+  return (millis / 1000).toString();
+};
+
+export const isOnline = (status: string): boolean => {
+  return status === "online" || status === "away" || status === "busy";
+};
+
+const getContent = (attachment): MessageContent => {
+  return {
+    author: attachment.author_name,
+    authorIcon: attachment.author_icon,
+    pretext: attachment.pretext,
+    title: attachment.title,
+    titleLink: attachment.title_link,
+    text: attachment.text,
+    footer: attachment.footer,
+    borderColor: !!attachment.color
+      ? attachment.color.replace(/^#/, "")
+      : undefined
+  };
+};
+
+export default class RocketChatAPIClient {
+  userId: string;
+
+  // Rocket.Chat identifies messages by id, and reactions by username,
+  // while the extension uses timestamps and user ids.
+  private messageTimestamps: { [messageId: string]: string } = {};
+  private usernames: { [username: string]: string } = {};
+  private roomTypes: { [roomId: string]: string } = {};
+
+  constructor(private serverUrl: string, private token: string) {}
+
+  setUserId = (userId: string) => {
+    this.userId = userId;
+  };
+
+  request = (method: string, uri: string, body?: any): Promise<any> => {
+    let options: any = {
+      baseUrl: `${this.serverUrl}/api/v1/`,
+      uri,
+      method,
+      body,
+      json: true,
+      headers: {
+        "X-Auth-Token": this.token,
+        "X-User-Id": this.userId
+      }
+    };
+    const customAgent = ConfigHelper.getCustomAgent();
+
+    if (!!customAgent) {
+      options.agent = customAgent;
+    }
+
+    return rp(options);
+  };
+
+  getSocketUrl = (): string => {
+    const socketBase = this.serverUrl.replace(/^http/, "ws");
+    return `${socketBase}/websocket`;
+  };
+
+  getMessageTimestamp = (messageId: string): string => {
+    return this.messageTimestamps[messageId];
+  };
+
+  getMessageId = (timestamp: string): string => {
+    return Object.keys(this.messageTimestamps).find(
+      messageId => this.messageTimestamps[messageId] === timestamp
+    );
+  };
+
+  getUser = (raw: any): User => {
+    const { _id, username, name, status } = raw;
+    const avatarUrl = `${this.serverUrl}/avatar/${username}`;
+    this.usernames[username] = _id;
+    return {
+      id: _id,
+      name: username,
+      fullName: !!name ? name : username,
+      imageUrl: avatarUrl,
+      smallImageUrl: avatarUrl,
+      isOnline: isOnline(status),
+      isBot: !!raw.roles && raw.roles.indexOf("bot") >= 0
+    };
+  };
+
+  getReactions = (rawReactions: any) => {
+    // Reactions look like { ":smile:": { usernames: ["alice"] } }
+    return Object.keys(rawReactions || {}).map(name => {
+      const { usernames } = rawReactions[name];
+      return {
+        name,
+        count: usernames.length,
+        userIds: usernames.map(
+          username =>
+            username in this.usernames ? this.usernames[username] : username
+        )
+      };
+    });
+  };
+
+  getMessage = (raw: any): Message => {
+    const { _id, ts, u, msg, editedAt, reactions, attachments, file } = raw;
+    const timestamp = getTimestamp(ts);
+    this.messageTimestamps[_id] = timestamp;
+    this.usernames[u.username] = u._id;
+    const hasAttachment = !!attachments && attachments.length > 0;
+
+    return {
+      timestamp,
+      userId: u._id,
+      text: msg,
+      isEdited: !!editedAt,
+      attachment: !!file
+        ? {
+            name: file.name,
+            permalink: `${this.serverUrl}/file-upload/${
+              file._id
+            }/${encodeURIComponent(file.name)}`
+          }
+        : null,
+      content: hasAttachment && !file ? getContent(attachments[0]) : null,
+      reactions: this.getReactions(reactions),
+      replies: {}
+    };
+  };
+
+  getMessageReply = (raw: any): MessageReply => {
+    const { userId, timestamp, text, attachment } = this.getMessage(raw);
+    return { userId, timestamp, text, attachment };
+  };
+
+  getChannelMessages = (rawMessages: any[]): ChannelMessages => {
+    // Messages with a tmid are thread replies, and we attach them
+    // to their thread parent (if it is available in the list)
+    let result: ChannelMessages = {};
+    const parents = rawMessages.filter(raw => !raw.tmid && !raw.t);
+    const replies = rawMessages.filter(raw => !!raw.tmid);
+
+    parents.forEach(raw => {
+      const message = this.getMessage(raw);
+      result[message.timestamp] = message;
+    });
+
+    replies.forEach(raw => {
+      const parentTimestamp = this.getMessageTimestamp(raw.tmid);
+
+      if (!!parentTimestamp && parentTimestamp in result) {
+        const reply = this.getMessageReply(raw);
+        result[parentTimestamp].replies[reply.timestamp] = reply;
+      }
+    });
+
+    return result;
+  };
+
+  getAuthTest = (): Promise<string> => {
+    // Used for diagnostic logging
+    return this.request("GET", "me")
+      .then(() => "me successful")
+      .catch(error => `error: ${error.toString()}`);
+  };
+
+  getMe = (): Promise<any> => {
+    return this.request("GET", "me");
+  };
+
+  getUsers = (): Promise<Users> => {
+    let users: Users = {};
+    const fetchPage = (offset: number): Promise<Users> => {
+      const query = `offset=${offset}&count=${USERS_PAGE_SIZE}`;
+      return this.request("GET", `users.list?${query}`).then(response => {
+        const { users: members, total } = response;
+        members.forEach(member => {
+          const user = this.getUser(member);
+          users[user.id] = user;
+        });
+
+        const nextOffset = offset + members.length;
+        return members.length > 0 && nextOffset < total
+          ? fetchPage(nextOffset)
+          : users;
+      });
+    };
+
+    return fetchPage(0);
+  };
+
+  getUserInfo = (userId: string): Promise<User> => {
+    return this.request("GET", `users.info?userId=${userId}`).then(response =>
+      this.getUser(response.user)
+    );
+  };
+
+  getChannel = (subscription: any): Channel => {
+    const { rid, name, fname, t, unread, ls } = subscription;
+    const types = { c: ChannelType.channel, p: ChannelType.group };
+    this.roomTypes[rid] = t;
+    return {
+      id: rid,
+      // Direct messages are named after the other user's username
+      name: t !== "d" && !!fname ? fname : name,
+      type: t in types ? types[t] : ChannelType.im,
+      readTimestamp: !!ls ? getTimestamp(ls) : undefined,
+      unreadCount: unread || 0
+    };
+  };
+
+  getSubscriptions = (): Promise<any[]> => {
+    return this.request("GET", "subscriptions.get").then(response =>
+      response.update.filter(subscription => subscription.open !== false)
+    );
+  };
+
+  getChannels = (): Promise<Channel[]> => {
+    return this.getSubscriptions().then(subscriptions =>
+      subscriptions.map(this.getChannel)
+    );
+  };
+
+  getChannelInfo = (originalChannel: Channel): Promise<Channel> => {
+    const uri = `subscriptions.getOne?roomId=${originalChannel.id}`;
+    return this.request("GET", uri).then(response => ({
+      ...originalChannel,
+      ...this.getChannel(response.subscription)
+    }));
+  };
+
+  getMutedChannels = (): Promise<string[]> => {
+    return this.getSubscriptions().then(subscriptions =>
+      subscriptions
+        .filter(subscription => !!subscription.disableNotifications)
+        .map(subscription => subscription.rid)
+    );
+  };
+
+  getConversationHistory = (channelId: string): Promise<ChannelMessages> => {
+    const roomType = this.roomTypes[channelId] || "c";
+    const endpoint = HISTORY_ENDPOINTS[roomType];
+    const uri = `${endpoint}?roomId=${channelId}&count=${HISTORY_LIMIT}`;
+    return this.request("GET", uri).then(response =>
+      this.getChannelMessages(response.messages)
+    );
+  };
+
+  getReplies = (messageTimestamp: string): Promise<Message> => {
+    const messageId = this.getMessageId(messageTimestamp);
+    const parent = this.request("GET", `chat.getMessage?msgId=${messageId}`);
+    const replies = this.request(
+      "GET",
+      `chat.getThreadMessages?tmid=${messageId}`
+    );
+    return Promise.all([parent, replies]).then(([parent, replies]) => {
+      const rawMessages = [parent.message, ...replies.messages];
+      const messages = this.getChannelMessages(rawMessages);
+      return messages[messageTimestamp];
+    });
+  };
+
+  sendMessage = (
+    channelId: string,
+    text: string,
+    parentTimestamp: string
+  ): Promise<any> => {
+    const tmid = !!parentTimestamp
+      ? this.getMessageId(parentTimestamp)
+      : undefined;
+    return this.request("POST", "chat.sendMessage", {
+      message: { rid: channelId, msg: text, tmid }
+    });
+  };
+
+  markChannel = (channelId: string): Promise<any> => {
+    return this.request("POST", "subscriptions.read", { rid: channelId });
+  };
+
+  openIMChannel = (user: User): Promise<Channel> => {
+    const { name } = user;
+    return this.request("POST", "im.create", { username: name }).then(
+      response => {
+        this.roomTypes[response.room._id] = "d";
+        return {
+          id: response.room._id,
+          name,
+          type: ChannelType.im,
+          readTimestamp: undefined,
+          unreadCount: 0
+        };
+      }
+    );
+  };
+}
@@ -0,0 +1,223 @@
+import ConfigHelper from "../config";
+import RocketChatAPIClient from "./client";
+import RocketChatMessenger from "./messenger";
+import {
+  IManager,
+  IChatProvider,
+  User,
+  Channel,
+  Users,
+  Message,
+  ChannelMessages,
+  UserPreferences,
+  CurrentUser,
+  ChatProviderCapabilities,
+  CustomEmoji,
+  ChannelHistory,
+  SearchResult
+} from "../interfaces";
+
+export class RocketChatChatProvider implements IChatProvider {
+  capabilities: ChatProviderCapabilities = {
+    threads: true,
+    threadBroadcast: false,
+    reactions: false,
+    editMessage: false,
+    deleteMessage: false,
+    fileUpload: false,
+    presence: true,
+    historicalUnreads: true,
+    createIMChannel: true,
+    search: false,
+    typing: false,
+    commands: false,
+    syncHistory: false
+  };
+
+  private token: string;
+  private serverUrl: string;
+  private client: RocketChatAPIClient;
+  private messenger: RocketChatMessenger;
+
+  constructor(private manager: IManager) {}
+
+  async getToken(): Promise<string> {
+    // Rocket.Chat is self-hosted, so we also need the server url. The token
+    // is a personal access token, created from the account settings.
+    this.serverUrl = ConfigHelper.getServerUrl("rocketchat");
+    this.token = await ConfigHelper.getToken("rocketchat");
+
+    if (!!this.serverUrl && !!this.token) {
+      this.client = new RocketChatAPIClient(this.serverUrl, this.token);
+      return this.token;
+    }
+  }
+
+  getAuthTest(): Promise<string> {
+    if (!!this.client) {
+      return this.client.getAuthTest();
+    }
+  }
+
+  async connect(): Promise<CurrentUser> {
+    // The REST API needs the user id along with the token, and we get
+    // that by logging in on the websocket
+    this.messenger = new RocketChatMessenger(
+      this.token,
+      this.client,
+      this.manager
+    );
+    const userId = await this.messenger.start();
+    this.client.setUserId(userId);
+    const me = await this.client.getMe();
+
+    // Rocket.Chat does not have a concept of workspaces, so the
+    // server is the only team
+    const serverName = this.serverUrl.replace(/^https?:\/\//, "");
+    return {
+      id: me._id,
+      name: me.username,
+      token: this.token,
+      teams: [{ id: serverName, name: serverName }],
+      currentTeamId: serverName,
+      provider: "rocketchat"
+    };
+  }
+
+  isConnected(): boolean {
+    return !!this.messenger && this.messenger.isConnected();
+  }
+
+  subscribePresence(users: Users) {
+    // Initial statuses are a part of the users list, and the
+    // websocket sends user-status events after that
+  }
+
+  createIMChannel(user: User): Promise<Channel> {
+    return this.client.openIMChannel(user);
+  }
+
+  fetchUsers(): Promise<Users> {
+    return this.client.getUsers();
+  }
+
+  fetchUserInfo(userId: string): Promise<User> {
+    return this.client.getUserInfo(userId);
+  }
+
+  fetchChannels(users: Users): Promise<Channel[]> {
+    return this.client.getChannels();
+  }
+
+  fetchChannelInfo(channel: Channel): Promise<Channel> {
+    return this.client.getChannelInfo(channel);
+  }
+
+  loadChannelHistory(channelId: string): Promise<ChannelHistory> {
+    // Older pages are not supported yet
+    return this.client
+      .getConversationHistory(channelId)
+      .then(messages => ({ messages, hasMore: false }));
+  }
+
+  loadNewMessages(channelId: string, after: string): Promise<ChannelHistory> {
+    // Catching up is not supported yet, see capabilities
+    return Promise.resolve({ messages: {}, hasMore: false });
+  }
+
+  getUserPrefs(): Promise<UserPreferences> {
+    return this.client.getMutedChannels().then(mutedChannels => ({
+      mutedChannels
+    }));
+  }
+
+  markChannel(channel: Channel, timestamp: string): Promise<Channel> {
+    // Rocket.Chat marks the complete room as read
+    return this.client.markChannel(channel.id).then(() => ({
+      ...channel,
+      readTimestamp: timestamp,
+      unreadCount: 0
+    }));
+  }
+
+  fetchThreadReplies(channelId: string, timestamp: string): Promise<Message> {
+    return this.client.getReplies(timestamp);
+  }
+
+  sendMessage(
+    text: string,
+    currentUserId: string,
+    channelId: string
+  ): Promise<void> {
+    // The new message is received on the websocket, so we don't
+    // need to update the store here
+    return this.client.sendMessage(channelId, text, undefined);
+  }
+
+  sendThreadReply(
+    text: string,
+    currentUserId: string,
+    channelId: string,
+    parentTimestamp: string
+  ): Promise<void> {
+    return this.client.sendMessage(channelId, text, parentTimestamp);
+  }
+
+  editMessage(channelId: string, ts: string, text: string): Promise<void> {
+    // Edits are not supported yet, see capabilities
+    return Promise.resolve();
+  }
+
+  deleteMessage(channelId: string, ts: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  markThread(
+    channelId: string,
+    parentTimestamp: string,
+    ts: string
+  ): Promise<void> {
+    // Read state of threads is only kept locally
+    return Promise.resolve();
+  }
+
+  addReaction(channelId: string, ts: string, name: string): Promise<void> {
+    // Reacting is not supported yet, see capabilities
+    return Promise.resolve();
+  }
+
+  removeReaction(channelId: string, ts: string, name: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  fetchCustomEmoji(): Promise<CustomEmoji> {
+    return Promise.resolve({});
+  }
+
+  sendTyping(channelId: string): Promise<void> {
+    // Typing notifications are not supported yet, see capabilities
+    return Promise.resolve();
+  }
+
+  searchMessages(query: string): Promise<SearchResult[]> {
+    // Search is not supported yet, see capabilities
+    return Promise.resolve([]);
+  }
+
+  fetchCommands(): Promise<string[]> {
+    // Slash commands are not supported yet, see capabilities
+    return Promise.resolve([]);
+  }
+
+  sendCommand(channelId: string, command: string, text: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  destroy(): Promise<void> {
+    if (!!this.messenger) {
+      this.messenger.disconnect();
+    }
+
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,257 @@
+import * as vscode from "vscode";
+import * as WebSocket from "ws";
+import ConfigHelper from "../config";
+import RocketChatAPIClient, { getTimestamp } from "./client";
+import { IManager, ChannelMessages } from "../interfaces";
+import { SelfCommands } from "../constants";
+import Logger from "../logger";
+
+// Rocket.Chat's realtime API uses DDP, the Meteor protocol
+const DDP_VERSION = "1";
+
+const Streams = {
+  ROOM_MESSAGES: "stream-room-messages",
+  NOTIFY_LOGGED: "stream-notify-logged",
+  NOTIFY_USER: "stream-notify-user"
+};
+
+// Statuses in user-status events: offline, online, away, busy
+const ONLINE_STATUSES = [1, 2, 3];
+
+interface PendingMethod {
+  resolve: (result: any) => void;
+  reject: (error: any) => void;
+}
+
+class RocketChatMessenger {
+  socket: WebSocket;
+  userId: string;
+  isDisconnecting: boolean = false;
+  private nextId: number = 1;
+  private pendingMethods: { [id: string]: PendingMethod } = {};
+
+  constructor(
+    private token: string,
+    private client: RocketChatAPIClient,
+    private manager: IManager
+  ) {}
+
+  start = (): Promise<string> => {
+    // Resolves with the user id, after the auth token is verified
+    let options: WebSocket.ClientOptions = {};
+    const customAgent = ConfigHelper.getCustomAgent();
+
+    if (!!customAgent) {
+      options.agent = customAgent;
+    }
+
+    this.socket = new WebSocket(this.client.getSocketUrl(), options);
+
+    return new Promise((resolve, reject) => {
+      this.socket.once("open", () => {
+        this.send({
+          msg: "connect",
+          version: DDP_VERSION,
+          support: [DDP_VERSION]
+        });
+      });
+
+      this.socket.on("error", error => {
+        Logger.log(`[ERROR] Rocket.Chat: ${error.message}`);
+        reject(error);
+      });
+
+      this.socket.on("message", (data: string) => {
+        try {
+          this.handlePayload(JSON.parse(data), resolve, reject);
+        } catch (error) {
+          Logger.log(`[ERROR] Rocket.Chat: ${error.message}`);
+        }
+      });
+
+      this.socket.on("close", (code: number) => {
+        Logger.log(`Rocket.Chat websocket closed: ${code}`);
+
+        // Disconnects that we asked for are not reconnected
+        if (!this.isDisconnecting) {
+          vscode.commands.executeCommand(SelfCommands.DISCONNECTED, {
+            provider: "rocketchat"
+          });
+        }
+      });
+    });
+  };
+
+  send = (payload: any) => {
+    this.socket.send(JSON.stringify(payload));
+  };
+
+  callMethod = (method: string, params: any[]): Promise<any> => {
+    const id = `${this.nextId++}`;
+    this.send({ msg: "method", id, method, params });
+    return new Promise((resolve, reject) => {
+      this.pendingMethods[id] = { resolve, reject };
+    });
+  };
+
+  subscribe = (name: string, eventName: string) => {
+    const id = `${this.nextId++}`;
+    this.send({ msg: "sub", id, name, params: [eventName, false] });
+  };
+
+  handlePayload = (payload: any, resolve, reject) => {
+    const { msg } = payload;
+
+    switch (msg) {
+      case "connected":
+        // The personal access token works as a login resume token
+        return this.callMethod("login", [{ resume: this.token }])
+          .then(result => {
+            this.userId = result.id;
+            this.subscribeAll();
+            vscode.commands.executeCommand(SelfCommands.CONNECTED, {
+              provider: "rocketchat"
+            });
+            resolve(this.userId);
+          })
+          .catch(error => reject(error));
+
+      case "ping":
+        return this.send({ msg: "pong" });
+
+      case "result":
+        const { id, result, error } = payload;
+        const pending = this.pendingMethods[id];
+        delete this.pendingMethods[id];
+
+        if (!!pending) {
+          // The code is kept, like 403 when the login token is not valid
+          return !!error
+            ? pending.reject(
+                Object.assign(new Error(error.message || error.reason), {
+                  code: error.error
+                })
+              )
+            : pending.resolve(result);
+        }
+        break;
+
+      case "changed":
+        return this.handleStreamEvent(payload.collection, payload.fields);
+    }
+  };
+
+  subscribeAll = () => {
+    this.subscribe(Streams.ROOM_MESSAGES, "__my_messages__");
+    this.subscribe(Streams.NOTIFY_LOGGED, "user-status");
+    this.subscribe(Streams.NOTIFY_USER, `${this.userId}/subscriptions-changed`);
+  };
+
+  handleStreamEvent = (collection: string, fields: any) => {
+    const { eventName, args } = fields;
+
+    switch (collection) {
+      case Streams.ROOM_MESSAGES:
+        return this.handleMessage(args[0]);
+
+      case Streams.NOTIFY_LOGGED:
+        if (eventName === "user-status") {
+          const [userId, , status] = args[0];
+          return vscode.commands.executeCommand(
+            SelfCommands.UPDATE_USER_PRESENCE,
+            {
+              provider: "rocketchat",
+              userId,
+              isOnline: ONLINE_STATUSES.indexOf(status) >= 0
+            }
+          );
+        }
+        break;
+
+      case Streams.NOTIFY_USER:
+        const [action, subscription] = args;
+
+        if (action === "updated") {
+          // The unread count or the last seen time has changed, possibly
+          // because the user read the room on another client
+          const { rid, ls, unread } = subscription;
+          return vscode.commands.executeCommand(SelfCommands.CHANNEL_MARKED, {
+            provider: "rocketchat",
+            channelId: rid,
+            readTimestamp: !!ls ? getTimestamp(ls) : undefined,
+            unreadCount: unread || 0
+          });
+        }
+        break;
+    }
+  };
+
+  handleMessage = (raw: any) => {
+    const { rid, tmid, t } = raw;
+
+    if (!!t) {
+      // System messages, like user joined
+      return;
+    }
+
+    if (!!tmid) {
+      // This is a thread reply
+      const parentTimestamp = this.client.getMessageTimestamp(tmid);
+
+      if (!!parentTimestamp) {
+        vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGE_REPLIES, {
+          provider: "rocketchat",
+          parentTimestamp,
+          channelId: rid,
+          reply: this.client.getMessageReply(raw)
+        });
+      }
+    } else {
+      // New messages, edits and reaction changes are all sent as the
+      // complete message. Thread parents are also updated for every new
+      // reply, so we keep the replies that we already have.
+      const message = this.client.getMessage(raw);
+      const existing = this.manager.messages[rid] || {};
+      const previous = existing[message.timestamp];
+      let newMessages: ChannelMessages = {};
+      newMessages[message.timestamp] = !!previous
+        ? { ...message, replies: previous.replies }
+        : message;
+      vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGES, {
+        provider: "rocketchat",
+        channelId: rid,
+        messages: newMessages
+      });
+
+      if (!previous) {
+        this.handleMessageLinks(message.text, message.userId);
+      }
+    }
+  };
+
+  handleMessageLinks = (text: string, userId: string) => {
+    // For vsls invitations
+    try {
+      if (!!text && text.startsWith("http")) {
+        vscode.commands.executeCommand(SelfCommands.HANDLE_INCOMING_LINKS, {
+          provider: "rocketchat",
+          senderId: userId,
+          uri: vscode.Uri.parse(text)
+        });
+      }
+    } catch (err) {}
+  };
+
+  isConnected(): boolean {
+    return !!this.socket && this.socket.readyState === WebSocket.OPEN;
+  }
+
+  disconnect() {
+    if (!!this.socket) {
+      this.isDisconnecting = true;
+      this.socket.close();
+    }
+  }
+}
+
+export default RocketChatMessenger;
@@ -7,10 +7,15 @@ import {
   ChannelType,
   User,
   Message,
-  UserPreferences
+  UserPreferences,
+  CustomEmoji,
+  ChannelHistory,
+  MessageReplies,
+  SearchResult
 } from "../interfaces";
 
 const HISTORY_LIMIT = 50;
+const SEARCH_LIMIT = 50;
 
 const getFile = rawFile => {
   return { name: rawFile.name, permalink: rawFile.permalink };
@@ -29,6 +34,20 @@ const getContent = attachment => {
   };
 };
 
+const getReplies = (rawReplies: any[]): MessageReplies => {
+  let replies: MessageReplies = {};
+  rawReplies.forEach(reply => {
+    const { user, ts, text, files } = reply;
+    replies[ts] = {
+      userId: user,
+      timestamp: ts,
+      text,
+      attachment: !!files ? getFile(files[0]) : null
+    };
+  });
+  return replies;
+};
+
 const getReaction = reaction => ({
   name: `:${reaction.name}:`,
   count: reaction.count,
@@ -36,7 +55,7 @@ const getReaction = reaction => ({
 });
 
 export const getMessage = (raw: any): ChannelMessages => {
-  const { files, ts, user, text, edited, bot_id } = raw;
+  const { files, ts, user, text, edited, bot_id, client_msg_id } = raw;
   const { attachments, reactions, replies } = raw;
   let parsed: ChannelMessages = {};
 
@@ -48,9 +67,8 @@ export const getMessage = (raw: any): ChannelMessages => {
     attachment: files ? getFile(files[0]) : null,
     reactions: reactions ? reactions.map(r => getReaction(r)) : [],
     content: attachments ? getContent(attachments[0]) : null,
-    replies: replies
-      ? replies.map(({ user, ts }) => ({ userId: user, timestamp: ts }))
-      : []
+    replies: replies ? getReplies(replies) : {},
+    clientMessageId: client_msg_id
   };
 
   return parsed;
@@ -88,11 +106,18 @@ export default class SlackAPIClient {
       });
   };
 
-  getConversationHistory = (channel: string): Promise<ChannelMessages> => {
+  getConversationHistory = (
+    channel: string,
+    before?: string
+  ): Promise<ChannelHistory> => {
+    // The latest param is exclusive, so the cursor message is not repeated
+    const options = !!before
+      ? { channel, limit: HISTORY_LIMIT, latest: before }
+      : { channel, limit: HISTORY_LIMIT };
     return this.client
-      .apiCall("conversations.history", { channel, limit: HISTORY_LIMIT })
+      .apiCall("conversations.history", options)
       .then((response: any) => {
-        const { messages, ok } = response;
+        const { messages, ok, has_more } = response;
         let result = {};
 
         if (ok) {
@@ -104,7 +129,33 @@ export default class SlackAPIClient {
           });
         }
 
-        return result;
+        return { messages: result, hasMore: ok && !!has_more };
+      });
+  };
+
+  getNewConversationHistory = (
+    channel: string,
+    after: string
+  ): Promise<ChannelHistory> => {
+    // The oldest param is exclusive. The newest page is returned, and
+    // has_more is set if there are more messages before it.
+    return this.client
+      .apiCall("conversations.history", {
+        channel,
+        limit: HISTORY_LIMIT,
+        oldest: after
+      })
+      .then((response: any) => {
+        const { messages, ok, has_more } = response;
+        let result = {};
+
+        if (ok) {
+          messages.forEach(message => {
+            result = { ...result, ...getMessage(message) };
+          });
+        }
+
+        return { messages: result, hasMore: ok && !!has_more };
       });
   };
 
@@ -253,15 +304,61 @@ export default class SlackAPIClient {
     }
   };
 
-  sendMessage = ({ channel, text, thread_ts }): Promise<any> => {
+  sendMessage = ({
+    channel,
+    text,
+    thread_ts,
+    reply_broadcast = false,
+    client_msg_id = undefined
+  }): Promise<any> => {
     return this.client.chat.postMessage({
       channel,
       text,
       thread_ts,
+      reply_broadcast,
+      client_msg_id,
       as_user: true
     });
   };
 
+  editMessage = ({ channel, ts, text }): Promise<any> => {
+    return this.client.chat.update({ channel, ts, text });
+  };
+
+  deleteMessage = ({ channel, ts }): Promise<any> => {
+    return this.client.chat.delete({ channel, ts });
+  };
+
+  addReaction = ({ channel, timestamp, name }): Promise<any> => {
+    return this.client.reactions.add({ channel, timestamp, name });
+  };
+
+  removeReaction = ({ channel, timestamp, name }): Promise<any> => {
+    return this.client.reactions.remove({ channel, timestamp, name });
+  };
+
+  getCustomEmoji = (): Promise<CustomEmoji> => {
+    return this.client.emoji.list().then((response: any) => {
+      const { ok, emoji } = response;
+      let customEmoji: CustomEmoji = {};
+
+      if (ok) {
+        Object.keys(emoji).forEach(name => {
+          // Aliases look like "alias:original_name"
+          const value: string = emoji[name];
+          const aliasOf = value.startsWith("alias:") ? value.substr(6) : "";
+          const url = !!aliasOf ? emoji[aliasOf] : value;
+
+          if (!!url && !url.startsWith("alias:")) {
+            customEmoji[name] = url;
+          }
+        });
+      }
+
+      return customEmoji;
+    });
+  };
+
   markChannel = ({ channel, ts }): Promise<any> => {
     const { id, type } = channel;
     switch (type) {
@@ -311,28 +408,84 @@ export default class SlackAPIClient {
     channelId: string,
     messageTimestamp: string
   ): Promise<Message> => {
-    // https://api.slack.com/methods/conversations.replies
-    return this.client.conversations
-      .replies({ channel: channelId, ts: messageTimestamp })
-      .then((response: any) => {
-        // Does not handle has_more in the response yet, could break
-        // for large threads
-        const { ok, messages } = response;
+    return this.getReplyPages(channelId, messageTimestamp, undefined).then(
+      messages => {
+        const parent = messages.find(msg => msg.thread_ts === msg.ts);
 
-        if (ok) {
-          const parent = messages.find(msg => msg.thread_ts === msg.ts);
+        if (!!parent) {
+          // Every page starts with the parent message
           const replies = messages.filter(msg => msg.thread_ts !== msg.ts);
           const parentMessage = getMessage(parent);
           return {
             ...parentMessage[messageTimestamp],
-            replies: replies.map(reply => ({
-              userId: reply.user,
-              timestamp: reply.ts,
-              text: reply.text,
-              attachment: !!reply.files ? getFile(reply.files[0]) : null
-            }))
+            replies: getReplies(replies)
           };
         }
+      }
+    );
+  };
+
+  getReplyPages = (
+    channel: string,
+    ts: string,
+    cursor: string
+  ): Promise<any[]> => {
+    // https://api.slack.com/methods/conversations.replies
+    const options = !!cursor ? { channel, ts, cursor } : { channel, ts };
+    return this.client.conversations.replies(options).then((response: any) => {
+      const { ok, messages, has_more, response_metadata } = response;
+      const nextCursor = !!response_metadata
+        ? response_metadata.next_cursor
+        : undefined;
+
+      if (!ok) {
+        return [];
+      }
+
+      return has_more && !!nextCursor
+        ? this.getReplyPages(channel, ts, nextCursor).then(rest => [
+            ...messages,
+            ...rest
+          ])
+        : messages;
+    });
+  };
+
+  searchMessages = (query: string): Promise<SearchResult[]> => {
+    // Needs a user token, which has the search:read scope
+    const options = { query, count: SEARCH_LIMIT, sort: "timestamp" };
+    return this.client
+      .apiCall("search.messages", options)
+      .then((response: any) => {
+        const { ok, messages } = response;
+        const matches: any[] = ok ? messages.matches : [];
+        return matches.map(match => ({
+          channelId: match.channel.id,
+          message: getMessage(match)[match.ts]
+        }));
       });
   };
+
+  getCommands = (): Promise<string[]> => {
+    // Undocumented API, used by the Slack clients. This has the built-in
+    // commands and the commands of apps, keyed by their names
+    return this.client.apiCall("commands.list").then((response: any) => {
+      const { ok, commands } = response;
+      return ok ? Object.keys(commands).map(key => commands[key].name) : [];
+    });
+  };
+
+  sendCommand = ({ channel, command, text }): Promise<any> => {
+    // Undocumented API: https://github.com/ErikKalkoken/slackApiDoc/blob/master/chat.command.md
+    return this.client.apiCall("chat.command", { channel, command, text });
+  };
+
+  markThread = ({ channel, thread_ts, ts }): Promise<any> => {
+    // Undocumented API, used by the Slack clients
+    return this.client.apiCall("subscriptions.thread.mark", {
+      channel,
+      thread_ts,
+      ts
+    });
+  };
 }
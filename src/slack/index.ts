@@ -1,42 +1,68 @@
-import * as vscode from "vscode";
-import { SelfCommands } from "../constants";
 import ConfigHelper from "../config";
 import SlackAPIClient from "./client";
 import SlackMessenger from "./messenger";
+import { getWorkspaceKey } from "../utils";
+import { stripColons } from "../utils/emoji";
 import {
   IChatProvider,
   User,
   Channel,
   Users,
   Message,
-  ChannelMessages,
   UserPreferences,
-  CurrentUser
+  CurrentUser,
+  ChatProviderCapabilities,
+  CustomEmoji,
+  ChannelHistory,
+  SearchResult
 } from "../interfaces";
 
-const stripLinkSymbols = (text: string): string => {
+export const stripLinkSymbols = (text: string): string => {
   // To send out live share links and render them correctly,
   // we append </> to the link text. However, this is not
   // handled by normal Slack clients, and should be removed before
   // we actually send the message via the RTM API
-
-  // This is hacky, and we will need a better solution - perhaps
-  // we could make all rendering manipulations on the extension side
-  // before sending the message to Vuejs for rendering
-  if (text.startsWith("<") && text.endsWith(">")) {
-    return text.substr(1, text.length - 2);
-  } else {
-    return text;
-  }
+  //
+  // Only a single link is stripped, since encoded mentions like
+  // <@U123> and <#C123> also start with < and end with >
+  const matched = text.match(/^<(https?:\/\/[^>|]+)>$/);
+  return !!matched ? matched[1] : text;
 };
 
 export class SlackChatProvider implements IChatProvider {
+  capabilities: ChatProviderCapabilities = {
+    threads: true,
+    threadBroadcast: true,
+    reactions: true,
+    editMessage: true,
+    deleteMessage: true,
+    fileUpload: false,
+    presence: true,
+    historicalUnreads: true,
+    createIMChannel: true,
+    search: true,
+    typing: true,
+    commands: true,
+    syncHistory: true
+  };
+
   private token: string;
   private client: SlackAPIClient;
   private messenger: SlackMessenger;
+  private providerKey: string;
+
+  constructor(private workspaceId?: string) {
+    // Workspaces other than the active one have a workspaceId,
+    // and are connected in the background
+    this.providerKey = !!workspaceId
+      ? getWorkspaceKey("slack", workspaceId)
+      : "slack";
+  }
 
   async getToken(): Promise<string> {
-    this.token = await ConfigHelper.getToken("slack");
+    this.token = !!this.workspaceId
+      ? await ConfigHelper.getWorkspaceToken("slack", this.workspaceId)
+      : await ConfigHelper.getToken("slack");
     this.client = new SlackAPIClient(this.token);
     return this.token;
   }
@@ -48,7 +74,7 @@ export class SlackChatProvider implements IChatProvider {
   }
 
   connect(): Promise<CurrentUser> {
-    this.messenger = new SlackMessenger(this.token);
+    this.messenger = new SlackMessenger(this.token, this.providerKey);
     return this.messenger.start();
   }
 
@@ -81,8 +107,15 @@ export class SlackChatProvider implements IChatProvider {
     }
   }
 
-  loadChannelHistory(channelId: string): Promise<ChannelMessages> {
-    return this.client.getConversationHistory(channelId);
+  loadChannelHistory(
+    channelId: string,
+    before?: string
+  ): Promise<ChannelHistory> {
+    return this.client.getConversationHistory(channelId, before);
+  }
+
+  loadNewMessages(channelId: string, after: string): Promise<ChannelHistory> {
+    return this.client.getNewConversationHistory(channelId, after);
   }
 
   getUserPrefs(): Promise<UserPreferences> {
@@ -116,49 +149,112 @@ export class SlackChatProvider implements IChatProvider {
     text: string,
     currentUserId: string,
     channelId: string,
-    parentTimestamp: string
-  ) {
+    parentTimestamp: string,
+    broadcast?: boolean,
+    clientMessageId?: string
+  ): Promise<string> {
     const cleanText = stripLinkSymbols(text);
-    return this.client.sendMessage({
-      channel: channelId,
-      text: cleanText,
-      thread_ts: parentTimestamp
-    });
+    return this.client
+      .sendMessage({
+        channel: channelId,
+        text: cleanText,
+        thread_ts: parentTimestamp,
+        reply_broadcast: !!broadcast,
+        client_msg_id: clientMessageId
+      })
+      .then((result: any) => result.ts);
+  }
+
+  markThread(
+    channelId: string,
+    parentTimestamp: string,
+    ts: string
+  ): Promise<void> {
+    return this.client
+      .markThread({ channel: channelId, thread_ts: parentTimestamp, ts })
+      .then(() => {});
   }
 
-  sendMessage(text: string, currentUserId: string, channelId: string) {
+  sendMessage(
+    text: string,
+    currentUserId: string,
+    channelId: string,
+    clientMessageId?: string
+  ): Promise<string> {
     // The rtm gives an error while sending messages. Might be related to
     // https://github.com/slackapi/node-slack-sdk/issues/527
     // https://github.com/slackapi/node-slack-sdk/issues/550
     //
     // So we use the webclient instead of
     // this.rtmClient.sendMessage(cleanText, id)
+    //
+    // The manager shows the message till the rtm echoes it, which
+    // has the same timestamp and client_msg_id
     const cleanText = stripLinkSymbols(text);
     return this.client
       .sendMessage({
         channel: channelId,
         text: cleanText,
-        thread_ts: undefined
+        thread_ts: undefined,
+        client_msg_id: clientMessageId
       })
-      .then((result: any) => {
-        // TODO: this is not the correct timestamp to attach, since the
-        // API might get delayed, because of network issues
-        let newMessages: ChannelMessages = {};
-        newMessages[result.ts] = {
-          userId: currentUserId,
-          timestamp: result.ts,
-          text,
-          content: null,
-          reactions: [],
-          replies: {}
-        };
-
-        vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGES, {
-          channelId,
-          messages: newMessages
-        });
+      .then((result: any) => result.ts);
+  }
+
+  editMessage(channelId: string, ts: string, text: string): Promise<void> {
+    // The store is updated with the message_changed event
+    const cleanText = stripLinkSymbols(text);
+    return this.client
+      .editMessage({ channel: channelId, ts, text: cleanText })
+      .then(() => {});
+  }
+
+  deleteMessage(channelId: string, ts: string): Promise<void> {
+    return this.client.deleteMessage({ channel: channelId, ts }).then(() => {});
+  }
+
+  addReaction(channelId: string, ts: string, name: string): Promise<void> {
+    // The store is updated with the reaction_added event
+    return this.client
+      .addReaction({
+        channel: channelId,
+        timestamp: ts,
+        name: stripColons(name)
+      })
+      .then(() => {});
+  }
+
+  removeReaction(channelId: string, ts: string, name: string): Promise<void> {
+    return this.client
+      .removeReaction({
+        channel: channelId,
+        timestamp: ts,
+        name: stripColons(name)
       })
-      .catch(error => console.error(error));
+      .then(() => {});
+  }
+
+  fetchCustomEmoji(): Promise<CustomEmoji> {
+    return this.client.getCustomEmoji();
+  }
+
+  searchMessages(query: string): Promise<SearchResult[]> {
+    return this.client.searchMessages(query);
+  }
+
+  fetchCommands(): Promise<string[]> {
+    return this.client.getCommands();
+  }
+
+  sendCommand(channelId: string, command: string, text: string): Promise<void> {
+    // The response of the command, if any, comes in as a message
+    return this.client
+      .sendCommand({ channel: channelId, command, text })
+      .then(() => {});
+  }
+
+  sendTyping(channelId: string): Promise<void> {
+    return this.messenger.sendTyping(channelId);
   }
 
   destroy(): Promise<void> {
@@ -12,14 +12,20 @@ import { SelfCommands } from "../constants";
 
 const RTMEvents = {
   AUTHENTICATED: "authenticated",
+  READY: "ready",
+  DISCONNECTED: "disconnected",
   MESSAGE: "message",
   ERROR: "unable_to_rtm_start",
   REACTION_ADDED: "reaction_added",
   REACTION_REMOVED: "reaction_removed",
   PRESENCE_CHANGE: "presence_change",
+  USER_TYPING: "user_typing",
   CHANNEL_MARKED: "channel_marked",
   GROUP_MARKED: "group_marked",
-  IM_MARKED: "im_marked"
+  IM_MARKED: "im_marked",
+  THREAD_MARKED: "thread_marked",
+  THREAD_SUBSCRIBED: "thread_subscribed",
+  THREAD_UNSUBSCRIBED: "thread_unsubscribed"
 };
 
 const EventSubTypes = {
@@ -30,11 +36,13 @@ const EventSubTypes = {
 
 class SlackMessenger {
   rtmClient: RTMClient;
+  isDisconnecting: boolean = false;
 
-  constructor(private token: string) {
+  constructor(private token: string, private providerKey: string) {
     // We can also use { useRtmConnect: false } for rtm.start
-    // instead of rtm.connect, which has more fields in the payload
-    let options: RTMClientOptions = {};
+    // instead of rtm.connect, which has more fields in the payload.
+    // Reconnects are done by the manager, with backoff.
+    let options: RTMClientOptions = { autoReconnect: false };
     const customAgent = ConfigHelper.getCustomAgent();
 
     if (!!customAgent) {
@@ -58,9 +66,8 @@ class SlackMessenger {
           break;
 
         case EventSubTypes.REPLIED:
-          // We ignore this type, since these events also show up as normal messages
-          // TODO: We might want to use some of these types (copied over from Slack docs):
-          // "You may also notice thread_subscribed, thread_unsubscribed, thread_marked update_thread_state event types"
+          // We ignore this type, since these events also show up as normal messages.
+          // Followed threads are updated with the thread_* events.
           break;
 
         default:
@@ -68,15 +75,17 @@ class SlackMessenger {
 
           if (!!thread_ts && !!ts && thread_ts !== ts) {
             // This is a thread reply
-            const { user, text, channel } = event;
+            const { user, text, channel, client_msg_id } = event;
             const reply: MessageReply = {
               userId: user,
               timestamp: ts,
-              text
+              text,
+              clientMessageId: client_msg_id
             };
             vscode.commands.executeCommand(
               SelfCommands.UPDATE_MESSAGE_REPLIES,
               {
+                provider: this.providerKey,
                 parentTimestamp: thread_ts,
                 channelId: channel,
                 reply
@@ -97,33 +106,36 @@ class SlackMessenger {
           }
       }
 
-      // On sending messages, this also gets called, which means we
-      // send duplicate messages to the webview.
+      // On sending messages, this also gets called. The manager replaces
+      // the local echo of the message, so there are no duplicates.
       vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGES, {
+        provider: this.providerKey,
         channelId: event.channel,
         messages: newMessages
       });
     });
 
     this.rtmClient.on(RTMEvents.REACTION_ADDED, event => {
-      const { user: userId, reaction: reactionName, item } = event;
+      const { user: userId, reaction, item } = event;
       const { channel: channelId, ts: msgTimestamp } = item;
       vscode.commands.executeCommand(SelfCommands.ADD_MESSAGE_REACTION, {
+        provider: this.providerKey,
         userId,
         channelId,
         msgTimestamp,
-        reactionName
+        reactionName: `:${reaction}:` // same as reactions from the history
       });
     });
 
     this.rtmClient.on(RTMEvents.REACTION_REMOVED, event => {
-      const { user: userId, reaction: reactionName, item } = event;
+      const { user: userId, reaction, item } = event;
       const { channel: channelId, ts: msgTimestamp } = item;
       vscode.commands.executeCommand(SelfCommands.REMOVE_MESSAGE_REACTION, {
+        provider: this.providerKey,
         userId,
         channelId,
         msgTimestamp,
-        reactionName
+        reactionName: `:${reaction}:`
       });
     });
 
@@ -131,14 +143,27 @@ class SlackMessenger {
       const { user: userId, presence } = event;
       const isOnline = presence === "active";
       vscode.commands.executeCommand(SelfCommands.UPDATE_USER_PRESENCE, {
+        provider: this.providerKey,
         userId,
         isOnline
       });
     });
 
+    this.rtmClient.on(RTMEvents.USER_TYPING, event => {
+      // There is no event when users stop typing, so this times out
+      const { user: userId, channel: channelId } = event;
+      vscode.commands.executeCommand(SelfCommands.UPDATE_TYPING, {
+        provider: this.providerKey,
+        channelId,
+        userId,
+        isTyping: true
+      });
+    });
+
     this.rtmClient.on(RTMEvents.CHANNEL_MARKED, event => {
       const { channel, ts, unread_count_display } = event;
       vscode.commands.executeCommand(SelfCommands.CHANNEL_MARKED, {
+        provider: this.providerKey,
         channelId: channel,
         readTimestamp: ts,
         unreadCount: unread_count_display
@@ -148,6 +173,7 @@ class SlackMessenger {
     this.rtmClient.on(RTMEvents.GROUP_MARKED, event => {
       const { channel, ts, unread_count_display } = event;
       vscode.commands.executeCommand(SelfCommands.CHANNEL_MARKED, {
+        provider: this.providerKey,
         channelId: channel,
         readTimestamp: ts,
         unreadCount: unread_count_display
@@ -157,11 +183,52 @@ class SlackMessenger {
     this.rtmClient.on(RTMEvents.IM_MARKED, event => {
       const { channel, ts, unread_count_display } = event;
       vscode.commands.executeCommand(SelfCommands.CHANNEL_MARKED, {
+        provider: this.providerKey,
         channelId: channel,
         readTimestamp: ts,
         unreadCount: unread_count_display
       });
     });
+
+    this.rtmClient.on(RTMEvents.THREAD_MARKED, event => {
+      this.handleThreadSubscription(event.subscription, true);
+    });
+
+    this.rtmClient.on(RTMEvents.THREAD_SUBSCRIBED, event => {
+      this.handleThreadSubscription(event.subscription, true);
+    });
+
+    this.rtmClient.on(RTMEvents.THREAD_UNSUBSCRIBED, event => {
+      this.handleThreadSubscription(event.subscription, false);
+    });
+
+    this.rtmClient.on(RTMEvents.READY, () => {
+      vscode.commands.executeCommand(SelfCommands.CONNECTED, {
+        provider: this.providerKey
+      });
+    });
+
+    this.rtmClient.on(RTMEvents.DISCONNECTED, () => {
+      // Disconnects that we asked for are not reconnected
+      if (!this.isDisconnecting) {
+        vscode.commands.executeCommand(SelfCommands.DISCONNECTED, {
+          provider: this.providerKey
+        });
+      }
+    });
+  }
+
+  handleThreadSubscription(subscription: any, isFollowed: boolean) {
+    const { channel, thread_ts, last_read } = subscription;
+    vscode.commands.executeCommand(SelfCommands.UPDATE_THREAD_STATE, {
+      provider: this.providerKey,
+      state: {
+        channelId: channel,
+        parentTimestamp: thread_ts,
+        readTimestamp: last_read,
+        isFollowed
+      }
+    });
   }
 
   isConnected(): boolean {
@@ -209,6 +276,7 @@ class SlackMessenger {
       if (text.startsWith("http")) {
         uri = vscode.Uri.parse(text);
         vscode.commands.executeCommand(SelfCommands.HANDLE_INCOMING_LINKS, {
+          provider: this.providerKey,
           senderId: userId,
           uri
         });
@@ -220,8 +288,13 @@ class SlackMessenger {
     this.rtmClient.subscribePresence(Object.keys(users));
   };
 
+  sendTyping(channelId: string): Promise<void> {
+    return this.rtmClient.sendTyping(channelId);
+  }
+
   disconnect() {
     if (!!this.rtmClient) {
+      this.isDisconnecting = true;
       return this.rtmClient.disconnect();
     }
   }
@@ -1,15 +1,45 @@
 import * as vscode from "vscode";
 import { SelfCommands } from "./constants";
-import { EventSource } from "./interfaces";
+import { EventSource, ConnectionState } from "./interfaces";
+import * as str from "./strings";
 
 const OCTICON = "$(comment-discussion)";
 const BASE_COMMAND = SelfCommands.CHANGE_CHANNEL;
 const COMPOUND_COMMAND = `${BASE_COMMAND}.status`;
 
+// States that need attention come first, when providers are combined
+const CONNECTION_STATES = [
+  ConnectionState.offline,
+  ConnectionState.reconnecting,
+  ConnectionState.connecting,
+  ConnectionState.connected
+];
+
+export const getCombinedState = (states: ConnectionState[]) => {
+  return (
+    CONNECTION_STATES.find(state => states.indexOf(state) >= 0) ||
+    ConnectionState.connected
+  );
+};
+
+export const getConnectionText = (state: ConnectionState): string => {
+  switch (state) {
+    case ConnectionState.connecting:
+      return str.CONNECTING;
+    case ConnectionState.reconnecting:
+      return str.RECONNECTING;
+    case ConnectionState.offline:
+      return str.OFFLINE;
+    default:
+      return "";
+  }
+};
+
 export default class StatusItem {
   item: vscode.StatusBarItem;
   disposable: vscode.Disposable;
   unreadCount: number = 0;
+  connectionState: ConnectionState = ConnectionState.connected;
   isVisible: Boolean = false;
 
   constructor() {
@@ -30,8 +60,21 @@ export default class StatusItem {
 
   updateCount(unreads: number) {
     this.unreadCount = unreads;
-    this.item.text = `${OCTICON} ${unreads} new`;
-    return this.unreadCount > 0 ? this.show() : this.hide();
+    return this.render();
+  }
+
+  updateConnectionState(state: ConnectionState) {
+    this.connectionState = state;
+    return this.render();
+  }
+
+  render() {
+    // Connection problems are shown instead of the unread count
+    const connectionText = getConnectionText(this.connectionState);
+    this.item.text = !!connectionText
+      ? `${OCTICON} ${connectionText}`
+      : `${OCTICON} ${this.unreadCount} new`;
+    return this.unreadCount > 0 || !!connectionText ? this.show() : this.hide();
   }
 
   show() {
@@ -3,74 +3,62 @@ import * as semver from "semver";
 import {
   Channel,
   CurrentUser,
-  ChannelMessages,
-  Messages,
-  Users,
   IStore,
-  User,
-  Team,
-  ChannelType,
   ChannelLabel,
-  UserPreferences,
-  IChatProvider,
-  MessageReply,
-  MessageReplies
+  WorkspaceAccount,
+  Mention
 } from "./interfaces";
-import StatusItem from "./status";
+import StatusItem, { getCombinedState, getConnectionText } from "./status";
 import Logger from "./logger";
-import { getExtensionVersion, uuidv4, isSuperset, difference } from "./utils";
-import { DiscordChatProvider } from "./discord";
-import { SlackChatProvider } from "./slack";
-import {
-  UnreadsTreeProvider,
-  ChannelTreeProvider,
-  GroupTreeProvider,
-  IMsTreeProvider,
-  OnlineUsersTreeProvider
-} from "./tree";
+import { getExtensionVersion, uuidv4, getWorkspaceKey } from "./utils";
+import ChatProviderManager, { getStateKey } from "./manager";
 import { OnboardingTreeProvider } from "./onboarding";
 import { SelfCommands } from "./constants";
+import ConfigHelper from "./config";
+import * as str from "./strings";
 
 const stateKeys = {
   EXTENSION_VERSION: "extensionVersion",
   INSTALLATION_ID: "installationId",
   LAST_CHANNEL_ID: "lastChannelId",
+  PROVIDERS: "providers",
+  WORKSPACE_ACCOUNTS: "workspaceAccounts",
+  // Before providers were saved separately
   CHANNELS: "channels",
   USER_INFO: "userInfo",
   USERS: "users"
 };
 
-// Large discord communities like Reactiflux are not getting saved
-// due to quota limits of context.globalState
-const STORAGE_SIZE_LIMIT = 100;
+const ALL_PROVIDERS = [
+  "slack",
+  "discord",
+  "mattermost",
+  "matrix",
+  "rocketchat",
+  "zulip",
+  "irc",
+  "mock"
+];
 
 export default class Store implements IStore, vscode.Disposable {
-  token: string;
   installationId: string;
   lastChannelId: string;
-  channels: Channel[] = [];
-  channelsFetchedAt: Date;
-  currentUserInfo: CurrentUser;
-  currentUserPrefs: UserPreferences = {};
-  users: Users = {};
-  usersFetchedAt: Date;
-  messages: Messages = {};
+  // Thread of the current channel that is open in the webview
+  lastThreadTimestamp: string;
+  // Search result of the current channel, which is scrolled to
+  lastHighlightTimestamp: string;
   statusItem: StatusItem;
-
-  unreadsTreeProvider: UnreadsTreeProvider;
-  channelsTreeProvider: ChannelTreeProvider;
-  imsTreeProvider: IMsTreeProvider;
-  groupsTreeProvider: GroupTreeProvider;
-  usersTreeProvider: OnlineUsersTreeProvider;
   onboardingTreeProvider: OnboardingTreeProvider;
 
-  chatProvider: IChatProvider;
+  // Chat providers that are connected at the same time
+  managers: { [providerName: string]: ChatProviderManager } = {};
+
+  // Slack workspaces, other than the active one, that are connected
+  // in the background so that their unreads are counted
+  backgroundManagers: { [key: string]: ChatProviderManager } = {};
 
   constructor(private context: vscode.ExtensionContext) {
     const { globalState } = context;
-    this.channels = globalState.get(stateKeys.CHANNELS);
-    this.currentUserInfo = globalState.get(stateKeys.USER_INFO);
-    this.users = globalState.get(stateKeys.USERS);
     this.lastChannelId = globalState.get(stateKeys.LAST_CHANNEL_ID);
     this.installationId = globalState.get(stateKeys.INSTALLATION_ID);
 
@@ -88,9 +76,11 @@ export default class Store implements IStore, vscode.Disposable {
       if (!!existingVersion) {
         if (semver.lt(existingVersion, "0.6.0")) {
           Logger.log("Migration for 0.6.0: add slack as default provider");
+          const userInfo: CurrentUser = globalState.get(stateKeys.USER_INFO);
 
-          if (!!this.currentUserInfo) {
-            this.currentUserInfo.provider = "slack";
+          if (!!userInfo) {
+            userInfo.provider = "slack";
+            globalState.update(stateKeys.USER_INFO, userInfo);
           }
         }
       }
@@ -99,42 +89,95 @@ export default class Store implements IStore, vscode.Disposable {
       const newstate = globalState.get(stateKeys.EXTENSION_VERSION);
       Logger.log(`Updated state to new version: ${newstate}`);
     }
-  }
 
-  getSelectedProvider() {
-    return !!this.currentUserInfo ? this.currentUserInfo.provider : undefined;
+    this.migrateProviderState();
   }
 
-  initializeToken = async (selectedProvider?: string) => {
-    if (!selectedProvider) {
-      selectedProvider = this.getSelectedProvider();
+  migrateProviderState() {
+    // State used to be saved for one provider only, so we move that
+    // to the keys of that provider
+    const { globalState } = this.context;
+    const userInfo: CurrentUser = globalState.get(stateKeys.USER_INFO);
+
+    if (!!userInfo && !!userInfo.provider) {
+      const { provider } = userInfo;
+      Logger.log(`Migrating state for ${provider}`);
+      [stateKeys.USER_INFO, stateKeys.CHANNELS, stateKeys.USERS].forEach(
+        key => {
+          globalState.update(getStateKey(key, provider), globalState.get(key));
+          globalState.update(key, undefined);
+        }
+      );
+      globalState.update(stateKeys.PROVIDERS, [provider]);
     }
+  }
+
+  getSelectedProviders(): string[] {
+    const providers: string[] = this.context.globalState.get(
+      stateKeys.PROVIDERS
+    );
+    return !!providers ? providers : [];
+  }
+
+  updateSelectedProviders(providers: string[]): Thenable<void> {
+    return this.context.globalState.update(stateKeys.PROVIDERS, providers);
+  }
+
+  getManager(key: string): ChatProviderManager | undefined {
+    // Realtime commands from background workspaces use the workspace key
+    return key in this.managers
+      ? this.managers[key]
+      : this.backgroundManagers[key];
+  }
+
+  getManagers(): ChatProviderManager[] {
+    return Object.keys(this.managers).map(name => this.managers[name]);
+  }
+
+  getBackgroundManagers(): ChatProviderManager[] {
+    return Object.keys(this.backgroundManagers).map(
+      key => this.backgroundManagers[key]
+    );
+  }
+
+  getManagerForChannel(channelId: string): ChatProviderManager | undefined {
+    return this.getManagers().find(manager => !!manager.getChannel(channelId));
+  }
+
+  getLastManager(): ChatProviderManager | undefined {
+    // The provider that owns the last opened channel
+    return this.getManagerForChannel(this.lastChannelId);
+  }
 
-    const ALL_PROVIDERS = ["slack", "discord"];
+  initializeTokens = async (newProvider?: string) => {
+    let providers = this.getSelectedProviders();
 
-    switch (selectedProvider) {
-      case "discord":
-        this.chatProvider = new DiscordChatProvider(this);
-        break;
-      case "slack":
-        this.chatProvider = new SlackChatProvider();
-        break;
+    if (!!newProvider && providers.indexOf(newProvider) < 0) {
+      providers = [...providers, newProvider];
     }
 
-    if (!!selectedProvider) {
-      this.usersTreeProvider = new OnlineUsersTreeProvider(selectedProvider);
-      this.unreadsTreeProvider = new UnreadsTreeProvider(selectedProvider);
-      this.channelsTreeProvider = new ChannelTreeProvider(selectedProvider);
-      this.groupsTreeProvider = new GroupTreeProvider(selectedProvider);
-      this.imsTreeProvider = new IMsTreeProvider(selectedProvider);
+    providers.filter(name => !(name in this.managers)).forEach(name => {
+      this.managers[name] = new ChatProviderManager(name, this, this.context);
+    });
+
+    await Promise.all(
+      this.getManagers()
+        .filter(manager => !manager.token)
+        .map(manager => manager.initializeToken())
+    );
 
+    // Providers without a token are signed out
+    this.getManagers()
+      .filter(manager => !manager.token)
+      .forEach(manager => this.removeManager(manager.providerName));
+    await this.updateSelectedProviders(Object.keys(this.managers));
+
+    if (this.hasToken()) {
       if (!!this.onboardingTreeProvider) {
         this.onboardingTreeProvider.dispose();
+        this.onboardingTreeProvider = undefined;
       }
-
-      const token = await this.chatProvider.getToken();
-      this.token = token;
-    } else {
+    } else if (!this.onboardingTreeProvider) {
       this.onboardingTreeProvider = new OnboardingTreeProvider();
     }
 
@@ -142,355 +185,284 @@ export default class Store implements IStore, vscode.Disposable {
       vscode.commands.executeCommand(
         "setContext",
         `chat:${provider}`,
-        provider === selectedProvider
+        provider in this.managers
       );
     });
   };
 
-  initializeProvider = async (): Promise<any> => {
-    const isConnected = this.chatProvider.isConnected();
-    const isAuthenticated = this.isAuthenticated();
-    let currentUser = this.currentUserInfo;
+  hasToken(): boolean {
+    return this.getManagers().some(manager => !!manager.token);
+  }
+
+  removeManager(providerName: string) {
+    const manager = this.managers[providerName];
 
-    if (!(isConnected && isAuthenticated)) {
-      currentUser = await this.chatProvider.connect();
-      this.updateCurrentUser(currentUser);
+    if (!!manager) {
+      manager.dispose();
+      delete this.managers[providerName];
     }
 
-    return currentUser;
-  };
-
-  generateInstallationId() {
-    const uuidStr = uuidv4();
-    const { globalState } = this.context;
-    globalState.update(stateKeys.INSTALLATION_ID, uuidStr);
-    this.installationId = uuidStr;
+    // Background workspaces are only connected with the active one
+    this.getBackgroundManagers()
+      .filter(manager => manager.providerName === providerName)
+      .forEach(manager => this.removeBackgroundManager(manager.key));
   }
 
-  clearAll() {
-    this.updateCurrentUser(undefined);
-    this.clearOldWorkspace();
-  }
+  removeBackgroundManager(key: string) {
+    const manager = this.backgroundManagers[key];
 
-  clearOldWorkspace() {
-    // This clears workspace info, does not clear current user
-    this.updateLastChannelId(undefined);
-    this.updateChannels([]);
-    this.updateUsers({});
-    this.usersFetchedAt = undefined;
-    this.channelsFetchedAt = undefined;
-    this.messages = {};
-    this.token = undefined;
-
-    if (!!this.chatProvider) {
-      this.chatProvider.destroy();
+    if (!!manager) {
+      manager.dispose();
+      delete this.backgroundManagers[key];
     }
   }
 
-  updateAllUI() {
-    this.updateUnreadCount();
-    this.updateTreeViews();
-    this.updateWebviewUI();
+  getWorkspaceAccounts(): WorkspaceAccount[] {
+    const accounts: WorkspaceAccount[] = this.context.globalState.get(
+      stateKeys.WORKSPACE_ACCOUNTS
+    );
+    return !!accounts ? accounts : [];
   }
 
-  dispose() {
-    this.statusItem.dispose();
-    this.unreadsTreeProvider.dispose();
-    this.channelsTreeProvider.dispose();
-    this.groupsTreeProvider.dispose();
-    this.imsTreeProvider.dispose();
-    this.usersTreeProvider.dispose();
+  updateWorkspaceAccounts(accounts: WorkspaceAccount[]): Thenable<void> {
+    return this.context.globalState.update(
+      stateKeys.WORKSPACE_ACCOUNTS,
+      accounts
+    );
   }
 
-  isAuthenticated() {
-    return !!this.currentUserInfo && !!this.currentUserInfo.id;
-  }
+  getActiveWorkspaceId(): string | undefined {
+    const manager = this.getManager("slack");
 
-  getChannel(channelId: string): Channel {
-    return this.channels.find(channel => channel.id === channelId);
+    if (!!manager && manager.isAuthenticated()) {
+      return manager.currentUserInfo.currentTeamId;
+    }
   }
 
-  isChannelMuted(channelId: string): boolean {
-    const { mutedChannels } = this.currentUserPrefs;
-    return !!mutedChannels && mutedChannels.indexOf(channelId) >= 0;
+  getWorkspaceUnreads(workspaceId: string): number {
+    const manager =
+      workspaceId === this.getActiveWorkspaceId()
+        ? this.getManager("slack")
+        : this.backgroundManagers[getWorkspaceKey("slack", workspaceId)];
+    return !!manager ? manager.getTotalUnreads() : 0;
   }
 
-  getChannelLabels(): ChannelLabel[] {
-    return this.channels.map(channel => {
-      const unread = this.getUnreadCount(channel);
-      const { name, type, id } = channel;
-      const isMuted = this.isChannelMuted(id);
-      let isOnline = false;
-
-      if (type === ChannelType.im) {
-        const relatedUserId = Object.keys(this.users).find(value => {
-          const user = this.users[value];
-          const { name: username } = user;
-          // Same issue as getIMChannel(), so we handle both
-          return `@${username}` === name || username === name;
-        });
-
-        if (!!relatedUserId) {
-          const relatedUser = this.users[relatedUserId];
-          isOnline = relatedUser.isOnline;
-        }
-      }
-
-      let label;
+  async saveWorkspaceAccount(manager: ChatProviderManager) {
+    // The active workspace is saved, with its token, so that we can
+    // switch back to it later
+    const { currentTeamId, teams } = manager.currentUserInfo;
+    const team = teams.find(team => team.id === currentTeamId);
+    const savedToken = await ConfigHelper.getWorkspaceToken(
+      "slack",
+      currentTeamId
+    );
 
-      if (unread > 0) {
-        label = `${name} ${unread > 0 ? `(${unread} new)` : ""}`;
-      } else if (isMuted) {
-        label = `${name} (muted)`;
-      } else {
-        label = `${name}`;
-      }
+    if (savedToken !== manager.token) {
+      await ConfigHelper.setWorkspaceToken(
+        manager.token,
+        "slack",
+        currentTeamId
+      );
+    }
 
-      return {
-        channel,
-        unread,
-        label,
-        isOnline
-      };
-    });
-  }
+    const accounts = this.getWorkspaceAccounts();
+    const existing = accounts.find(account => account.id === currentTeamId);
 
-  getIMChannel(user: User): Channel | undefined {
-    // Hacky implementation to tackle chat provider differences
-    // Slack: DM channels look like `@name`
-    // Discord: DM channels look like `name`
-    const { name } = user;
-    return this.channels.find(
-      channel => channel.name === `@${name}` || channel.name === name
-    );
+    if (!!team && !existing) {
+      const { id, name } = team;
+      await this.updateWorkspaceAccounts([...accounts, { id, name }]);
+    }
   }
 
-  createIMChannel(user: User): Promise<Channel> {
-    return this.chatProvider.createIMChannel(user).then(channel => {
-      this.updateChannel(channel);
-      return channel;
+  renameWorkspaceAccount(workspaceId: string, label: string): Thenable<void> {
+    const accounts = this.getWorkspaceAccounts().map(account => {
+      return account.id === workspaceId ? { ...account, label } : account;
     });
+    return this.updateWorkspaceAccounts(accounts);
   }
 
-  updateWebviewUI() {
-    const channel = this.getChannel(this.lastChannelId);
-    const messages =
-      this.lastChannelId in this.messages
-        ? this.messages[this.lastChannelId]
-        : {};
-
-    vscode.commands.executeCommand(SelfCommands.SEND_TO_WEBVIEW, {
-      uiMessage: {
-        messages,
-        users: this.users,
-        currentUser: this.currentUserInfo,
-        channel,
-        statusText: ""
-      }
-    });
-  }
+  async removeWorkspaceAccount(workspaceId: string) {
+    const accounts = this.getWorkspaceAccounts().filter(
+      account => account.id !== workspaceId
+    );
+    await this.updateWorkspaceAccounts(accounts);
+    await ConfigHelper.clearWorkspaceToken("slack", workspaceId);
 
-  getUnreadCount(channel: Channel): number {
-    const { id, readTimestamp, unreadCount } = channel;
+    const key = getWorkspaceKey("slack", workspaceId);
+    const manager = this.backgroundManagers[key];
 
-    if (this.isChannelMuted(id)) {
-      // This channel is muted, so return 0
-      return 0;
+    if (!!manager) {
+      manager.clearAll();
+      this.removeBackgroundManager(key);
+      this.updateUnreadCount();
     }
-
-    const messages = id in this.messages ? this.messages[id] : {};
-    const unreadMessages = Object.keys(messages).filter(ts => {
-      const isDifferentUser = messages[ts].userId !== this.currentUserInfo.id;
-      const isNewTimestamp = !!readTimestamp ? +ts > +readTimestamp : false;
-      return isDifferentUser && isNewTimestamp;
-    });
-    return unreadCount ? unreadCount : unreadMessages.length;
   }
 
-  updateTreeViews() {
-    if (this.isAuthenticated()) {
-      const channelLabels = this.getChannelLabels();
-      this.unreadsTreeProvider.update(channelLabels);
-      this.channelsTreeProvider.update(channelLabels);
-      this.groupsTreeProvider.update(channelLabels);
-      this.imsTreeProvider.update(channelLabels);
+  initializeWorkspaceAccounts = async () => {
+    // Saved workspaces, other than the active one, get a manager that
+    // is connected in the background
+    const activeId = this.getActiveWorkspaceId();
 
-      // We could possibly split this function for channel-updates and user-updates
-      // to avoid extra UI refresh calls.
-      const imChannels = {};
-      Object.keys(this.users).forEach(userId => {
-        const im = this.getIMChannel(this.users[userId]);
+    if (!!activeId) {
+      await this.saveWorkspaceAccount(this.getManager("slack"));
+    }
 
-        if (!!im) {
-          imChannels[userId] = im;
-        }
+    const accounts = !!activeId
+      ? this.getWorkspaceAccounts().filter(account => account.id !== activeId)
+      : [];
+    const keys = accounts.map(account => getWorkspaceKey("slack", account.id));
+
+    Object.keys(this.backgroundManagers)
+      .filter(key => keys.indexOf(key) < 0)
+      .forEach(key => this.removeBackgroundManager(key));
+
+    const newManagers = accounts
+      .filter(account => !this.getManager(getWorkspaceKey("slack", account.id)))
+      .map(account => {
+        const manager = new ChatProviderManager(
+          "slack",
+          this,
+          this.context,
+          account.id
+        );
+        this.backgroundManagers[manager.key] = manager;
+        return manager;
       });
 
-      this.usersTreeProvider.updateData(
-        this.currentUserInfo,
-        this.users,
-        imChannels
-      );
-    }
+    await Promise.all(newManagers.map(manager => manager.initializeToken()));
+
+    newManagers
+      .filter(manager => !manager.token)
+      .forEach(manager => this.removeBackgroundManager(manager.key));
+  };
+
+  generateInstallationId() {
+    const uuidStr = uuidv4();
+    const { globalState } = this.context;
+    globalState.update(stateKeys.INSTALLATION_ID, uuidStr);
+    this.installationId = uuidStr;
   }
 
-  updateUnreadCount() {
-    const unreads = this.channels.map(channel => this.getUnreadCount(channel));
-    const totalUnreads = unreads.reduce((a, b) => a + b, 0);
-    this.statusItem.updateCount(totalUnreads);
+  clearAll() {
+    this.getManagers().forEach(manager => manager.clearAll());
+    this.getBackgroundManagers().forEach(manager => {
+      manager.clearAll();
+      this.removeBackgroundManager(manager.key);
+    });
+    this.updateLastChannelId(undefined);
   }
 
-  updateUserPresence = (userId: string, isOnline: boolean) => {
-    if (userId in this.users) {
-      this.users[userId] = {
-        ...this.users[userId],
-        isOnline
-      };
+  clearProvider(providerName: string) {
+    const manager = this.getManager(providerName);
 
-      this.updateTreeViews();
+    if (!!manager) {
+      manager.clearAll();
     }
-  };
 
-  updateUsers = (users): Thenable<void> => {
-    this.users = users;
-
-    if (Object.keys(this.users).length <= STORAGE_SIZE_LIMIT) {
-      return this.context.globalState.update(stateKeys.USERS, this.users);
+    if (!this.getLastManager()) {
+      this.updateLastChannelId(undefined);
     }
-  };
-
-  updateUsersFetchedAt = () => {
-    this.usersFetchedAt = new Date();
-  };
+  }
 
-  updateChannelsFetchedAt = () => {
-    this.channelsFetchedAt = new Date();
-  };
+  updateAllUI() {
+    this.updateUnreadCount();
+    this.getManagers().forEach(manager => manager.updateTreeViews());
+    this.updateWebviewUI();
+  }
 
-  updateChannels = channels => {
-    this.channels = channels;
+  dispose() {
+    this.statusItem.dispose();
+    this.getManagers().forEach(manager => manager.dispose());
+    this.getBackgroundManagers().forEach(manager => manager.dispose());
+  }
 
-    if (this.channels.length <= STORAGE_SIZE_LIMIT) {
-      this.context.globalState.update(stateKeys.CHANNELS, this.channels);
-    }
-  };
+  isAuthenticated() {
+    return this.getManagers().some(manager => manager.isAuthenticated());
+  }
 
-  updateChannel = (newChannel: Channel) => {
-    // Adds/updates channel in this.channels
-    let found = false;
-    let updatedChannels = this.channels.map(channel => {
-      const { id } = channel;
-
-      if (id === newChannel.id) {
-        found = true;
-        return {
-          ...channel,
-          ...newChannel
-        };
-      } else {
-        return channel;
-      }
-    });
+  getChannel(channelId: string): Channel {
+    const manager = this.getManagerForChannel(channelId);
+    return !!manager ? manager.getChannel(channelId) : undefined;
+  }
 
-    if (!found) {
-      updatedChannels = [...updatedChannels, newChannel];
-    }
+  getChannelLabels(): ChannelLabel[] {
+    return this.getManagers()
+      .filter(manager => manager.isAuthenticated())
+      .map(manager => manager.getChannelLabels())
+      .reduce((a, b) => [...a, ...b], []);
+  }
 
-    this.updateChannels(updatedChannels);
-    this.updateTreeViews();
-  };
+  updateWebviewUI() {
+    const manager = this.getLastManager();
 
-  fetchUsers = (): Promise<Users> => {
-    return this.chatProvider.fetchUsers().then((users: Users) => {
-      let usersWithPresence: Users = {};
-
-      Object.keys(users).forEach(userId => {
-        // This handles two different chat providers:
-        // In slack, we will get isOnline as undefined, because this API
-        //    does not know about user presence
-        // In discord, we will get true/false
-        const existingUser = userId in this.users ? this.users[userId] : null;
-        const newUser = users[userId];
-        let calculatedIsOnline: boolean;
-
-        if (newUser.isOnline !== undefined) {
-          calculatedIsOnline = newUser.isOnline;
-        } else {
-          calculatedIsOnline = !!existingUser ? existingUser.isOnline : false;
+    if (!!manager) {
+      const { lastChannelId } = this;
+      const {
+        messages,
+        users,
+        channels,
+        currentUserInfo,
+        customEmoji,
+        commands
+      } = manager;
+      const channel = manager.getChannel(lastChannelId);
+
+      vscode.commands.executeCommand(SelfCommands.SEND_TO_WEBVIEW, {
+        uiMessage: {
+          messages: lastChannelId in messages ? messages[lastChannelId] : {},
+          users,
+          currentUser: currentUserInfo,
+          channel,
+          channels,
+          capabilities: manager.getCapabilities(),
+          customEmoji,
+          commands,
+          connectionState: manager.connection.state,
+          hasMoreHistory: !!manager.hasMoreHistory[lastChannelId],
+          threadTimestamp: this.lastThreadTimestamp,
+          highlightTimestamp: this.lastHighlightTimestamp,
+          draft: manager.getDraft(lastChannelId),
+          threadDraft: !!this.lastThreadTimestamp
+            ? manager.getDraft(lastChannelId, this.lastThreadTimestamp)
+            : "",
+          draftMentions: manager.getDraftMentions(lastChannelId),
+          threadDraftMentions: !!this.lastThreadTimestamp
+            ? manager.getDraftMentions(lastChannelId, this.lastThreadTimestamp)
+            : [],
+          statusText:
+            getConnectionText(manager.connection.state) ||
+            this.getTypingText(manager, lastChannelId)
         }
-
-        usersWithPresence[userId] = {
-          ...users[userId],
-          isOnline: calculatedIsOnline
-        };
       });
-
-      this.updateUsers(usersWithPresence);
-      this.updateUsersFetchedAt();
-      return users;
-    });
-  };
-
-  fetchChannels = (): Promise<Channel[]> => {
-    return this.chatProvider.fetchChannels(this.users).then(channels => {
-      this.updateChannels(channels);
-      this.updateChannelsFetchedAt();
-      this.updateTreeViews();
-
-      // We have to fetch twice here because Slack does not return the
-      // historical unread counts for channels in the list API.
-      const promises = channels.map(channel =>
-        this.chatProvider
-          .fetchChannelInfo(channel)
-          .then((newChannel: Channel) => {
-            return this.updateChannel(newChannel);
-          })
-      );
-
-      Promise.all(promises).then(() => this.updateUnreadCount());
-      return channels;
-    });
-  };
-
-  shouldFetchNew = (lastFetchedAt: Date): boolean => {
-    if (!lastFetchedAt) {
-      return true;
     }
+  }
 
-    const now = new Date();
-    const difference = now.valueOf() - lastFetchedAt.valueOf();
-    const FETCH_THRESHOLD = 15 * 60 * 1000; // 15-mins
-    return difference > FETCH_THRESHOLD;
-  };
-
-  getUsersPromise(): Promise<Users> {
-    function isNotEmpty(obj) {
-      return Object.keys(obj).length !== 0;
-    }
+  getTypingText(manager: ChatProviderManager, channelId: string): string {
+    const names = manager.getTypingNames(channelId);
+    return names.length > 0 ? str.TYPING(names) : "";
+  }
 
-    return isNotEmpty(this.users)
-      ? new Promise(resolve => {
-          if (this.shouldFetchNew(this.usersFetchedAt)) {
-            this.fetchUsers(); // async update
-          }
-          resolve(this.users);
-        })
-      : this.fetchUsers();
+  updateUnreadCount() {
+    // Unreads of all providers, and background workspaces, are shown together
+    const managers = [...this.getManagers(), ...this.getBackgroundManagers()];
+    const unreads = managers.map(manager => manager.getTotalUnreads());
+    const totalUnreads = unreads.reduce((a, b) => a + b, 0);
+    this.statusItem.updateCount(totalUnreads);
   }
 
-  getChannelsPromise(): Promise<Channel[]> {
-    // This assumes that users are available
-    return !!this.channels
-      ? new Promise(resolve => {
-          if (this.shouldFetchNew(this.channelsFetchedAt)) {
-            this.fetchChannels(); // async update
-          }
-          resolve(this.channels);
-        })
-      : this.fetchChannels();
+  updateConnectionState() {
+    const managers = [...this.getManagers(), ...this.getBackgroundManagers()];
+    const states = managers.map(manager => manager.connection.state);
+    this.statusItem.updateConnectionState(getCombinedState(states));
+    this.updateWebviewUI();
   }
 
   updateLastChannelId = (channelId: string): Thenable<void> => {
+    if (channelId !== this.lastChannelId) {
+      this.lastThreadTimestamp = undefined;
+      this.lastHighlightTimestamp = undefined;
+    }
+
     this.lastChannelId = channelId;
     return this.context.globalState.update(
       stateKeys.LAST_CHANNEL_ID,
@@ -498,246 +470,59 @@ export default class Store implements IStore, vscode.Disposable {
     );
   };
 
-  updateCurrentUser = (userInfo: CurrentUser): Thenable<void> => {
-    // In the case of discord, we need to know the current team (guild)
-    // If that is available in the store, we should use that
-    if (!userInfo) {
-      // Resetting userInfo
-      this.currentUserInfo = userInfo;
-    } else {
-      let currentTeamId: string = !!this.currentUserInfo
-        ? this.currentUserInfo.currentTeamId
-        : undefined;
-
-      if (!!userInfo.currentTeamId) {
-        currentTeamId = userInfo.currentTeamId;
-      }
-
-      this.currentUserInfo = { ...userInfo, currentTeamId };
-    }
-
-    return this.context.globalState.update(
-      stateKeys.USER_INFO,
-      this.currentUserInfo
-    );
-  };
-
-  updateCurrentWorkspace = (team: Team): Thenable<void> => {
-    const newCurrentUser: CurrentUser = {
-      ...this.currentUserInfo,
-      currentTeamId: team.id
-    };
-    return this.updateCurrentUser(newCurrentUser);
-  };
-
-  updateMessages = (channelId: string, newMessages: ChannelMessages) => {
-    const channelMessages = { ...this.messages[channelId], ...newMessages };
-    this.messages[channelId] = channelMessages;
-
-    // Remove undefined, after message deleted
-    Object.keys(this.messages[channelId]).forEach(key => {
-      if (typeof this.messages[channelId][key] === "undefined") {
-        delete this.messages[channelId][key];
-      }
-    });
-
-    // Check if we have all users. Since there is not bots.list API
-    // method, it is possible that a bot user is not in our store
-    const userIds = new Set(
-      (<any>Object)
-        .values(this.messages[channelId])
-        .map(message => message.userId)
-    );
-    const allIds = new Set(Object.keys(this.users));
-    if (!isSuperset(allIds, userIds)) {
-      this.fillUpUsers(difference(userIds, allIds));
-    }
-
-    this.updateAllUI();
-  };
-
-  fillUpUsers(missingIds: Set<any>): Promise<void> {
-    // missingIds are user/bot ids that we don't have in the store. We will
-    // fetch their details, and then update the UI.
-    const usersCopy = { ...this.users };
-    let ids = Array.from(missingIds);
-
-    return Promise.all(
-      ids.map(userId => {
-        return this.chatProvider.fetchUserInfo(userId).then((user: User) => {
-          const { id } = user;
-          usersCopy[id] = user;
-        });
-      })
-    ).then(() => {
-      this.users = usersCopy;
-      return this.updateWebviewUI();
-    });
-  }
-
   loadChannelHistory(channelId: string): Promise<void> {
-    return this.chatProvider
-      .loadChannelHistory(channelId)
-      .then(messages => this.updateMessages(channelId, messages))
-      .catch(error => console.error(error));
+    const manager = this.getManagerForChannel(channelId);
+    return !!manager
+      ? manager.loadChannelHistory(channelId)
+      : Promise.resolve();
   }
 
-  updateUserPrefs() {
-    return this.chatProvider.getUserPrefs().then(response => {
-      // We could also save the muted channels to local storage
-      this.currentUserPrefs = response;
-      this.updateUnreadCount();
-    });
+  loadOlderHistory(channelId: string): Promise<void> {
+    const manager = this.getManagerForChannel(channelId);
+    return !!manager ? manager.loadOlderHistory(channelId) : Promise.resolve();
   }
 
-  getLastTimestamp(): string {
-    const id = this.lastChannelId;
-    const channelMessages = id in this.messages ? this.messages[id] : {};
-    const timestamps = Object.keys(channelMessages).map(tsString => +tsString);
+  updateDraft(
+    channelId: string,
+    parentTimestamp: string,
+    text: string,
+    mentions: Mention[]
+  ) {
+    const manager = this.getManagerForChannel(channelId);
 
-    if (timestamps.length > 0) {
-      return Math.max(...timestamps).toString();
+    if (!!manager) {
+      manager.updateDraft(channelId, parentTimestamp, text, mentions);
     }
   }
 
   updateReadMarker(): void {
-    const channelId = this.lastChannelId;
-    const channel = this.getChannel(channelId);
-    const lastTs = this.getLastTimestamp();
-
-    if (channel && lastTs) {
-      const { readTimestamp } = channel;
-      const hasNewerMsgs = +readTimestamp < +lastTs;
-
-      if (!readTimestamp || hasNewerMsgs) {
-        const channel = this.getChannel(channelId);
-        const incremented = (+lastTs + 1).toString(); // Slack API workaround
-        this.chatProvider.markChannel(channel, incremented).then(channel => {
-          this.updateChannel(channel);
-          this.updateAllUI();
-        });
-      }
-    }
-  }
+    const manager = this.getLastManager();
 
-  addReaction(
-    channelId: string,
-    msgTimestamp: string,
-    userId: string,
-    reactionName: string
-  ) {
-    if (channelId in this.messages) {
-      const channelMessages = this.messages[channelId];
-
-      if (msgTimestamp in channelMessages) {
-        const message = channelMessages[msgTimestamp];
-        let { reactions } = message;
-        const existing = reactions.find(r => r.name === reactionName);
-
-        if (existing) {
-          reactions = reactions.map(r => {
-            if (r.name === reactionName) {
-              return {
-                ...existing,
-                count: existing.count + 1,
-                userIds: [...existing.userIds, userId]
-              };
-            } else {
-              return { ...r };
-            }
-          });
-        } else {
-          reactions = [
-            ...reactions,
-            { name: reactionName, userIds: [userId], count: 1 }
-          ];
-        }
+    if (!!manager) {
+      manager.updateReadMarker(this.lastChannelId);
 
-        const newMessage = {
-          ...message,
-          reactions
-        };
-        const newMessages = {};
-        newMessages[msgTimestamp] = newMessage;
-        this.updateMessages(channelId, newMessages);
+      if (!!this.lastThreadTimestamp) {
+        manager.markThreadRead(this.lastChannelId, this.lastThreadTimestamp);
       }
     }
   }
 
-  removeReaction(
-    channelId: string,
-    msgTimestamp: string,
-    userId: string,
-    reactionName: string
-  ) {
-    if (channelId in this.messages) {
-      const channelMessages = this.messages[channelId];
-
-      if (msgTimestamp in channelMessages) {
-        const message = channelMessages[msgTimestamp];
-        let { reactions } = message;
-        reactions = reactions
-          .map(r => {
-            if (r.name === reactionName) {
-              return {
-                ...r,
-                count: r.count - 1,
-                userIds: r.userIds.filter(u => u !== userId)
-              };
-            } else {
-              return { ...r };
-            }
-          })
-          .filter(r => r.count > 0);
-
-        const newMessage = {
-          ...message,
-          reactions
-        };
-        const newMessages = {};
-        newMessages[msgTimestamp] = newMessage;
-        this.updateMessages(channelId, newMessages);
-      }
-    }
+  updateLastThreadTimestamp(parentTimestamp: string) {
+    this.lastThreadTimestamp = parentTimestamp;
+    this.updateWebviewUI();
+  }
+
+  updateLastHighlightTimestamp(timestamp: string) {
+    this.lastHighlightTimestamp = timestamp;
+    this.updateWebviewUI();
   }
 
   fetchThreadReplies(parentTimestamp: string) {
     // Assume this is the current channel
-    const currentChannelId = this.lastChannelId;
-    return this.chatProvider
-      .fetchThreadReplies(currentChannelId, parentTimestamp)
-      .then(message => {
-        let messages = {};
-        messages[parentTimestamp] = message;
-        this.updateMessages(currentChannelId, messages);
-      });
-  }
+    const manager = this.getLastManager();
 
-  updateMessageReply(
-    parentTimestamp: string,
-    channelId: string,
-    reply: MessageReply
-  ) {
-    // We need to have the message in our store, else we
-    // ignore this reply
-    const messages = channelId in this.messages ? this.messages[channelId] : {};
-    const message =
-      parentTimestamp in messages ? messages[parentTimestamp] : undefined;
-
-    if (!!message) {
-      let newMessages = {};
-      const replyTs = reply.timestamp;
-      let replies: MessageReplies = { ...message.replies };
-      replies[replyTs] = { ...reply };
-      newMessages[parentTimestamp] = {
-        ...message,
-        replies
-      };
-      this.updateMessages(channelId, newMessages);
+    if (!!manager) {
+      return manager.fetchThreadReplies(this.lastChannelId, parentTimestamp);
     }
   }
-
-  runAuthTest(): Promise<string> {
-    return this.chatProvider.getAuthTest();
-  }
 }
@@ -1,16 +1,65 @@
 export const CHANGE_CHANNEL_TITLE = "Select a channel";
 export const CHANGE_WORKSPACE_TITLE = "Select a workspace";
 export const CHANGE_PROVIDER_TITLE = "Select a provider";
+export const MANAGE_WORKSPACES_TITLE = "Select a Slack workspace";
+export const ADD_WORKSPACE = "Add a Slack workspace";
+export const SWITCH_WORKSPACE = "Switch to workspace";
+export const RENAME_WORKSPACE = "Rename workspace";
+export const REMOVE_WORKSPACE = "Remove workspace";
+export const ACTIVE_WORKSPACE = "Active";
+export const WORKSPACE_UNREADS = (count: number) => `${count} new`;
 export const RELOAD_CHANNELS = "Reload Channels";
+export const SEARCH_PLACEHOLDER = "Search messages";
+export const SEARCH_RESULTS_TITLE = (query: string) =>
+  `Messages with "${query}"`;
+export const NO_SEARCH_RESULTS = (query: string) =>
+  `No messages found for "${query}".`;
 export const TOKEN_NOT_FOUND = "Setup Chat to work for your account.";
 export const SETUP_SLACK = "Setup Slack";
 export const SETUP_DISCORD = "Setup Discord";
+export const SETUP_MATTERMOST = "Setup Mattermost";
+export const SETUP_MATRIX = "Setup Matrix";
+export const SETUP_ROCKETCHAT = "Setup Rocket.Chat";
+export const SETUP_ZULIP = "Setup Zulip";
+export const SETUP_IRC = "Setup IRC";
+export const SETUP_MOCK = "Try a mock workspace";
 export const ADD_NEW_PROVIDER = "Add new provider";
 export const REPORT_ISSUE = "Report issue";
+export const NOT_SUPPORTED = (provider: string, feature: string) =>
+  `${provider} does not support ${feature}.`;
+export const FEATURE_THREADS = "thread replies";
+export const FEATURE_EDIT_MESSAGE = "editing messages";
+export const FEATURE_DELETE_MESSAGE = "deleting messages";
+export const FEATURE_REACTIONS = "reactions";
+export const FEATURE_LIVE_SHARE = "Live Share invites";
+export const TYPING = (names: string[]) => {
+  if (names.length === 1) {
+    return `${names[0]} is typing...`;
+  } else if (names.length === 2) {
+    return `${names[0]} and ${names[1]} are typing...`;
+  } else {
+    return "Several people are typing...";
+  }
+};
+export const CONNECTING = "Connecting...";
+export const RECONNECTING = "Reconnecting...";
+export const OFFLINE = "Offline, waiting to reconnect...";
+export const TOKEN_REJECTED = (provider: string) =>
+  `${provider} did not accept the token. Run the "Configure Access Token" command to sign in again.`;
+export const DELETE_MESSAGE_CONFIRM = "Delete this message?";
+export const DELETE_MESSAGE = "Delete";
+export const FEATURE_CREATE_IM_CHANNEL = "starting direct messages";
 export const TOKEN_PLACEHOLDER = "Paste token here";
+export const SERVER_URL_PLACEHOLDER =
+  "Server url, like https://chat.example.com";
 export const AUTH_FAILED_MESSAGE =
   "Sign in failed. Help us get better by reporting an issue.";
 export const INVALID_COMMAND = text => `${text} is not a recognised command.`;
+export const COMMAND_FAILED = text => `${text} could not be sent.`;
+export const COMMAND_EXISTS = text => `${text} is already a command.`;
+export const PROVIDER_NOT_CONNECTED = provider =>
+  `${provider} is not connected.`;
+export const USER_NOT_FOUND = userId => `User ${userId} was not found.`;
 export const UPLOADED_FILE = link => `uploaded a file: ${link}`;
 export const LIVE_REQUEST_MESSAGE = "wants to start a Live Share session";
 export const LIVE_SHARE_INVITE = name =>
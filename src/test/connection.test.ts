@@ -0,0 +1,88 @@
+import * as assert from "assert";
+import ConnectionManager, {
+  getReconnectDelay,
+  isAuthError
+} from "../connection";
+import StatusItem, { getCombinedState } from "../status";
+import { ConnectionState } from "../interfaces";
+import * as str from "../strings";
+
+suite("Connection tests", function() {
+  test("Reconnect delays double up to a maximum", function() {
+    assert.equal(getReconnectDelay(0), 1000);
+    assert.equal(getReconnectDelay(3), 8000);
+    assert.equal(getReconnectDelay(20), 5 * 60 * 1000);
+  });
+
+  test("Drops are reconnected once till the connection is back", function() {
+    const states = [];
+    const connection = new ConnectionManager(
+      "slack",
+      () => Promise.resolve(),
+      state => states.push(state)
+    );
+    connection.onConnected();
+    connection.onDisconnected();
+    connection.onDisconnected();
+    assert.equal(connection.state, ConnectionState.offline);
+    assert.equal(connection.attempts, 1);
+    assert.ok(connection.isReconnecting());
+
+    // The socket library can be back before our attempt
+    connection.onConnected();
+    assert.equal(connection.attempts, 0);
+    assert.ok(!connection.isReconnecting());
+    assert.deepEqual(states, [
+      ConnectionState.connected,
+      ConnectionState.offline,
+      ConnectionState.connected
+    ]);
+    connection.dispose();
+  });
+
+  test("Invalid tokens are not reconnected", function() {
+    assert.ok(isAuthError({ data: { error: "token_revoked" } }));
+    assert.ok(isAuthError({ statusCode: 401, error: {} }));
+    assert.ok(isAuthError({ statusCode: 401, error: { errcode: "x" } }));
+    assert.ok(!isAuthError(new Error("socket hang up")));
+    assert.ok(!isAuthError({ statusCode: 502, error: "Bad Gateway" }));
+
+    const states = [];
+    const connection = new ConnectionManager(
+      "mattermost",
+      () => Promise.resolve(),
+      state => states.push(state)
+    );
+    connection.onConnected();
+    connection.onConnectFailed({ statusCode: 401 });
+    assert.equal(connection.state, ConnectionState.offline);
+    assert.ok(!connection.isReconnecting());
+
+    // The socket closing after the failure does not try again
+    connection.onDisconnected();
+    assert.ok(!connection.isReconnecting());
+
+    // Signing in again connects as usual
+    connection.reset();
+    connection.onConnectFailed(new Error("socket hang up"));
+    assert.ok(connection.isReconnecting());
+    connection.dispose();
+  });
+
+  test("Status item shows connection problems over unreads", function() {
+    const { offline, reconnecting, connected } = ConnectionState;
+    assert.equal(getCombinedState([connected, offline, reconnecting]), offline);
+    assert.equal(getCombinedState([]), connected);
+
+    const statusItem = new StatusItem();
+    statusItem.updateCount(2);
+    assert.ok(statusItem.item.text.endsWith("2 new"));
+    statusItem.updateConnectionState(reconnecting);
+    assert.ok(statusItem.item.text.endsWith(str.RECONNECTING));
+    statusItem.updateCount(0);
+    assert.ok(statusItem.isVisible);
+    statusItem.updateConnectionState(connected);
+    assert.ok(!statusItem.isVisible);
+    statusItem.dispose();
+  });
+});
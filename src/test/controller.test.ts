@@ -0,0 +1,114 @@
+import * as assert from "assert";
+import ViewController, {
+  getProviderCommand,
+  getCommandNames
+} from "../controller";
+import * as str from "../strings";
+import { ChatProviderCapabilities } from "../interfaces";
+
+const capabilities: ChatProviderCapabilities = {
+  threads: true,
+  threadBroadcast: false,
+  reactions: true,
+  editMessage: true,
+  deleteMessage: true,
+  fileUpload: false,
+  presence: true,
+  historicalUnreads: true,
+  createIMChannel: true,
+  search: true,
+  typing: true,
+  commands: true,
+  syncHistory: true
+};
+
+const getController = (commands: string[]) => {
+  const controller = new ViewController(<any>{}, () => {}, () => {});
+  const updates = [];
+  controller.ui = <any>{ update: message => updates.push(message) };
+  controller.isUIReady = true;
+  controller.lastMessage = <any>{
+    messages: {},
+    users: {},
+    channels: [],
+    channel: { id: "C1", name: "general" },
+    currentUser: { id: "me", provider: "slack" },
+    capabilities: { commands: true },
+    commands,
+    statusText: ""
+  };
+  return { controller, updates };
+};
+
+suite("Controller tests", function() {
+  test("Provider commands are split from their text", function() {
+    assert.deepEqual(getProviderCommand("/remind me to stretch in 1 hour"), {
+      command: "/remind",
+      text: "me to stretch in 1 hour"
+    });
+    assert.deepEqual(getProviderCommand(" /giphy "), {
+      command: "/giphy",
+      text: ""
+    });
+    assert.equal(getProviderCommand("hello"), undefined);
+  });
+
+  test("Unknown provider commands are not sent", function() {
+    const { controller, updates } = getController(["/giphy"]);
+    controller.handleCommand("/gihpy cats");
+    assert.equal(updates.length, 1);
+    assert.equal(updates[0].statusText, str.INVALID_COMMAND("/gihpy"));
+    assert.ok(updates[0].slashCommands.indexOf("/giphy") >= 0);
+  });
+
+  test("Slash commands of other extensions are routed to them", function() {
+    const { controller, updates } = getController([]);
+    const { registry } = controller;
+    let received;
+    const disposable = registry.register("jira", "create", command => {
+      received = command;
+    });
+    assert.throws(() => registry.register("live", "share", () => {}));
+
+    controller.handleCommand("/jira create Fix the build");
+    assert.deepEqual(received, {
+      namespace: "jira",
+      subcommand: "create",
+      text: "Fix the build",
+      provider: "slack",
+      channelId: "C1"
+    });
+    assert.equal(updates.length, 0);
+
+    disposable.dispose();
+    assert.ok(
+      !controller.isValidCommand("/jira create", registry.getCommandList())
+    );
+  });
+
+  test("Slash commands are hidden when the provider cannot run them", function() {
+    const commandList = { live: { share: {} }, jira: { create: {} } };
+    assert.deepEqual(getCommandNames([commandList], capabilities), [
+      "/live share",
+      "/jira create"
+    ]);
+    assert.deepEqual(
+      getCommandNames([commandList], {
+        ...capabilities,
+        createIMChannel: false
+      }),
+      ["/jira create"]
+    );
+    assert.deepEqual(getCommandNames([commandList], undefined), [
+      "/jira create"
+    ]);
+
+    const { controller, updates } = getController(["/giphy"]);
+    controller.sendToUI({
+      ...controller.lastMessage,
+      capabilities: { ...capabilities, commands: false }
+    });
+    assert.equal(updates[0].slashCommands.indexOf("/giphy"), -1);
+    assert.ok(updates[0].slashCommands.indexOf("/live share") >= 0);
+  });
+});
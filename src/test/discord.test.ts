@@ -0,0 +1,55 @@
+import * as assert from "assert";
+import { DiscordChatProvider } from "../discord";
+
+const getRawMessage = (id: string, seconds: number): any => ({
+  id,
+  author: { id: "U1" },
+  createdTimestamp: seconds * 1000,
+  content: `message ${id}`,
+  reactions: [],
+  editedTimestamp: null,
+  embeds: []
+});
+
+suite("Discord tests", function() {
+  test("Replies are shown in the thread of the first message", function() {
+    const provider = new DiscordChatProvider(undefined);
+    const messages = [
+      getRawMessage("1", 1),
+      getRawMessage("2", 2),
+      getRawMessage("3", 3),
+      getRawMessage("4", 4)
+    ];
+    provider.updateReplyParent({ id: "2", message_reference: {} });
+    provider.updateReplyParent({
+      id: "3",
+      message_reference: { message_id: "1" }
+    });
+    provider.updateReplyParent({
+      id: "4",
+      message_reference: { message_id: "3" }
+    });
+    const result = provider.getMessagesWithReplies(messages);
+
+    assert.deepEqual(Object.keys(result), ["1", "2"]);
+    assert.deepEqual(Object.keys(result["1"].replies), ["3", "4"]);
+    assert.equal(result["1"].replies["4"].text, "message 4");
+  });
+
+  test("Deleted replies are forgotten as replies", function() {
+    const provider = new DiscordChatProvider(undefined);
+    const parent = getRawMessage("1", 1);
+    const reply = {
+      ...getRawMessage("2", 2),
+      channel: { id: "C1", messages: { array: () => [parent] } }
+    };
+    provider.updateReplyParent({
+      id: "2",
+      message_reference: { message_id: "1" }
+    });
+    assert.equal(provider.getRootMessage(reply, [parent]), parent);
+
+    provider.handleDeletedMessage(reply);
+    assert.ok(!("2" in provider.replyParentIds));
+  });
+});
@@ -15,4 +15,20 @@ suite("Extension Tests", function() {
   });
 
   test("Open slack", function() {});
+
+  test("Search results without text have an empty label", function() {
+    const message = {
+      timestamp: "1.0",
+      userId: "U1",
+      text: undefined,
+      content: null,
+      reactions: [],
+      replies: {}
+    };
+    assert.equal(myExtension.getSearchLabel(message), "");
+    assert.equal(
+      myExtension.getSearchLabel({ ...message, text: "first\nsecond" }),
+      "first"
+    );
+  });
 });
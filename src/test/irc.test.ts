@@ -0,0 +1,94 @@
+import * as assert from "assert";
+import * as net from "net";
+import IRCClient, { parseLine, splitText, isChannelName } from "../irc/client";
+import IRCMessenger, {
+  stripNickPrefix,
+  getChannelId,
+  getUserId,
+  getNick
+} from "../irc/messenger";
+import { IManager } from "../interfaces";
+
+suite("IRC tests", function() {
+  test("Lines are parsed into prefix, command and params", function() {
+    assert.deepEqual(
+      parseLine(":alice!a@example.org PRIVMSG #chat :hi there"),
+      {
+        nick: "alice",
+        command: "PRIVMSG",
+        params: ["#chat", "hi there"]
+      }
+    );
+    assert.deepEqual(parseLine("@time=2018-09-25T12:00:00Z PING :server"), {
+      nick: undefined,
+      command: "PING",
+      params: ["server"]
+    });
+    assert.deepEqual(parseLine(":server 366 me #chat :End of /NAMES list."), {
+      nick: "server",
+      command: "366",
+      params: ["me", "#chat", "End of /NAMES list."]
+    });
+  });
+
+  test("Long and multi-line messages are split", function() {
+    const lines = splitText(`hello\n\n${"a".repeat(500)}`);
+    assert.deepEqual(lines.map(line => line.length), [5, 400, 100]);
+  });
+
+  test("Channels and nicks are normalized", function() {
+    assert.equal(isChannelName("#vscode"), true);
+    assert.equal(isChannelName("alice"), false);
+    assert.equal(stripNickPrefix("@+Alice"), "Alice");
+    assert.equal(getChannelId("Libera", "#VSCode"), "Libera/#vscode");
+    assert.equal(getUserId("Libera", "Alice"), "Libera/alice");
+    assert.equal(getNick("Libera/alice"), "alice");
+  });
+
+  test("Users with the same nick on two networks are different", function() {
+    const messenger = new IRCMessenger("me", "", <IManager>{});
+    messenger.clients = {
+      Libera: <IRCClient>{ nick: "me" },
+      OFTC: <IRCClient>{ nick: "me_" }
+    };
+    messenger.handleMessage("Libera", {
+      nick: undefined,
+      command: "353",
+      params: ["me", "=", "#vscode", "@Alice me"]
+    });
+    messenger.handleMessage("OFTC", {
+      nick: undefined,
+      command: "353",
+      params: ["me_", "=", "#vscode", "alice me_"]
+    });
+
+    // Our own user has the same id on every network
+    const libera = messenger.channels["Libera/#vscode"].members;
+    const oftc = messenger.channels["OFTC/#vscode"].members;
+    assert.deepEqual(libera, { "Libera/alice": "Alice", me: "me" });
+    assert.deepEqual(oftc, { "OFTC/alice": "alice", me: "me_" });
+  });
+
+  test("Connections closed before registration fail to connect", function() {
+    const server = net.createServer(socket => socket.end());
+    return new Promise(resolve => server.listen(0, "127.0.0.1", resolve))
+      .then(() => {
+        const network = {
+          name: "local",
+          host: "127.0.0.1",
+          port: server.address().port,
+          tls: false,
+          account: undefined,
+          channels: []
+        };
+        const client = new IRCClient(network, "me", "", () => {}, () => {});
+        return client
+          .connect()
+          .then(
+            () => assert.fail("Registration did not fail"),
+            error => assert.ok(/before registration/.test(error.message))
+          );
+      })
+      .then(() => server.close());
+  });
+});
@@ -0,0 +1,668 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import DiskCache from "../cache";
+import ChatProviderManager from "../manager";
+import {
+  ChannelType,
+  ChatProviderCapabilities,
+  CurrentUser,
+  IChatProvider,
+  IStore,
+  Message,
+  MessageSendState,
+  User
+} from "../interfaces";
+
+interface TestContext {
+  // Not in the typings of our minimum engine version
+  globalStoragePath?: string;
+  globalState: vscode.Memento;
+}
+
+const getManager = (
+  providerName: CurrentUser["provider"],
+  workspaceId?: string,
+  savedState: { [key: string]: any } = {},
+  globalStoragePath?: string
+): ChatProviderManager => {
+  const context = <TestContext>{
+    globalStoragePath,
+    globalState: <vscode.Memento>{
+      get: (key: string) => savedState[key],
+      update: (key: string, value: any) => {
+        savedState[key] = value;
+        return Promise.resolve();
+      }
+    }
+  };
+  const store = <IStore>{
+    updateUnreadCount: () => {},
+    updateWebviewUI: () => {}
+  };
+  const manager = new ChatProviderManager(
+    providerName,
+    store,
+    <vscode.ExtensionContext>context,
+    workspaceId
+  );
+  manager.currentUserInfo = {
+    id: "me",
+    name: "me",
+    token: "token",
+    teams: [],
+    currentTeamId: "team",
+    provider: providerName
+  };
+  return manager;
+};
+
+const getProvider = (
+  capabilities: Partial<ChatProviderCapabilities>,
+  methods: Partial<IChatProvider> = {}
+): IChatProvider => {
+  // Only the methods that a test calls are stubbed
+  const noCapabilities: ChatProviderCapabilities = {
+    threads: false,
+    threadBroadcast: false,
+    reactions: false,
+    editMessage: false,
+    deleteMessage: false,
+    fileUpload: false,
+    presence: false,
+    historicalUnreads: false,
+    createIMChannel: false,
+    search: false,
+    typing: false,
+    commands: false,
+    syncHistory: false
+  };
+  return <IChatProvider>{
+    ...methods,
+    capabilities: { ...noCapabilities, ...capabilities }
+  };
+};
+
+const getUser = (id: string): User => ({
+  id,
+  name: id,
+  fullName: id,
+  imageUrl: "",
+  smallImageUrl: "",
+  isOnline: true
+});
+
+const getMessage = (timestamp: string, text: string = "hello"): Message => ({
+  timestamp,
+  userId: "me",
+  text,
+  content: null,
+  reactions: [],
+  replies: {}
+});
+
+suite("Manager tests", function() {
+  test("Channels and unreads are kept per provider", function() {
+    const slack = getManager("slack");
+    const discord = getManager("discord");
+    const channel = {
+      id: "C1",
+      name: "general",
+      type: ChannelType.channel,
+      readTimestamp: "1.0",
+      unreadCount: 0
+    };
+    slack.updateChannels([{ ...channel, unreadCount: 2 }]);
+    discord.updateChannels([{ ...channel, id: "D1" }]);
+    discord.updateUsers({
+      someone: {
+        id: "someone",
+        name: "someone",
+        fullName: "Someone",
+        imageUrl: "",
+        smallImageUrl: "",
+        isOnline: true
+      }
+    });
+    discord.updateMessages("D1", {
+      "2.0": {
+        timestamp: "2.0",
+        userId: "someone",
+        text: "hello",
+        content: null,
+        reactions: [],
+        replies: {}
+      }
+    });
+
+    assert.equal(slack.getTotalUnreads(), 2);
+    assert.equal(discord.getTotalUnreads(), 1);
+    assert.equal(slack.getChannel("D1"), undefined);
+    assert.deepEqual(
+      discord.getChannelLabels().map(label => label.providerName),
+      ["discord"]
+    );
+  });
+
+  test("Background workspaces keep their state separately", function() {
+    const savedState = {};
+    const background = getManager("slack", "T2", savedState);
+    background.updateChannels([
+      {
+        id: "C1",
+        name: "general",
+        type: ChannelType.channel,
+        readTimestamp: "1.0",
+        unreadCount: 3
+      }
+    ]);
+    background.updateTreeViews();
+
+    assert.equal(background.key, "slack:T2");
+    assert.deepEqual(Object.keys(savedState), ["channels.slack:T2"]);
+    assert.equal(background.getTotalUnreads(), 3);
+  });
+
+  test("Providers that are not set up have no capabilities", function() {
+    const manager = getManager("slack");
+    assert.equal(manager.getCapabilities(), undefined);
+    assert.ok(!manager.hasCapability("threads"));
+
+    manager.chatProvider = getProvider({ threads: true });
+    assert.ok(manager.hasCapability("threads"));
+    assert.ok(!manager.hasCapability("reactions"));
+  });
+
+  test("Edits are optimistic and reverted on failure", async function() {
+    const manager = getManager("slack");
+    const message = {
+      timestamp: "1.0",
+      userId: "me",
+      text: "helo",
+      content: null,
+      reactions: [],
+      replies: {}
+    };
+    manager.users = { me: getUser("me") };
+    manager.messages = { C1: { "1.0": message } };
+    let editedText: string;
+    manager.chatProvider = getProvider(
+      { editMessage: true },
+      {
+        editMessage: (channelId, ts, text) => {
+          editedText = manager.getMessage(channelId, ts).text;
+          return Promise.reject(new Error("failed"));
+        }
+      }
+    );
+
+    await manager.editMessage("C1", "1.0", "hello");
+    assert.equal(editedText, "hello");
+    assert.equal(manager.getMessage("C1", "1.0").text, "helo");
+  });
+
+  test("Own reactions are matched across emoji formats", async function() {
+    const manager = getManager("slack");
+    const reaction = { name: ":+1:", count: 1, userIds: ["me"] };
+    manager.users = { me: getUser("me") };
+    manager.messages = {
+      C1: {
+        "1.0": {
+          timestamp: "1.0",
+          userId: "someone",
+          text: "hello",
+          content: null,
+          reactions: [reaction],
+          replies: {}
+        }
+      }
+    };
+    let calls = [];
+    manager.chatProvider = getProvider(
+      { reactions: true },
+      {
+        addReaction: (...args) => {
+          calls.push(args);
+          return Promise.resolve();
+        }
+      }
+    );
+
+    // The realtime event echoes our reaction with the unicode emoji
+    manager.addReaction("C1", "1.0", "me", "👍");
+    await manager.addOwnReaction("C1", "1.0", ":thumbsup:");
+    assert.deepEqual(manager.getMessage("C1", "1.0").reactions, [reaction]);
+    assert.equal(calls.length, 0);
+  });
+
+  test("Followed threads count replies after our own", function() {
+    const manager = getManager("mock");
+    manager.chatProvider = getProvider({});
+    manager.channels = [
+      {
+        id: "C1",
+        name: "general",
+        type: ChannelType.channel,
+        readTimestamp: "1.0",
+        unreadCount: 0
+      }
+    ];
+    const getReply = (userId, timestamp) => ({ userId, timestamp });
+    manager.messages = {
+      C1: {
+        "1.0": {
+          timestamp: "1.0",
+          userId: "someone",
+          text: "question",
+          content: null,
+          reactions: [],
+          replies: {
+            "2.0": getReply("me", "2.0"),
+            "3.0": getReply("someone", "3.0"),
+            "4.0": getReply("someone", "4.0")
+          }
+        },
+        "5.0": {
+          timestamp: "5.0",
+          userId: "someone",
+          text: "not mine",
+          content: null,
+          reactions: [],
+          replies: { "6.0": getReply("someone", "6.0") }
+        }
+      }
+    };
+
+    const labels = manager.getThreadLabels();
+    assert.deepEqual(labels.map(label => label.label), [
+      "general: question (2 new)"
+    ]);
+
+    manager.updateThreadState({
+      channelId: "C1",
+      parentTimestamp: "1.0",
+      readTimestamp: "3.0",
+      isFollowed: true
+    });
+    assert.equal(manager.getThreadLabels()[0].unread, 1);
+  });
+
+  test("Drafts are kept per channel and thread", function() {
+    const savedState = {};
+    const manager = getManager("slack", undefined, savedState);
+    manager.channels = [
+      {
+        id: "C1",
+        name: "general",
+        type: ChannelType.channel,
+        readTimestamp: "1.0",
+        unreadCount: 0
+      }
+    ];
+    manager.updateDraft("C1", undefined, "hello");
+    manager.updateDraft("C1", "1.0", "in a thread");
+    assert.equal(manager.getDraft("C1"), "hello");
+    assert.equal(manager.getDraft("C1", "1.0"), "in a thread");
+    assert.equal(manager.getChannelLabels()[0].label, "general (draft)");
+    assert.deepEqual(savedState["drafts.slack"], {
+      C1: "hello",
+      "C1:1.0": "in a thread"
+    });
+
+    manager.updateDraft("C1", undefined, "");
+    assert.equal(manager.getDraft("C1"), "");
+    assert.equal(manager.getChannelLabels()[0].label, "general");
+  });
+
+  test("Drafts keep their picked mentions", function() {
+    const savedState = {};
+    const manager = getManager("slack", undefined, savedState);
+    const mentions = [{ id: "U1", text: "@alice", type: "user" as "user" }];
+    manager.updateDraft("C1", undefined, "hi @alice", mentions);
+    assert.deepEqual(manager.getDraftMentions("C1"), mentions);
+    assert.deepEqual(manager.getDraftMentions("C1", "1.0"), []);
+    assert.deepEqual(savedState["draftMentions.slack"], { C1: mentions });
+
+    // A restored draft gets its mentions back
+    const restored = getManager("slack", undefined, savedState);
+    assert.deepEqual(restored.getDraftMentions("C1"), mentions);
+
+    manager.updateDraft("C1", undefined, "");
+    assert.deepEqual(manager.getDraftMentions("C1"), []);
+    assert.deepEqual(savedState["draftMentions.slack"], {});
+  });
+
+  test("Sent messages are queued till the provider echoes them", async function() {
+    const manager = getManager("slack");
+    manager.users = { me: getUser("me") };
+    manager.messages = { C1: {} };
+    let isFailing = true;
+    manager.chatProvider = getProvider(
+      {},
+      {
+        sendMessage: () =>
+          isFailing
+            ? Promise.reject(new Error("offline"))
+            : Promise.resolve(undefined)
+      }
+    );
+
+    await manager.sendMessage("C1", "hello");
+    const [outgoing] = manager.outgoing;
+    const { clientMessageId, timestamp } = outgoing;
+    assert.equal(outgoing.sendState, MessageSendState.failed);
+    assert.equal(
+      manager.getMessage("C1", timestamp).sendState,
+      MessageSendState.failed
+    );
+
+    isFailing = false;
+    await manager.retryMessage(clientMessageId);
+    assert.equal(
+      manager.getMessage("C1", timestamp).sendState,
+      MessageSendState.sent
+    );
+
+    // The echo of the provider replaces the local echo
+    const echo = {
+      timestamp: "9999999999.000100",
+      userId: "me",
+      text: "hello",
+      content: null,
+      reactions: [],
+      replies: {},
+      clientMessageId
+    };
+    manager.updateMessages("C1", { [echo.timestamp]: echo });
+    assert.equal(manager.outgoing.length, 0);
+    assert.deepEqual(Object.keys(manager.messages.C1), [echo.timestamp]);
+  });
+
+  test("Echoes without a client id are matched once, oldest first", async function() {
+    const manager = getManager("slack");
+    manager.users = { me: getUser("me") };
+    manager.messages = { C1: {} };
+    manager.chatProvider = getProvider(
+      {},
+      { sendMessage: () => Promise.resolve(undefined) }
+    );
+
+    await manager.sendMessage("C1", "hello");
+    // Local echoes are keyed by their timestamp, in milliseconds
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await manager.sendMessage("C1", "hello");
+    const [first, second] = manager.outgoing;
+    const getEcho = (timestamp: string) => ({
+      timestamp,
+      userId: "me",
+      text: "hello",
+      content: null,
+      reactions: [],
+      replies: {}
+    });
+
+    const firstEcho = getEcho("9999999999.000100");
+    manager.updateMessages("C1", { [firstEcho.timestamp]: firstEcho });
+    assert.deepEqual(manager.outgoing, [second]);
+    assert.ok(!manager.getMessage("C1", first.timestamp));
+    assert.ok(!!manager.getMessage("C1", second.timestamp));
+
+    // The first echo again, like after a reconnect, is not the second echo
+    manager.updateMessages("C1", { [firstEcho.timestamp]: firstEcho });
+    assert.equal(manager.outgoing.length, 1);
+
+    const secondEcho = getEcho("9999999999.000200");
+    manager.updateMessages("C1", { [secondEcho.timestamp]: secondEcho });
+    assert.equal(manager.outgoing.length, 0);
+    assert.deepEqual(Object.keys(manager.messages.C1).sort(), [
+      firstEcho.timestamp,
+      secondEcho.timestamp
+    ]);
+  });
+
+  test("Typing users are cleared when their message arrives", function() {
+    const manager = getManager("slack");
+    manager.users = { alice: getUser("alice") };
+    manager.messages = { C1: {} };
+    manager.updateTyping("C1", "alice", true);
+    manager.updateTyping("C1", "me", true);
+    assert.deepEqual(manager.getTypingNames("C1"), ["alice"]);
+    assert.deepEqual(manager.getTypingNames("C2"), []);
+
+    manager.updateMessages("C1", {
+      "1.0": {
+        timestamp: "1.0",
+        userId: "alice",
+        text: "hello",
+        content: null,
+        reactions: [],
+        replies: {}
+      }
+    });
+    assert.deepEqual(manager.getTypingNames("C1"), []);
+  });
+
+  test("Search has results of the provider and the local history", async function() {
+    const manager = getManager("slack");
+    manager.users = { me: getUser("me") };
+    manager.messages = {
+      C1: { "2.0": getMessage("2.0", "Deploy is done") },
+      C2: { "3.0": getMessage("3.0", "lunch?") }
+    };
+    manager.chatProvider = getProvider(
+      { search: true },
+      {
+        searchMessages: () =>
+          Promise.resolve([
+            { channelId: "C1", message: getMessage("1.0", "deploy started") },
+            { channelId: "C1", message: getMessage("2.0", "Deploy is done") }
+          ]),
+        loadChannelHistory: (channelId, before) =>
+          Promise.resolve({
+            messages: { "0.5": getMessage("0.5", `before ${before}`) },
+            hasMore: true
+          })
+      }
+    );
+
+    const results = await manager.searchMessages("DEPLOY");
+    assert.deepEqual(results.map(result => result.message.timestamp), [
+      "1.0",
+      "2.0"
+    ]);
+
+    await manager.loadSearchContext("C1", results[0].message);
+    assert.deepEqual(Object.keys(manager.messages.C1).sort(), [
+      "0.5",
+      "1.0",
+      "2.0"
+    ]);
+    assert.equal(manager.getMessage("C1", "0.5").text, "before 1.0");
+  });
+
+  test("Users, channels and messages are cached on disk", function() {
+    const storagePath = fs.mkdtempSync(path.join(os.tmpdir(), "chat-"));
+    const manager = getManager("slack", "T1", {}, storagePath);
+    const messages = {};
+    for (let i = 1; i <= 150; i++) {
+      messages[`${i}.0`] = getMessage(`${i}.0`);
+    }
+    manager.updateUsers({ me: getUser("me") });
+    manager.updateChannels([
+      {
+        id: "C1",
+        name: "general",
+        type: ChannelType.channel,
+        readTimestamp: "1.0",
+        unreadCount: 0
+      }
+    ]);
+    manager.updateMessages("C1", messages);
+    manager.updateMessages("C1", {
+      "151.0": { ...getMessage("151.0"), sendState: MessageSendState.sending }
+    });
+    manager.dispose();
+
+    const cached = getManager("slack", "T1", {}, storagePath);
+    assert.deepEqual(Object.keys(cached.users), ["me"]);
+    assert.equal(cached.channels[0].name, "general");
+    const timestamps = Object.keys(cached.messages.C1);
+    assert.equal(timestamps.length, 100);
+    assert.ok(timestamps.indexOf("150.0") >= 0);
+    assert.ok(timestamps.indexOf("50.0") < 0);
+    assert.ok(timestamps.indexOf("151.0") < 0);
+  });
+
+  test("Cache files are replaced once written, and only when changed", function(done) {
+    const storagePath = fs.mkdtempSync(path.join(os.tmpdir(), "chat-"));
+    const cache = new DiskCache(storagePath);
+    cache.updateUsers({ me: getUser("me") });
+    cache.flush();
+    // Nothing is renamed until the write has finished
+    assert.equal(cache.getUsers(), undefined);
+
+    setTimeout(() => {
+      assert.deepEqual(Object.keys(cache.getUsers()), ["me"]);
+      // The write of unchanged users would update the modified time
+      fs.utimesSync(path.join(storagePath, "users.json"), 0, 0);
+      cache.updateUsers({ me: getUser("me") });
+      cache.flush();
+
+      setTimeout(() => {
+        const stats = fs.statSync(path.join(storagePath, "users.json"));
+        assert.equal(stats.mtimeMs, 0);
+        assert.deepEqual(fs.readdirSync(storagePath), ["users.json"]);
+        done();
+      }, 50);
+    }, 50);
+  });
+
+  test("Reconnects catch up on new, edited and deleted messages", async function() {
+    const manager = getManager("slack");
+    manager.users = { me: getUser("me") };
+    const channel = {
+      id: "C1",
+      name: "general",
+      type: ChannelType.channel,
+      readTimestamp: "1.0",
+      unreadCount: 0
+    };
+    manager.channels = [channel, { ...channel, id: "C2" }];
+    manager.messages = { C1: {}, C2: { "1.0": getMessage("1.0", "hello") } };
+    for (let i = 1; i <= 25; i++) {
+      manager.messages.C1[`${i}.0`] = getMessage(`${i}.0`);
+    }
+    const calls = [];
+    manager.chatProvider = getProvider(
+      { syncHistory: true },
+      {
+        loadNewMessages: (channelId, after) => {
+          calls.push(["loadNewMessages", channelId, after]);
+          // The first message after the bound was deleted, and the next edited
+          const messages = {
+            "7.0": getMessage("7.0", "edited"),
+            "26.0": getMessage("26.0", "new")
+          };
+          for (let i = 8; i <= 25; i++) {
+            messages[`${i}.0`] = getMessage(`${i}.0`);
+          }
+          return Promise.resolve({ messages, hasMore: false });
+        },
+        loadChannelHistory: channelId => {
+          calls.push(["loadChannelHistory", channelId]);
+          return Promise.resolve({
+            messages: { "9.0": getMessage("9.0", "latest") },
+            hasMore: true
+          });
+        },
+        fetchChannelInfo: newChannel =>
+          Promise.resolve({ ...newChannel, unreadCount: 5 })
+      }
+    );
+
+    await manager.syncMessages();
+    assert.deepEqual(calls, [
+      ["loadNewMessages", "C1", "5.0"],
+      ["loadChannelHistory", "C2"]
+    ]);
+    const timestamps = Object.keys(manager.messages.C1);
+    assert.equal(timestamps.length, 25);
+    assert.ok(timestamps.indexOf("5.0") >= 0);
+    assert.ok(timestamps.indexOf("6.0") < 0);
+    assert.equal(manager.messages.C1["7.0"].text, "edited");
+    assert.equal(manager.messages.C1["26.0"].text, "new");
+    // C2 has too few messages to catch up on, and missed more than a page
+    assert.deepEqual(Object.keys(manager.messages.C2), ["9.0"]);
+    assert.ok(manager.hasMoreHistory.C2);
+    assert.equal(manager.getChannel("C1").unreadCount, 5);
+  });
+
+  test("Reconnects reload the latest messages without syncHistory", async function() {
+    const manager = getManager("mattermost");
+    manager.users = { me: getUser("me") };
+    manager.channels = [
+      {
+        id: "C1",
+        name: "general",
+        type: ChannelType.channel,
+        readTimestamp: "1.0",
+        unreadCount: 0
+      }
+    ];
+    manager.messages = {
+      C1: {
+        "1.0": getMessage("1.0"),
+        "2.0": getMessage("2.0"),
+        "3.0": getMessage("3.0")
+      }
+    };
+    manager.chatProvider = getProvider(
+      { syncHistory: false },
+      {
+        loadChannelHistory: channelId =>
+          Promise.resolve({
+            messages: {
+              "2.0": getMessage("2.0", "edited"),
+              "4.0": getMessage("4.0", "new")
+            },
+            hasMore: false
+          }),
+        fetchChannelInfo: channel => Promise.resolve(channel)
+      }
+    );
+
+    await manager.syncMessages();
+    // Messages before the page are kept
+    assert.deepEqual(Object.keys(manager.messages.C1).sort(), [
+      "1.0",
+      "2.0",
+      "4.0"
+    ]);
+    assert.equal(manager.messages.C1["2.0"].text, "edited");
+  });
+
+  test("Deleted replies are removed from their thread", function() {
+    const manager = getManager("discord");
+    manager.users = { me: getUser("me") };
+    manager.messages = {
+      C1: {
+        "1": {
+          timestamp: "1",
+          userId: "me",
+          text: "parent",
+          content: null,
+          reactions: [],
+          replies: {
+            "2": { userId: "me", timestamp: "2", text: "reply" },
+            "3": { userId: "me", timestamp: "3", text: "other reply" }
+          }
+        }
+      }
+    };
+    manager.removeMessageReply("1", "C1", "2");
+    assert.deepEqual(Object.keys(manager.messages.C1), ["1"]);
+    assert.deepEqual(Object.keys(manager.messages.C1["1"].replies), ["3"]);
+  });
+});
@@ -0,0 +1,65 @@
+import * as assert from "assert";
+import MatrixAPIClient, { getLocalpart } from "../matrix/client";
+
+const getEvent = (
+  eventId: string,
+  ts: number,
+  content: any,
+  type?: string
+) => ({
+  event_id: eventId,
+  origin_server_ts: ts,
+  sender: "@alice:example.org",
+  type: type || "m.room.message",
+  content,
+  unsigned: {}
+});
+
+suite("Matrix tests", function() {
+  test("Localpart is parsed from user ids", function() {
+    assert.equal(getLocalpart("@alice:example.org"), "alice");
+    assert.equal(getLocalpart("alice"), "alice");
+  });
+
+  test("Relations are applied to their target messages", function() {
+    const client = new MatrixAPIClient("https://example.org", "token");
+    const events = [
+      getEvent("$root", 1000, { msgtype: "m.text", body: "hello" }),
+      getEvent("$edit", 2000, {
+        msgtype: "m.text",
+        body: "* hello world",
+        "m.new_content": { msgtype: "m.text", body: "hello world" },
+        "m.relates_to": { rel_type: "m.replace", event_id: "$root" }
+      }),
+      getEvent("$reply", 3000, {
+        msgtype: "m.text",
+        body: "in thread",
+        "m.relates_to": { rel_type: "m.thread", event_id: "$root" }
+      }),
+      getEvent(
+        "$reaction",
+        4000,
+        {
+          "m.relates_to": {
+            rel_type: "m.annotation",
+            event_id: "$root",
+            key: "👍"
+          }
+        },
+        "m.reaction"
+      )
+    ];
+    const messages = client.getChannelMessages("!room:example.org", events);
+    assert.deepEqual(Object.keys(messages), ["1"]);
+
+    const message = messages["1"];
+    assert.equal(message.text, "hello world");
+    assert.equal(message.isEdited, true);
+    assert.deepEqual(Object.keys(message.replies), ["3"]);
+    assert.deepEqual(message.reactions, [
+      { name: "👍", count: 1, userIds: ["@alice:example.org"] }
+    ]);
+    assert.equal(client.getThreadRootTimestamp("$reply"), "1");
+    assert.equal(client.getLatestEventId("!room:example.org", "3.5"), "$reply");
+  });
+});
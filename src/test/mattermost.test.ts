@@ -0,0 +1,53 @@
+import * as assert from "assert";
+import MattermostAPIClient, { getReactions } from "../mattermost/client";
+
+const getPost = (id: string, createAt: number, rootId: string = "") => ({
+  id,
+  create_at: createAt,
+  edit_at: 0,
+  user_id: "user1",
+  channel_id: "channel1",
+  root_id: rootId,
+  message: `message ${id}`,
+  props: {},
+  metadata: {}
+});
+
+suite("Mattermost tests", function() {
+  test("Reactions are grouped by emoji", function() {
+    const reactions = getReactions([
+      { user_id: "user1", emoji_name: "smile" },
+      { user_id: "user2", emoji_name: "smile" },
+      { user_id: "user1", emoji_name: "tada" }
+    ]);
+    assert.deepEqual(reactions, [
+      { name: ":smile:", count: 2, userIds: ["user1", "user2"] },
+      { name: ":tada:", count: 1, userIds: ["user1"] }
+    ]);
+  });
+
+  test("Thread replies are attached to root posts", function() {
+    const client = new MattermostAPIClient("http://localhost:8065", "token");
+    const postList = {
+      order: ["post3", "post2", "post1"],
+      posts: {
+        post1: getPost("post1", 1000),
+        post2: getPost("post2", 2000, "post1"),
+        post3: getPost("post3", 3000, "missing")
+      }
+    };
+    const messages = client.getChannelMessages(postList);
+    assert.deepEqual(Object.keys(messages), ["1"]);
+    assert.deepEqual(Object.keys(messages["1"].replies), ["2"]);
+    assert.equal(messages["1"].replies["2"].text, "message post2");
+    assert.equal(client.getPostId("1"), "post1");
+    assert.equal(client.getPostTimestamp("post2"), "2");
+  });
+
+  test("Avatars do not have the access token", function() {
+    const client = new MattermostAPIClient("http://localhost:8065", "secret");
+    const user = client.getUser({ id: "user1", username: "alice" });
+    assert.equal(user.imageUrl, undefined);
+    assert.equal(user.smallImageUrl, undefined);
+  });
+});
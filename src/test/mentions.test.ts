@@ -0,0 +1,53 @@
+import * as assert from "assert";
+import { Mention, ChannelType } from "../interfaces";
+import { encodeMentions, decodeMentions } from "../utils/mentions";
+
+const mentions: Mention[] = [
+  { text: "@ann", type: "user", id: "U1" },
+  { text: "@anna", type: "user", id: "U2" },
+  { text: "#general", type: "channel", id: "C1" }
+];
+
+suite("Mention tests", function() {
+  test("Mentions are encoded for Slack and Discord", function() {
+    const text = "@anna and @ann, see #general";
+    assert.equal(
+      encodeMentions(text, mentions, "slack"),
+      "<@U2> and <@U1>, see <#C1>"
+    );
+    assert.equal(
+      encodeMentions(text, mentions, "discord"),
+      "<@U2> and <@U1>, see <#C1>"
+    );
+  });
+
+  test("Mentions are plain text for other providers", function() {
+    const text = "@anna, see #general";
+    assert.equal(encodeMentions(text, mentions, "mattermost"), text);
+    assert.equal(encodeMentions(text, undefined, "slack"), text);
+  });
+
+  test("Edited messages show mentions as names", function() {
+    const users: any = { U1: { id: "U1", name: "ann" } };
+    const channels = [
+      {
+        id: "C1",
+        name: "general",
+        type: ChannelType.channel,
+        readTimestamp: "",
+        unreadCount: 0
+      }
+    ];
+    const text = "<@U1> see <#C1|general> with <@U9> <!here>";
+    const decoded = decodeMentions(text, users, channels);
+    assert.equal(decoded.text, "@ann see #general with <@U9> <!here>");
+    assert.deepEqual(decoded.mentions, [
+      { text: "@ann", type: "user", id: "U1" },
+      { text: "#general", type: "channel", id: "C1" }
+    ]);
+    assert.equal(
+      encodeMentions(decoded.text, decoded.mentions, "slack"),
+      "<@U1> see <#C1> with <@U9> <!here>"
+    );
+  });
+});
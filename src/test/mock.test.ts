@@ -0,0 +1,56 @@
+import * as assert from "assert";
+import { MockChatProvider } from "../mock";
+import { getHistory } from "../mock/workspace";
+import { ChannelType } from "../interfaces";
+
+suite("Mock provider tests", function() {
+  test("Workspace has channels, groups and direct messages", async function() {
+    const provider = new MockChatProvider(undefined);
+    const users = await provider.fetchUsers();
+    const channels = await provider.fetchChannels(users);
+    const types = channels.map(channel => channel.type);
+    assert.ok(types.indexOf(ChannelType.channel) >= 0);
+    assert.ok(types.indexOf(ChannelType.group) >= 0);
+    assert.ok(types.indexOf(ChannelType.im) >= 0);
+
+    const history = getHistory(1000000);
+    const replies = Object.keys(history.C1)
+      .map(ts => history.C1[ts])
+      .filter(message => Object.keys(message.replies).length > 0);
+    assert.equal(replies.length, 1);
+  });
+
+  test("Outgoing calls are recorded", async function() {
+    const provider = new MockChatProvider(undefined);
+    await provider.sendMessage("hello", "U0", "C1");
+    await provider.sendThreadReply("reply", "U0", "C1", "1.000000");
+    const channel = await provider.fetchChannelInfo({
+      id: "C2",
+      name: "random",
+      type: ChannelType.channel,
+      readTimestamp: undefined,
+      unreadCount: 1
+    });
+    const marked = await provider.markChannel(channel, "2.000000");
+    assert.equal(marked.readTimestamp, "2.000000");
+    assert.deepEqual(provider.calls, [
+      { method: "sendMessage", args: ["hello", "U0", "C1"] },
+      { method: "sendThreadReply", args: ["reply", "U0", "C1", "1.000000"] },
+      { method: "markChannel", args: ["C2", "2.000000"] }
+    ]);
+  });
+
+  test("Older history is loaded with a cursor", async function() {
+    const provider = new MockChatProvider(undefined);
+    provider.historyLimit = 2;
+    const latest = await provider.loadChannelHistory("C1");
+    const latestTimestamps = Object.keys(latest.messages);
+    assert.equal(latestTimestamps.length, 2);
+    assert.ok(latest.hasMore);
+
+    const before = latestTimestamps.sort((a, b) => +a - +b)[0];
+    const older = await provider.loadChannelHistory("C1", before);
+    Object.keys(older.messages).forEach(ts => assert.ok(+ts < +before));
+    assert.ok(Object.keys(older.messages).length > 0);
+  });
+});
@@ -0,0 +1,37 @@
+import * as assert from "assert";
+import RocketChatAPIClient, { getTimestamp } from "../rocketchat/client";
+
+const getRawMessage = (id: string, ts: string, extra?: any) => ({
+  _id: id,
+  rid: "GENERAL",
+  msg: `message ${id}`,
+  ts,
+  u: { _id: "user1", username: "alice" },
+  ...extra
+});
+
+suite("Rocket.Chat tests", function() {
+  test("Timestamps are parsed from REST and realtime dates", function() {
+    assert.equal(getTimestamp("2018-09-25T12:00:00.500Z"), "1537876800.5");
+    assert.equal(getTimestamp({ $date: 1537876800500 }), "1537876800.5");
+  });
+
+  test("Thread replies and reactions are attached to messages", function() {
+    const client = new RocketChatAPIClient("https://chat.example.com", "x");
+    const messages = client.getChannelMessages([
+      getRawMessage("reply", "2018-09-25T12:00:02.000Z", { tmid: "root" }),
+      getRawMessage("root", "2018-09-25T12:00:01.000Z", {
+        reactions: { ":smile:": { usernames: ["alice", "bob"] } }
+      }),
+      getRawMessage("joined", "2018-09-25T12:00:00.000Z", { t: "uj" })
+    ]);
+    assert.deepEqual(Object.keys(messages), ["1537876801"]);
+
+    const message = messages["1537876801"];
+    assert.deepEqual(Object.keys(message.replies), ["1537876802"]);
+    assert.deepEqual(message.reactions, [
+      { name: ":smile:", count: 2, userIds: ["user1", "bob"] }
+    ]);
+    assert.equal(client.getMessageId("1537876801"), "root");
+  });
+});
@@ -0,0 +1,20 @@
+import * as assert from "assert";
+import { stripLinkSymbols } from "../slack";
+
+suite("Slack tests", function() {
+  test("Link symbols are stripped from a single link", function() {
+    const link = "https://insiders.liveshare.vsengsaas.visualstudio.com/join";
+    assert.equal(stripLinkSymbols(`<${link}>`), link);
+    assert.equal(stripLinkSymbols("hello"), "hello");
+  });
+
+  test("Messages that start and end with mentions are unchanged", function() {
+    assert.equal(stripLinkSymbols("<@U1>"), "<@U1>");
+    assert.equal(stripLinkSymbols("<#C1>"), "<#C1>");
+    assert.equal(stripLinkSymbols("<@U1> see <#C1>"), "<@U1> see <#C1>");
+    assert.equal(
+      stripLinkSymbols("<https://a.com> and <https://b.com>"),
+      "<https://a.com> and <https://b.com>"
+    );
+  });
+});
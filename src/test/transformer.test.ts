@@ -1,5 +1,6 @@
 import * as assert from "assert";
 import { markdownify, parseLinks } from "../controller/markdowner";
+import { ChannelType } from "../interfaces";
 
 const getMessage = (text: string) => ({
   timestamp: {
@@ -59,4 +60,43 @@ suite("Transformer tests", function() {
       "Build [#56](https://travis-ci.org/karigari/vscode-chat/builds/399150058?utm_source=slack&amp;utm_medium=notification) ([9b0b1df](https://github.com/karigari/vscode-chat/compare/f4f68e2e4bd6...9b0b1df6df93)) of karigari/vscode-chat@master by Arjun Attam passed in 2 min 14 sec";
     assert.equal(parseLinks(getMessage(INPUT_4)).timestamp.text, OUTPUT_4);
   });
+
+  test("Mentions are rendered as pills", function() {
+    const mentionData = {
+      users: {
+        U1: {
+          id: "U1",
+          name: "alice",
+          fullName: "",
+          imageUrl: "",
+          smallImageUrl: "",
+          isOnline: false
+        }
+      },
+      channels: [
+        {
+          id: "C1",
+          name: "general",
+          type: ChannelType.channel,
+          readTimestamp: "",
+          unreadCount: 0
+        }
+      ]
+    };
+    const INPUT = "<@U1> and <@!U1> see <#C1|general>, <!here>";
+    const OUTPUT =
+      '<p><a href="#" class="mention" onclick="openMention(\'user\', \'U1\'); return false;" tabindex="-1">@alice</a>' +
+      ' and <a href="#" class="mention" onclick="openMention(\'user\', \'U1\'); return false;" tabindex="-1">@alice</a>' +
+      ' see <a href="#" class="mention" onclick="openMention(\'channel\', \'C1\'); return false;" tabindex="-1">#general</a>' +
+      ', <span class="mention">@here</span></p>\n';
+    const result = markdownify(getMessage(INPUT), mentionData);
+    assert.equal(result.timestamp.textHTML, OUTPUT);
+
+    const INPUT_2 = "<!subteam^S1|@team> <@&R1> <#C2|random> <@U2>";
+    const OUTPUT_2 =
+      '<p><span class="mention">@team</span> <span class="mention">@role</span>' +
+      ' <span class="mention">#random</span> <span class="mention">@U2</span></p>\n';
+    const result_2 = markdownify(getMessage(INPUT_2), mentionData);
+    assert.equal(result_2.timestamp.textHTML, OUTPUT_2);
+  });
 });
@@ -0,0 +1,42 @@
+import * as assert from "assert";
+import { OnlineUsersTreeProvider } from "../tree";
+import { DiscordChatProvider } from "../discord";
+import { SlackChatProvider } from "../slack";
+import { IChatProvider } from "../interfaces";
+
+const getUserItem = async (chatProvider: IChatProvider) => {
+  const treeProvider = new OnlineUsersTreeProvider("slack");
+  const currentUser = {
+    id: "me",
+    name: "me",
+    token: "token",
+    teams: [],
+    currentTeamId: "team",
+    provider: <any>"slack"
+  };
+  const users = {
+    U1: {
+      id: "U1",
+      name: "someone",
+      fullName: "Someone",
+      imageUrl: "",
+      smallImageUrl: "",
+      isOnline: true
+    }
+  };
+  treeProvider.updateData(currentUser, users, {}, chatProvider.capabilities);
+  const nodes = await treeProvider.getChildren();
+  return treeProvider.getTreeItem(nodes[0]);
+};
+
+suite("Tree tests", function() {
+  test("Users without DMs can be opened if the provider creates them", async function() {
+    const slackItem = await getUserItem(new SlackChatProvider());
+    assert.equal(slackItem.contextValue, "user");
+    assert.ok(!!slackItem.command);
+
+    const discordItem = await getUserItem(new DiscordChatProvider(undefined));
+    assert.equal(discordItem.contextValue, undefined);
+    assert.equal(discordItem.command, undefined);
+  });
+});
@@ -0,0 +1,57 @@
+import * as assert from "assert";
+import ZulipAPIClient, {
+  getTimestamp,
+  getTopicFromText,
+  getPrivateChannelId
+} from "../zulip/client";
+
+const getStreamMessage = (id: number, timestamp: number, topic: string) => ({
+  id,
+  timestamp,
+  type: "stream",
+  stream_id: 7,
+  subject: topic,
+  sender_id: 1,
+  content: `message ${id}`,
+  reactions: [{ emoji_name: "smile", user_id: 2 }]
+});
+
+suite("Zulip tests", function() {
+  test("Timestamps are unique for messages in the same second", function() {
+    assert.equal(
+      getTimestamp({ id: 42, timestamp: 1537876800 }),
+      "1537876800.000042"
+    );
+    assert.equal(getPrivateChannelId([12, 3]), "pm:3,12");
+  });
+
+  test("Topics are named after the first line of the message", function() {
+    assert.equal(getTopicFromText("hello\nworld"), "hello");
+    assert.equal(getTopicFromText("a".repeat(80)).length, 60);
+  });
+
+  test("Messages on a topic are replies to the first message", function() {
+    const client = new ZulipAPIClient("https://zulip.example.com", "a@b.c:x");
+    const messages = client.getChannelMessages([
+      getStreamMessage(3, 1537876803, "Deploys"),
+      getStreamMessage(1, 1537876801, "deploys"),
+      getStreamMessage(2, 1537876802, "lunch")
+    ]);
+    assert.deepEqual(Object.keys(messages).sort(), [
+      "1537876801.000001",
+      "1537876802.000002"
+    ]);
+
+    const parent = messages["1537876801.000001"];
+    assert.deepEqual(Object.keys(parent.replies), ["1537876803.000003"]);
+    assert.deepEqual(parent.reactions, [
+      { name: ":smile:", count: 1, userIds: ["2"] }
+    ]);
+
+    const next = client.rememberMessage(
+      getStreamMessage(4, 1537876804, "DEPLOYS")
+    );
+    assert.equal(next.parentTimestamp, "1537876801.000001");
+    assert.equal(next.channelId, "7");
+  });
+});
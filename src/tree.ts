@@ -10,7 +10,9 @@ import {
   ChannelLabel,
   Users,
   CurrentUser,
-  ChannelType
+  ChannelType,
+  ChatProviderCapabilities,
+  ThreadLabel
 } from "./interfaces";
 
 interface ChatTreeNode {
@@ -19,6 +21,9 @@ interface ChatTreeNode {
   user: User;
   isCategory: boolean;
   isOnline: boolean;
+  providerName: string;
+  canCreateIMChannel?: boolean;
+  parentTimestamp?: string;
 }
 
 const GREEN_DOT = path.join(
@@ -36,17 +41,47 @@ class CustomChatTreeItem extends vscode.TreeItem {
     isOnline: boolean,
     isCategory: boolean,
     channel: Channel,
-    user: User
+    user: User,
+    providerName: string,
+    canCreateIMChannel: boolean,
+    parentTimestamp: string
   ) {
     super(label);
 
+    if (!!parentTimestamp) {
+      // This is a thread item, which opens the thread of the channel
+      this.contextValue = "thread";
+      this.command = {
+        command: SelfCommands.OPEN_THREAD,
+        title: "",
+        arguments: [
+          {
+            channel,
+            user,
+            providerName,
+            parentTimestamp,
+            source: EventSource.activity
+          }
+        ]
+      };
+      return;
+    }
+
     if (!!channel) {
       // This is a channel item
       this.contextValue = "channel";
+    } else if (!!user && canCreateIMChannel) {
+      // This is a user without a DM channel, which is created on open
+      this.contextValue = "user";
+    }
+
+    if (!!this.contextValue) {
       this.command = {
         command: SelfCommands.OPEN,
         title: "",
-        arguments: [{ channel, user, source: EventSource.activity }]
+        arguments: [
+          { channel, user, providerName, source: EventSource.activity }
+        ]
       };
     }
 
@@ -123,6 +158,11 @@ class BaseTreeProvider
         // Can we send just this element?
         this.refresh();
       }
+
+      if (prevLabel.label !== newLabel.label) {
+        // Like drafts, which do not change the unread count
+        this.refresh();
+      }
     });
   }
 
@@ -171,13 +211,14 @@ class BaseTreeProvider
   }
 
   getItemForChannel(channelLabel: ChannelLabel): ChatTreeNode {
-    const { label, isOnline, channel } = channelLabel;
+    const { label, isOnline, channel, providerName } = channelLabel;
     return {
       label,
       isOnline,
       channel,
       isCategory: false,
-      user: null
+      user: null,
+      providerName
     };
   }
 
@@ -187,20 +228,33 @@ class BaseTreeProvider
       isOnline: false,
       isCategory: true,
       channel: null,
-      user: null
+      user: null,
+      providerName: undefined
     };
   }
 
   getTreeItem(element: ChatTreeNode): vscode.TreeItem {
     // TODO: when selected, the highlight on the tree item seems to stick. This might
     // be because we don't use URIs (~= each channel is a URI) to open/close. Need to investigate.
-    const { label, isOnline, isCategory, channel, user } = element;
+    const {
+      label,
+      isOnline,
+      isCategory,
+      channel,
+      user,
+      providerName,
+      canCreateIMChannel,
+      parentTimestamp
+    } = element;
     const treeItem = new CustomChatTreeItem(
       label,
       isOnline,
       isCategory,
       channel,
-      user
+      user,
+      providerName,
+      !!canCreateIMChannel,
+      parentTimestamp
     );
     return treeItem;
   }
@@ -255,9 +309,58 @@ export class IMsTreeProvider extends BaseTreeProvider {
   }
 }
 
+export class ThreadsTreeProvider extends BaseTreeProvider {
+  private threadLabels: ThreadLabel[] = [];
+
+  constructor(private providerName: string) {
+    super();
+    this.viewId = `chat.treeView.threads.${providerName}`;
+    this._disposables.push(
+      vscode.window.registerTreeDataProvider(this.viewId, this)
+    );
+  }
+
+  updateThreads(threadLabels: ThreadLabel[]) {
+    // Threads with unread replies are shown first, then the latest threads
+    const prevLabels = this.threadLabels.map(thread => thread.label);
+    this.threadLabels = threadLabels.sort(
+      (a, b) => b.unread - a.unread || +b.parentTimestamp - +a.parentTimestamp
+    );
+    const newLabels = this.threadLabels.map(thread => thread.label);
+
+    if (prevLabels.join("\n") !== newLabels.join("\n")) {
+      return this.refresh();
+    }
+  }
+
+  getItemForThread(threadLabel: ThreadLabel): ChatTreeNode {
+    const { label, channel, parentTimestamp } = threadLabel;
+    return {
+      label,
+      isOnline: false,
+      isCategory: false,
+      channel,
+      user: null,
+      providerName: this.providerName,
+      parentTimestamp
+    };
+  }
+
+  getRootChildren(): vscode.ProviderResult<ChatTreeNode[]> {
+    return Promise.resolve(
+      this.threadLabels.map(thread => this.getItemForThread(thread))
+    );
+  }
+
+  getParent(element: ChatTreeNode): vscode.ProviderResult<ChatTreeNode> {
+    return;
+  }
+}
+
 export class OnlineUsersTreeProvider extends BaseTreeProvider {
   private users: User[] = [];
   private imChannels: { [userId: string]: Channel } = {};
+  private canCreateIMChannel = false;
   private DM_ROLE_NAME = "Direct Messages";
   private OTHERS_ROLE_NAME = "Others";
 
@@ -269,8 +372,14 @@ export class OnlineUsersTreeProvider extends BaseTreeProvider {
     );
   }
 
-  updateData(currentUser: CurrentUser, users: Users, imChannels) {
+  updateData(
+    currentUser: CurrentUser,
+    users: Users,
+    imChannels,
+    capabilities: ChatProviderCapabilities
+  ) {
     const { id: currentId } = currentUser;
+    this.canCreateIMChannel = !!capabilities && capabilities.createIMChannel;
 
     const prevUserIds = new Set(this.users.map(user => user.id));
     this.users = Object.keys(users)
@@ -290,7 +399,9 @@ export class OnlineUsersTreeProvider extends BaseTreeProvider {
       isOnline: user.isOnline,
       isCategory: false,
       user,
-      channel: this.imChannels[user.id]
+      channel: this.imChannels[user.id],
+      providerName: this.providerName,
+      canCreateIMChannel: this.canCreateIMChannel
     };
   }
 
@@ -0,0 +1,18 @@
+import * as EmojiConvertor from "emoji-js";
+
+export const stripColons = (name: string): string => name.replace(/^:|:$/g, "");
+
+export const getNativeEmoji = (name: string): string => {
+  // Converts names like :smile: (or smile) to the unicode emoji. Custom
+  // emoji don't have a unicode version, and are returned without colons.
+  const emoji = new EmojiConvertor();
+  emoji.allow_native = true;
+  emoji.replace_mode = "unified";
+  return stripColons(emoji.replace_colons(`:${stripColons(name)}:`));
+};
+
+export const isSameReaction = (nameA: string, nameB: string): boolean => {
+  // Providers send reactions as :smile:, smile or the unicode emoji,
+  // depending on the API, and these are the same reaction
+  return getNativeEmoji(nameA) === getNativeEmoji(nameB);
+};
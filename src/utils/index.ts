@@ -86,3 +86,9 @@ export function toTitleCase(str) {
     return txt.charAt(0).toUpperCase() + txt.substr(1).toLowerCase();
   });
 }
+
+export const getWorkspaceKey = (provider: string, workspaceId: string) => {
+  // Workspaces that are connected in the background are saved,
+  // and sent in realtime commands, with this key
+  return `${provider}:${workspaceId}`;
+};
@@ -0,0 +1,71 @@
+import { Mention, Users, Channel } from "../interfaces";
+
+const MENTION_FORMATS = {
+  slack: {
+    user: (id: string) => `<@${id}>`,
+    channel: (id: string) => `<#${id}>`
+  },
+  discord: {
+    user: (id: string) => `<@${id}>`,
+    channel: (id: string) => `<#${id}>`
+  }
+};
+
+// Slack and Discord tokens like <@U123>, <@!123> and <#C123|general>
+const MENTION_TOKEN_PATTERN = /<([@#])!?(\w+)(?:\|[^>]*)?>/g;
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const encodeMentions = (
+  text: string,
+  mentions: Mention[],
+  provider: string
+): string => {
+  // Replaces mentions picked in the composer with the wire format of the
+  // provider. Other providers resolve plain "@name" text on their side.
+  const formats = MENTION_FORMATS[provider];
+
+  if (!formats || !mentions) {
+    return text;
+  }
+
+  return mentions.reduce((result, mention) => {
+    // The lookahead skips "@ann" in "@anna"
+    const pattern = new RegExp(`${escapeRegExp(mention.text)}(?![\\w.-])`, "g");
+    return result.replace(pattern, formats[mention.type](mention.id));
+  }, text);
+};
+
+export const decodeMentions = (
+  text: string,
+  users: Users,
+  channels: Channel[]
+): { text: string; mentions: Mention[] } => {
+  // Reverse of encodeMentions, so that edited messages show names, and
+  // are encoded again when they are sent. Unknown tokens are kept.
+  let mentions: Mention[] = [];
+  const decoded = text.replace(MENTION_TOKEN_PATTERN, (token, sigil, id) => {
+    const user = sigil === "@" ? users[id] : undefined;
+    const channel =
+      sigil === "#"
+        ? channels.find(({ id: channelId }) => channelId === id)
+        : undefined;
+    const mention: Mention | undefined = !!user
+      ? { text: `@${user.name}`, type: "user", id }
+      : !!channel
+        ? { text: `#${channel.name}`, type: "channel", id }
+        : undefined;
+
+    if (!mention) {
+      return token;
+    }
+
+    if (!mentions.some(existing => existing.text === mention.text)) {
+      mentions.push(mention);
+    }
+
+    return mention.text;
+  });
+  return { text: decoded, mentions };
+};
@@ -57,7 +57,12 @@ export default class WebviewContainer {
 
   update(uiMessage: UIMessage) {
     const { messages, users, channel, currentUser } = uiMessage;
-    const annotated = this.getAnnotatedMessages(messages, channel, currentUser);
+    const annotated = this.getAnnotatedMessages(
+      messages,
+      channel,
+      currentUser,
+      uiMessage.highlightTimestamp
+    );
     const groups = this.getMessageGroups(annotated, users);
     this.panel.webview.postMessage({ ...uiMessage, messages: groups });
     this.panel.title = !!channel ? channel.name : "";
@@ -86,17 +91,31 @@ export default class WebviewContainer {
   getAnnotatedMessages(
     messages: ChannelMessages,
     channel: Channel,
-    currentUser: CurrentUser
+    currentUser: CurrentUser,
+    highlightTimestamp?: string
   ): ChannelMessages {
     if (!!channel) {
-      // Annotates every message with isUnread (boolean)
+      // Annotates every message with isUnread, isOwnMessage and
+      // isHighlighted (boolean), and every reaction with isOwnReaction (boolean)
       const { readTimestamp } = channel;
       let result = {};
       Object.keys(messages).forEach(ts => {
         const message = messages[ts];
         const isDifferentUser = message.userId !== currentUser.id;
         const isUnread = isDifferentUser && +ts > +readTimestamp;
-        result[ts] = { ...message, isUnread };
+        const isOwnMessage = !isDifferentUser;
+        const reactions = message.reactions.map(reaction => ({
+          ...reaction,
+          isOwnReaction: reaction.userIds.indexOf(currentUser.id) >= 0
+        }));
+        const isHighlighted = ts === highlightTimestamp;
+        result[ts] = {
+          ...message,
+          isUnread,
+          isOwnMessage,
+          isHighlighted,
+          reactions
+        };
       });
       return result;
     } else {
@@ -202,7 +221,19 @@ function getWebviewContent(staticPath) {
             v-bind:messages="messages"
             v-bind:users="users"
             v-bind:channel="channel"
-            v-bind:status="statusText">
+            v-bind:channels="channels"
+            v-bind:slash-commands="slashCommands"
+            v-bind:capabilities="capabilities"
+            v-bind:custom-emoji="customEmoji"
+            v-bind:has-more-history="hasMoreHistory"
+            v-bind:thread-timestamp="threadTimestamp"
+            v-bind:highlight-timestamp="highlightTimestamp"
+            v-bind:draft="draft"
+            v-bind:thread-draft="threadDraft"
+            v-bind:draft-mentions="draftMentions"
+            v-bind:thread-draft-mentions="threadDraftMentions"
+            v-bind:status="statusText"
+            v-bind:is-offline="isOffline">
           </app-container>
       </div>
   
@@ -213,7 +244,19 @@ function getWebviewContent(staticPath) {
               messages: [],
               users: {},
               channel: {},
-              statusText: ""
+              channels: [],
+              slashCommands: [],
+              capabilities: {},
+              customEmoji: {},
+              hasMoreHistory: false,
+              threadTimestamp: undefined,
+              highlightTimestamp: undefined,
+              draft: "",
+              threadDraft: "",
+              draftMentions: [],
+              threadDraftMentions: [],
+              statusText: "",
+              isOffline: false
             }
           });
 
@@ -221,7 +264,19 @@ function getWebviewContent(staticPath) {
             app.messages = event.data.messages;
             app.users = event.data.users;
             app.channel = event.data.channel
+            app.channels = event.data.channels || []
+            app.slashCommands = event.data.slashCommands || []
+            app.capabilities = event.data.capabilities || {}
+            app.customEmoji = event.data.customEmoji || {}
+            app.hasMoreHistory = !!event.data.hasMoreHistory
+            app.threadTimestamp = event.data.threadTimestamp
+            app.highlightTimestamp = event.data.highlightTimestamp
+            app.draft = event.data.draft
+            app.threadDraft = event.data.threadDraft
+            app.draftMentions = event.data.draftMentions || []
+            app.threadDraftMentions = event.data.threadDraftMentions || []
             app.statusText = event.data.statusText
+            app.isOffline = event.data.connectionState === "offline"
           });
       </script>
   </body>
@@ -1,9 +1,10 @@
 const vscode = acquireVsCodeApi();
 
-function sendMessage(text, type) {
+function sendMessage(text, type, mentions) {
   vscode.postMessage({
     type,
-    text
+    text,
+    mentions
   });
 }
 
@@ -12,41 +13,350 @@ function openLink(href) {
   return sendMessage(href, "link");
 }
 
+function openMention(mentionType, id) {
+  // Handler for user and channel pills in messages
+  vscode.postMessage({
+    type: "internal",
+    text: "open_mention",
+    mentionType,
+    id
+  });
+}
+
+// Events between components that are not parent and child, like
+// the up arrow in the composer that edits the last message
+const messageBus = new Vue();
+
+// Common emoji for the reaction picker, by their names in emoji-js
+const STANDARD_EMOJI = {
+  "+1": "👍",
+  "-1": "👎",
+  smile: "😄",
+  joy: "😂",
+  heart: "❤️",
+  tada: "🎉",
+  eyes: "👀",
+  thinking_face: "🤔",
+  pray: "🙏",
+  clap: "👏",
+  fire: "🔥",
+  rocket: "🚀",
+  white_check_mark: "✅",
+  heavy_plus_sign: "➕",
+  wave: "👋",
+  raised_hands: "🙌",
+  cry: "😢",
+  confused: "😕"
+};
+
+function stripColons(name) {
+  return name.replace(/^:|:$/g, "");
+}
+
+const MAX_SUGGESTIONS = 8;
+
+function getSuggestions(trigger, query, autocomplete) {
+  // Suggestions for the composer: every suggestion has the label shown in
+  // the list, the text to insert, and the mention to encode on send
+  const matches = name => name.toLowerCase().indexOf(query) >= 0;
+  const { users, channels, customEmoji, slashCommands } = autocomplete;
+  let suggestions = [];
+
+  if (trigger === "@") {
+    suggestions = Object.keys(users)
+      .map(userId => users[userId])
+      .filter(user => matches(user.name) || matches(user.fullName || ""))
+      .map(user => ({
+        label: `@${user.name}`,
+        detail: user.fullName,
+        insertText: `@${user.name} `,
+        mention: { text: `@${user.name}`, type: "user", id: user.id }
+      }));
+  } else if (trigger === "#") {
+    suggestions = channels
+      .filter(channel => channel.type !== "im" && matches(channel.name))
+      .map(channel => ({
+        label: `#${channel.name}`,
+        insertText: `#${channel.name} `,
+        mention: { text: `#${channel.name}`, type: "channel", id: channel.id }
+      }));
+  } else if (trigger === ":") {
+    const names = [
+      ...Object.keys(STANDARD_EMOJI),
+      ...Object.keys(customEmoji || {})
+    ];
+    suggestions = names.filter(matches).map(name => ({
+      label: `:${name}:`,
+      emoji: STANDARD_EMOJI[name],
+      imageUrl: !!customEmoji ? customEmoji[name] : undefined,
+      insertText: `:${name}: `
+    }));
+  } else if (trigger === "/") {
+    suggestions = slashCommands
+      .filter(command => command.startsWith(`/${query}`))
+      .map(command => ({ label: command, insertText: `${command} ` }));
+  }
+
+  return suggestions.slice(0, MAX_SUGGESTIONS);
+}
+
+// Milliseconds of no typing before the draft is saved, since every
+// save writes to the global state of the extension
+const DRAFT_DELAY = 500;
+
+function updateDraft(channelId, parentTimestamp, draft, mentions) {
+  // Drafts are saved by the extension, to restore them later
+  vscode.postMessage({
+    type: "internal",
+    text: "update_draft",
+    channelId,
+    parentTimestamp,
+    draft,
+    mentions
+  });
+}
+
+// Milliseconds between typing notifications, while the user types
+const TYPING_INTERVAL = 3000;
+
+function sendTyping(channelId) {
+  vscode.postMessage({
+    type: "internal",
+    text: "typing",
+    channelId
+  });
+}
+
+function openThread(parentTimestamp) {
+  vscode.postMessage({
+    type: "internal",
+    text: "open_thread",
+    parentTimestamp
+  });
+}
+
 function formattedTime(ts) {
   const d = new Date(+ts * 1000);
   return d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
 }
 
 Vue.component("app-container", {
-  props: ["messages", "users", "channel", "status"],
+  props: [
+    "messages",
+    "users",
+    "channel",
+    "channels",
+    "slashCommands",
+    "capabilities",
+    "customEmoji",
+    "hasMoreHistory",
+    "threadTimestamp",
+    "highlightTimestamp",
+    "draft",
+    "threadDraft",
+    "draftMentions",
+    "threadDraftMentions",
+    "status",
+    "isOffline"
+  ],
+  computed: {
+    autocomplete: function() {
+      return {
+        users: this.users,
+        channels: this.channels,
+        customEmoji: this.customEmoji,
+        slashCommands: this.slashCommands
+      };
+    },
+    threadMessage: function() {
+      if (!this.threadTimestamp) {
+        return;
+      }
+
+      const groups = this.messages.map(dateGroup => dateGroup.groups);
+      const flattened = [].concat.apply([], groups);
+      return [].concat
+        .apply([], flattened.map(group => group.messages))
+        .find(message => message.timestamp === this.threadTimestamp);
+    }
+  },
   template: /* html */ `
     <div class="vue-container">
-      <messages-section
-        v-bind:messages="messages"
-        v-bind:users="users">
-      </messages-section>
-
-      <form-section
-        ref="formSection"
-        v-bind:channel="channel"
-        v-bind:status="status">
-      </form-section>
+      <div class="main-section">
+        <messages-section
+          v-bind:messages="messages"
+          v-bind:users="users"
+          v-bind:capabilities="capabilities"
+          v-bind:customEmoji="customEmoji"
+          v-bind:hasMoreHistory="hasMoreHistory"
+          v-bind:highlightTimestamp="highlightTimestamp"
+          v-bind:channelId="channel ? channel.id : undefined">
+        </messages-section>
+
+        <form-section
+          ref="formSection"
+          v-bind:channel="channel"
+          v-bind:draft="draft"
+          v-bind:draftMentions="draftMentions"
+          v-bind:autocomplete="autocomplete"
+          v-bind:isOffline="isOffline"
+          v-bind:status="status">
+        </form-section>
+      </div>
+
+      <thread-section
+        v-if="threadMessage"
+        v-bind:message="threadMessage"
+        v-bind:channelId="channel ? channel.id : undefined"
+        v-bind:draft="threadDraft"
+        v-bind:draftMentions="threadDraftMentions"
+        v-bind:allUsers="users"
+        v-bind:capabilities="capabilities"
+        v-bind:autocomplete="autocomplete"
+        v-bind:isOffline="isOffline">
+      </thread-section>
+    </div>
+  `
+});
+
+Vue.component("thread-section", {
+  // The open thread, with all replies and its own composer
+  props: [
+    "message",
+    "channelId",
+    "draft",
+    "draftMentions",
+    "allUsers",
+    "capabilities",
+    "autocomplete",
+    "isOffline"
+  ],
+  data: function() {
+    return {
+      broadcast: false
+    };
+  },
+  computed: {
+    userName: function() {
+      const user = this.allUsers[this.message.userId];
+      return !!user ? user.name : this.message.userId;
+    },
+    readableTimestamp: function() {
+      return formattedTime(this.message.timestamp);
+    },
+    replies: function() {
+      const { replies } = this.message;
+      return Object.keys(replies)
+        .sort((a, b) => +a - +b)
+        .map(ts => replies[ts]);
+    },
+    placeholder: function() {
+      return "Reply to thread";
+    }
+  },
+  methods: {
+    onClose: function() {
+      vscode.postMessage({ type: "internal", text: "close_thread" });
+    },
+    onSubmit: function(text, mentions) {
+      const payload = {
+        text,
+        parentTimestamp: this.message.timestamp,
+        broadcast: this.broadcast
+      };
+      sendMessage(payload, "thread_reply", mentions);
+      this.broadcast = false;
+    },
+    onDraft: function(text, mentions) {
+      updateDraft(this.channelId, this.message.timestamp, text, mentions);
+    },
+    onTyping: function() {
+      sendTyping(this.channelId);
+    }
+  },
+  template: /* html */ `
+    <div class="thread-section">
+      <div class="thread-header">
+        <strong>Thread</strong>
+        <a class="pointer" v-on:click="onClose">Close</a>
+      </div>
+      <div class="thread-messages">
+        <div class="thread-parent">
+          <strong>{{ userName }}</strong>
+          <span class="timestamp">{{ readableTimestamp }}</span>
+          <div v-if="message.textHTML" v-html="message.textHTML"></div>
+        </div>
+        <ul class="replies">
+          <message-reply-item
+            v-for="reply in replies"
+            v-bind:key="reply.timestamp"
+            v-bind:allUsers="allUsers"
+            v-bind:userId="reply.userId"
+            v-bind:timestamp="reply.timestamp"
+            v-bind:textHTML="reply.textHTML"
+            v-bind:sendState="reply.sendState"
+            v-bind:clientMessageId="reply.clientMessageId">
+          </message-reply-item>
+        </ul>
+      </div>
+      <message-input
+        v-bind:key="message.timestamp"
+        v-bind:placeholder="placeholder"
+        v-bind:initialText="draft"
+        v-bind:initialMentions="draftMentions"
+        v-bind:autocomplete="autocomplete"
+        v-bind:onSubmit="onSubmit"
+        v-bind:onDraft="onDraft"
+        v-bind:onTyping="onTyping"
+        v-bind:disabled="isOffline">
+      </message-input>
+      <label v-if="capabilities.threadBroadcast" class="thread-broadcast">
+        <input type="checkbox" v-model="broadcast"></input>
+        Also send to channel
+      </label>
     </div>
   `
 });
 
 Vue.component("messages-section", {
-  props: ["messages", "users"],
+  props: [
+    "messages",
+    "users",
+    "capabilities",
+    "customEmoji",
+    "hasMoreHistory",
+    "highlightTimestamp",
+    "channelId"
+  ],
   data: function() {
     return {
-      messagesLength: 0
+      messagesLength: 0,
+      firstTimestamp: undefined,
+      isLoadingHistory: false,
+      scrollBottom: 0,
+      scrolledToTimestamp: undefined
     };
   },
+  watch: {
+    channelId: function() {
+      this.isLoadingHistory = false;
+      this.firstTimestamp = undefined;
+      this.scrolledToTimestamp = undefined;
+    }
+  },
   template: /* html */ `
-    <div class="messages-section">
+    <div class="messages-section" v-on:scroll="onScroll">
+      <div v-if="isLoadingHistory" class="history-loader">
+        Loading older messages...
+      </div>
+      <div v-else-if="hasMoreHistory" class="history-loader">
+        <a class="pointer" v-on:click="loadOlderHistory">Load older messages</a>
+      </div>
       <messages-date-group
         v-for="dateGroup in messages"
         v-bind:users="users"
+        v-bind:capabilities="capabilities"
+        v-bind:customEmoji="customEmoji"
         v-bind:key="dateGroup.date"
         v-bind:groups="dateGroup.groups"
         v-bind:date="dateGroup.date">
@@ -59,16 +369,83 @@ Vue.component("messages-section", {
     const newLength = flattened.reduce((acc, currentGroup) => {
       return acc + currentGroup.messages.length;
     }, 0);
+    const firstTimestamp = flattened.length
+      ? flattened[0].minTimestamp
+      : undefined;
+    const hasOlderMessages =
+      !!this.firstTimestamp && +firstTimestamp < +this.firstTimestamp;
+
+    const highlighted = this.$el.querySelector(".message-item.highlighted");
+    const isNewHighlight = this.highlightTimestamp !== this.scrolledToTimestamp;
+    const isChanged = newLength !== this.messagesLength;
 
-    if (newLength !== this.messagesLength) {
-      this.messagesLength = newLength;
+    if (this.isLoadingHistory && hasOlderMessages) {
+      // Older messages were added on top, so we keep the position of
+      // the messages that were visible before
+      this.$el.scrollTop = this.$el.scrollHeight - this.scrollBottom;
+      this.isLoadingHistory = false;
+    } else if (!!highlighted && (isNewHighlight || isChanged)) {
+      // Search results stay in view, while the messages around them load
+      highlighted.scrollIntoView({ block: "center" });
+      this.scrolledToTimestamp = this.highlightTimestamp;
+    } else if (isChanged) {
       this.$el.scrollTop = this.$el.scrollHeight;
     }
+
+    if (!this.hasMoreHistory) {
+      this.isLoadingHistory = false;
+    }
+
+    this.messagesLength = newLength;
+    this.firstTimestamp = firstTimestamp;
+
+    if (this.$el.scrollHeight <= this.$el.clientHeight) {
+      // Without a scrollbar, there is no scroll to the top
+      this.onScroll();
+    }
+  },
+  methods: {
+    onScroll: function() {
+      const isAtTop = this.$el.scrollTop === 0;
+
+      if (isAtTop) {
+        this.loadOlderHistory();
+      }
+    },
+    loadOlderHistory: function() {
+      if (this.hasMoreHistory && !this.isLoadingHistory) {
+        this.isLoadingHistory = true;
+        this.scrollBottom = this.$el.scrollHeight - this.$el.scrollTop;
+        sendMessage("load_older_history", "internal");
+      }
+    },
+    editLastMessage: function() {
+      if (!this.capabilities.editMessage) {
+        return;
+      }
+
+      const groups = this.messages.map(dateGroup => dateGroup.groups);
+      const flattened = [].concat.apply([], groups);
+      const ownMessages = [].concat
+        .apply([], flattened.map(group => group.messages))
+        .filter(message => message.isOwnMessage && !message.sendState);
+
+      if (ownMessages.length > 0) {
+        const lastMessage = ownMessages[ownMessages.length - 1];
+        messageBus.$emit("edit_message", lastMessage.timestamp);
+      }
+    }
+  },
+  mounted() {
+    messageBus.$on("edit_last_message", this.editLastMessage);
+  },
+  beforeDestroy() {
+    messageBus.$off("edit_last_message", this.editLastMessage);
   }
 });
 
 Vue.component("messages-date-group", {
-  props: ["groups", "users", "date"],
+  props: ["groups", "users", "capabilities", "customEmoji", "date"],
   template: /* html */ `
     <div class="messages-date-section">
       <date-separator v-bind:date="date"></date-separator>
@@ -77,6 +454,8 @@ Vue.component("messages-date-group", {
         v-bind:key="group.key"
         v-bind:messages="group.messages"
         v-bind:allUsers="users"
+        v-bind:capabilities="capabilities"
+        v-bind:customEmoji="customEmoji"
         v-bind:userId="group.userId"
         v-bind:user="group.user"
         v-bind:timestamp="group.minTimestamp">
@@ -99,7 +478,15 @@ Vue.component("date-separator", {
 });
 
 Vue.component("message-group", {
-  props: ["messages", "allUsers", "userId", "user", "timestamp"],
+  props: [
+    "messages",
+    "allUsers",
+    "capabilities",
+    "customEmoji",
+    "userId",
+    "user",
+    "timestamp"
+  ],
   computed: {
     readableTimestamp: function() {
       return formattedTime(this.timestamp);
@@ -124,7 +511,9 @@ Vue.component("message-group", {
             v-for="message in messages"
             v-bind:key="message.timestamp"
             v-bind:message="message"
-            v-bind:allUsers="allUsers">
+            v-bind:allUsers="allUsers"
+            v-bind:capabilities="capabilities"
+            v-bind:customEmoji="customEmoji">
           </message-item>
         </ul>
       </div>
@@ -133,27 +522,137 @@ Vue.component("message-group", {
 });
 
 Vue.component("message-item", {
-  props: ["message", "allUsers"],
+  props: ["message", "allUsers", "capabilities", "customEmoji"],
+  data: function() {
+    return {
+      isEditing: false,
+      isPickingReaction: false
+    };
+  },
   computed: {
     hasReplies: function() {
       return Object.keys(this.message.replies).length > 0;
+    },
+    isSent: function() {
+      // Local echoes of our messages cannot be acted on yet
+      return !this.message.sendState;
+    },
+    canEdit: function() {
+      const { isOwnMessage } = this.message;
+      return this.isSent && isOwnMessage && this.capabilities.editMessage;
+    },
+    canDelete: function() {
+      const { isOwnMessage } = this.message;
+      return this.isSent && isOwnMessage && this.capabilities.deleteMessage;
+    },
+    canReact: function() {
+      return this.isSent && !!this.capabilities.reactions;
+    },
+    canReply: function() {
+      return this.isSent && !!this.capabilities.threads;
+    },
+    editText: function() {
+      // Mentions are shown as names, and encoded again on submit
+      const { editText, text } = this.message;
+      return editText !== undefined ? editText : text;
     }
   },
+  methods: {
+    onEdit: function() {
+      this.isEditing = true;
+    },
+    onEditSubmit: function(text, mentions) {
+      if (text !== this.editText) {
+        const payload = { text, timestamp: this.message.timestamp };
+        sendMessage(payload, "edit_message", mentions);
+      }
+
+      this.isEditing = false;
+    },
+    onEditCancel: function() {
+      this.isEditing = false;
+    },
+    onDelete: function() {
+      sendMessage({ timestamp: this.message.timestamp }, "delete_message");
+    },
+    onReply: function() {
+      openThread(this.message.timestamp);
+    },
+    onReact: function() {
+      this.isPickingReaction = !this.isPickingReaction;
+    },
+    onReactionPicked: function(reactionName) {
+      const payload = {
+        timestamp: this.message.timestamp,
+        reactionName: `:${reactionName}:`
+      };
+      sendMessage(payload, "add_reaction");
+      this.isPickingReaction = false;
+    },
+    onEditRequest: function(timestamp) {
+      if (timestamp === this.message.timestamp && this.canEdit) {
+        this.isEditing = true;
+      }
+    }
+  },
+  mounted() {
+    messageBus.$on("edit_message", this.onEditRequest);
+  },
+  beforeDestroy() {
+    messageBus.$off("edit_message", this.onEditRequest);
+  },
   template: /* html */ `
-    <li v-bind:class="{ unread: message.isUnread }">
-      <div v-if="message.textHTML" v-html="message.textHTML"></div>
+    <li
+      class="message-item"
+      v-bind:class="{
+        unread: message.isUnread,
+        highlighted: message.isHighlighted
+      }">
+      <message-input
+        v-if="isEditing"
+        v-bind:initialText="editText"
+        v-bind:initialMentions="message.editMentions"
+        v-bind:onSubmit="onEditSubmit"
+        v-bind:onCancel="onEditCancel">
+      </message-input>
+      <div v-else-if="message.textHTML" v-html="message.textHTML"></div>
       <span v-if="message.isEdited" class="edited">(edited)</span>
-      <message-reactions v-bind:reactions="message.reactions"></message-reactions>
+      <send-state
+        v-bind:sendState="message.sendState"
+        v-bind:clientMessageId="message.clientMessageId">
+      </send-state>
+      <span
+        v-if="!isEditing && (canReply || canReact || canEdit || canDelete)"
+        class="message-actions">
+        <a v-if="canReply" class="pointer" v-on:click="onReply">Reply</a>
+        <a v-if="canReact" class="pointer" v-on:click="onReact">React</a>
+        <a v-if="canEdit" class="pointer" v-on:click="onEdit">Edit</a>
+        <a v-if="canDelete" class="pointer" v-on:click="onDelete">Delete</a>
+      </span>
+      <reaction-picker
+        v-if="isPickingReaction"
+        v-bind:customEmoji="customEmoji"
+        v-bind:onSelect="onReactionPicked">
+      </reaction-picker>
+      <message-reactions
+        v-bind:reactions="message.reactions"
+        v-bind:timestamp="message.timestamp"
+        v-bind:customEmoji="customEmoji"
+        v-bind:canReact="canReact">
+      </message-reactions>
       <message-content v-bind:content="message.content"></message-content>
       <message-replies
-        v-if="hasReplies" v-bind:message="message" v-bind:allUsers="allUsers">
+        v-if="hasReplies"
+        v-bind:message="message"
+        v-bind:allUsers="allUsers"
+        v-bind:canReply="capabilities.threads">
       </message-replies>
     </li>
   `
 });
 
 Vue.component("message-replies", {
-  props: ["message", "allUsers"],
+  props: ["message", "allUsers", "canReply"],
   data: function() {
     return {
       isExpanded: false
@@ -181,6 +680,9 @@ Vue.component("message-replies", {
     onSubmit: function(text) {
       const payload = { text, parentTimestamp: this.message.timestamp };
       sendMessage(payload, "thread_reply");
+    },
+    onOpenThread: function() {
+      openThread(this.message.timestamp);
     }
   },
   computed: {
@@ -212,6 +714,9 @@ Vue.component("message-replies", {
         <message-replies-images v-bind:images="imageUrls"></message-replies-images>
         <div>{{count}} replies</div>
         <div><a class="pointer" v-on:click="expandHandler">{{expandText}}</a></div>
+        <div v-if="canReply">
+          <a class="pointer" v-on:click="onOpenThread">Open thread</a>
+        </div>
       </div>
       <ul v-if="isExpanded" class="replies">
         <message-reply-item
@@ -220,11 +725,13 @@ Vue.component("message-replies", {
           v-bind:allUsers="allUsers"
           v-bind:userId="reply.userId"
           v-bind:timestamp="reply.timestamp"
-          v-bind:textHTML="reply.textHTML">
+          v-bind:textHTML="reply.textHTML"
+          v-bind:sendState="reply.sendState"
+          v-bind:clientMessageId="reply.clientMessageId">
         </message-reply-item>
       </ul>
       <message-input
-        v-if="isExpanded"
+        v-if="isExpanded && canReply"
         v-bind:placeholder="placeholder"
         v-bind:onSubmit="onSubmit"
         ref="threadFormSection">
@@ -233,8 +740,49 @@ Vue.component("message-replies", {
   `
 });
 
+Vue.component("send-state", {
+  // Local echoes are sending, or have failed with actions to retry
+  props: ["sendState", "clientMessageId"],
+  methods: {
+    onRetry: function() {
+      vscode.postMessage({
+        type: "internal",
+        text: "retry_message",
+        clientMessageId: this.clientMessageId
+      });
+    },
+    onDiscard: function() {
+      vscode.postMessage({
+        type: "internal",
+        text: "discard_message",
+        clientMessageId: this.clientMessageId
+      });
+    }
+  },
+  template: /* html */ `
+    <span
+      v-if="sendState === 'sending' || sendState === 'failed'"
+      class="send-state"
+      v-bind:class="sendState">
+      <span v-if="sendState === 'sending'">Sending...</span>
+      <span v-else>
+        Not sent.
+        <a class="pointer" v-on:click="onRetry">Retry</a>
+        <a class="pointer" v-on:click="onDiscard">Discard</a>
+      </span>
+    </span>
+  `
+});
+
 Vue.component("message-reply-item", {
-  props: ["userId", "timestamp", "textHTML", "allUsers"],
+  props: [
+    "userId",
+    "timestamp",
+    "textHTML",
+    "sendState",
+    "clientMessageId",
+    "allUsers"
+  ],
   computed: {
     username: function() {
       const user = this.allUsers[this.userId];
@@ -251,6 +799,10 @@ Vue.component("message-reply-item", {
         <span class="timestamp">{{ readableTimestamp }}:</span>
       </span>
       <span v-if="textHTML" v-html="textHTML"></span>
+      <send-state
+        v-bind:sendState="sendState"
+        v-bind:clientMessageId="clientMessageId">
+      </send-state>
     </li>
   `
 });
@@ -265,13 +817,18 @@ Vue.component("message-replies-images", {
 });
 
 Vue.component("message-reactions", {
-  props: ["reactions"],
+  props: ["reactions", "timestamp", "customEmoji", "canReact"],
   template: /* html */ `
     <ul class="message-reactions">
       <message-reaction v-for="reaction in reactions"
         v-bind:emoji="reaction.name"
+        v-bind:rawName="reaction.rawName"
         v-bind:count="reaction.count"
         v-bind:users="reaction.userIds"
+        v-bind:isOwnReaction="reaction.isOwnReaction"
+        v-bind:timestamp="timestamp"
+        v-bind:customEmoji="customEmoji"
+        v-bind:canReact="canReact"
         v-bind:key="reaction.name">
       </message-reaction>
     </ul>
@@ -279,15 +836,103 @@ Vue.component("message-reactions", {
 });
 
 Vue.component("message-reaction", {
-  props: ["emoji", "count", "users"],
+  props: [
+    "emoji",
+    "rawName",
+    "count",
+    "users",
+    "isOwnReaction",
+    "timestamp",
+    "customEmoji",
+    "canReact"
+  ],
+  computed: {
+    imageUrl: function() {
+      // Custom emoji are not converted, and are shown as images
+      const name = stripColons(this.rawName || "");
+      return !!this.customEmoji ? this.customEmoji[name] : undefined;
+    }
+  },
+  methods: {
+    onClick: function() {
+      // Clicking a reaction toggles our own reaction
+      if (!this.canReact) {
+        return;
+      }
+
+      const payload = {
+        timestamp: this.timestamp,
+        reactionName: this.rawName || this.emoji
+      };
+      const type = this.isOwnReaction ? "remove_reaction" : "add_reaction";
+      sendMessage(payload, type);
+    }
+  },
   template: /* html */ `
-    <li>
-      <div>{{emoji}}</div>
+    <li
+      v-bind:class="{ own: isOwnReaction, pointer: canReact }"
+      v-on:click="onClick">
+      <img v-if="imageUrl" v-bind:src="imageUrl" class="custom-emoji"></img>
+      <div v-else>{{emoji}}</div>
       <div>{{count}}</div>
     </li>
   `
 });
 
+Vue.component("reaction-picker", {
+  // Standard emoji, followed by the custom emoji of the workspace
+  props: ["customEmoji", "onSelect"],
+  data: function() {
+    return {
+      filterText: ""
+    };
+  },
+  computed: {
+    standardNames: function() {
+      return this.filterNames(Object.keys(STANDARD_EMOJI));
+    },
+    customNames: function() {
+      return this.filterNames(Object.keys(this.customEmoji || {}));
+    }
+  },
+  methods: {
+    filterNames: function(names) {
+      const filterText = this.filterText.trim().toLowerCase();
+      return names.filter(name => name.indexOf(filterText) >= 0);
+    },
+    getStandardEmoji: function(name) {
+      return STANDARD_EMOJI[name];
+    }
+  },
+  template: /* html */ `
+    <div class="reaction-picker">
+      <input
+        v-model="filterText"
+        v-focus
+        placeholder="Search emoji">
+      </input>
+      <ul>
+        <li
+          v-for="name in standardNames"
+          v-bind:key="name"
+          v-bind:title="name"
+          class="pointer"
+          v-on:click="onSelect(name)">
+          {{ getStandardEmoji(name) }}
+        </li>
+        <li
+          v-for="name in customNames"
+          v-bind:key="'custom-' + name"
+          v-bind:title="name"
+          class="pointer"
+          v-on:click="onSelect(name)">
+          <img v-bind:src="customEmoji[name]" class="custom-emoji"></img>
+        </li>
+      </ul>
+    </div>
+  `
+});
+
 Vue.component("message-content", {
   // This renders the attachment portion of the message
   props: ["content"],
@@ -342,7 +987,18 @@ Vue.component("message-title", {
 });
 
 Vue.component("message-input", {
-  props: ["placeholder", "onSubmit"],
+  props: [
+    "placeholder",
+    "initialText",
+    "initialMentions",
+    "autocomplete",
+    "onSubmit",
+    "onDraft",
+    "onTyping",
+    "onCancel",
+    "onArrowUp",
+    "disabled"
+  ],
   watch: {
     text: function(newText, oldText) {
       if (newText && !newText.trim()) {
@@ -352,23 +1008,51 @@ Vue.component("message-input", {
         this.text = "";
       }
       this.resizeInput();
+      this.updateSuggestions();
     }
   },
   data: function() {
     return {
-      text: "",
-      inComposition: false
+      text: this.initialText || "",
+      inComposition: false,
+      suggestions: [],
+      selectedIndex: 0,
+      triggerStart: 0,
+      mentions: this.initialMentions || [],
+      typingAt: 0,
+      draftTimer: undefined
     };
   },
   template: /* html */ `
     <form class="message-input-form" v-on:submit="onSubmitFunc">
+      <ul v-if="suggestions.length > 0" class="autocomplete">
+        <li
+          v-for="(suggestion, index) in suggestions"
+          v-bind:key="suggestion.label"
+          v-bind:class="{ selected: index === selectedIndex }"
+          class="pointer"
+          v-on:mousedown.prevent="onSuggestionPicked(index)">
+          <img
+            v-if="suggestion.imageUrl"
+            v-bind:src="suggestion.imageUrl"
+            class="custom-emoji">
+          </img>
+          <span v-else-if="suggestion.emoji">{{ suggestion.emoji }}</span>
+          <span>{{ suggestion.label }}</span>
+          <span v-if="suggestion.detail" class="detail">
+            {{ suggestion.detail }}
+          </span>
+        </li>
+      </ul>
       <textarea
         ref="messageInput"
         v-model="text"
         v-bind:placeholder="placeholder"
         v-on:keydown="onKeydown"
+        v-on:input="onInput"
         v-on:keydown.meta.65="onSelectAll"
         v-on:focus="onFocus"
+        v-bind:disabled="disabled"
         v-focus
         rows="1">
       </textarea>
@@ -382,11 +1066,138 @@ Vue.component("message-input", {
     this.$refs.messageInput.addEventListener("compositionend", event => {
       this.inComposition = false;
     });
+    this.resizeInput();
+  },
+  beforeDestroy() {
+    // The input is destroyed when the channel or thread is changed
+    if (!!this.draftTimer) {
+      this.saveDraft();
+    }
   },
   methods: {
     onSubmitFunc: function(event) {
-      this.onSubmit(this.text);
+      if (this.disabled) {
+        // Offline, so the text is kept till the connection is back
+        return;
+      }
+
+      this.onSubmit(this.text, this.getMentions());
       this.text = "";
+      this.mentions = [];
+      this.saveDraft();
+    },
+    getMentions: function() {
+      // Mentions that were picked and then deleted are not encoded
+      return this.mentions.filter(
+        mention => this.text.indexOf(mention.text) >= 0
+      );
+    },
+    onInput: function(event) {
+      this.updateDraft();
+      this.updateTyping();
+    },
+    updateTyping: function() {
+      // Slash commands are not sent as messages, so they are left out
+      const isMessage = !!this.text.trim() && !this.text.startsWith("/");
+      const now = Date.now();
+
+      if (
+        !!this.onTyping &&
+        isMessage &&
+        now - this.typingAt > TYPING_INTERVAL
+      ) {
+        this.typingAt = now;
+        this.onTyping();
+      }
+    },
+    updateDraft: function() {
+      // Saved once the user pauses typing
+      clearTimeout(this.draftTimer);
+      this.draftTimer = setTimeout(() => this.saveDraft(), DRAFT_DELAY);
+    },
+    saveDraft: function() {
+      // Whitespace is left out, like the newline of the hack above
+      const isWhitespace = !!this.text && !this.text.trim();
+      clearTimeout(this.draftTimer);
+      this.draftTimer = undefined;
+
+      if (!!this.onDraft && !isWhitespace) {
+        this.onDraft(this.text, this.getMentions());
+      }
+    },
+    updateSuggestions: function() {
+      const input = this.$refs.messageInput;
+
+      if (!this.autocomplete || !input) {
+        this.suggestions = [];
+        return;
+      }
+
+      // Triggers are at the start of a word, and slash commands
+      // at the start of the message
+      const beforeCursor = this.text.slice(0, input.selectionStart);
+      const wordMatch = beforeCursor.match(/(^|\s)([@#:])([\w.+-]*)$/);
+      const commandMatch = beforeCursor.match(/^\/([\w ]*)$/);
+      let suggestions = [];
+
+      if (commandMatch) {
+        const query = commandMatch[1].toLowerCase();
+        this.triggerStart = 0;
+        suggestions = getSuggestions("/", query, this.autocomplete);
+      } else if (wordMatch) {
+        const trigger = wordMatch[2];
+        const query = wordMatch[3].toLowerCase();
+        this.triggerStart = beforeCursor.length - query.length - 1;
+
+        // Emoji need two characters, so that ":)" is left alone
+        if (trigger !== ":" || query.length >= 2) {
+          suggestions = getSuggestions(trigger, query, this.autocomplete);
+        }
+      }
+
+      this.suggestions = suggestions;
+      this.selectedIndex = 0;
+    },
+    onSuggestionPicked: function(index) {
+      const suggestion = this.suggestions[index];
+      const input = this.$refs.messageInput;
+      const before = this.text.slice(0, this.triggerStart);
+      const after = this.text.slice(input.selectionStart);
+      const cursor = before.length + suggestion.insertText.length;
+      this.text = `${before}${suggestion.insertText}${after}`;
+
+      if (!!suggestion.mention) {
+        this.mentions.push(suggestion.mention);
+      }
+
+      this.suggestions = [];
+      this.saveDraft();
+      this.$nextTick(() => {
+        input.focus();
+        input.setSelectionRange(cursor, cursor);
+      });
+    },
+    onSuggestionKeydown: function(event) {
+      // Returns true if the autocomplete handled the key
+      const count = this.suggestions.length;
+
+      switch (event.code) {
+        case "ArrowDown":
+          this.selectedIndex = (this.selectedIndex + 1) % count;
+          return true;
+        case "ArrowUp":
+          this.selectedIndex = (this.selectedIndex - 1 + count) % count;
+          return true;
+        case "Enter":
+        case "Tab":
+          this.onSuggestionPicked(this.selectedIndex);
+          return true;
+        case "Escape":
+          this.suggestions = [];
+          return true;
+      }
+
+      return false;
     },
     onFocus: function(event) {
       return sendMessage("is_focused", "internal");
@@ -399,6 +1210,28 @@ Vue.component("message-input", {
       // Usability fixes
       // 1. Multiline support: only when shift + enter are pressed
       // 2. Submit on enter (without shift)
+      // 3. Up arrow in an empty input edits the last message
+      // 4. Escape cancels an edit
+      // 5. Autocomplete keys take precedence while suggestions are shown
+      const hasSuggestions = this.suggestions.length > 0;
+
+      if (hasSuggestions && !this.inComposition) {
+        if (this.onSuggestionKeydown(event)) {
+          event.preventDefault();
+          return;
+        }
+      }
+
+      if (event.code === "ArrowUp" && !this.text && !!this.onArrowUp) {
+        event.preventDefault();
+        this.onArrowUp();
+      }
+
+      if (event.code === "Escape" && !!this.onCancel) {
+        event.preventDefault();
+        this.onCancel();
+      }
+
       if (event.code === "Enter" && !event.shiftKey && !this.inComposition) {
         event.preventDefault();
 
@@ -420,23 +1253,51 @@ Vue.component("message-input", {
 });
 
 Vue.component("form-section", {
-  props: ["channel", "status"],
+  props: [
+    "channel",
+    "draft",
+    "draftMentions",
+    "autocomplete",
+    "status",
+    "isOffline"
+  ],
   computed: {
     placeholder: function() {
       return `Message ${!!this.channel ? this.channel.name : ""}`;
     }
   },
   methods: {
-    onSubmit: function(text) {
+    onSubmit: function(text, mentions) {
       const type = text.startsWith("/") ? "command" : "text";
-      sendMessage(text, type);
+      sendMessage(text, type, mentions);
+    },
+    onArrowUp: function() {
+      messageBus.$emit("edit_last_message");
+    },
+    onDraft: function(text, mentions) {
+      if (!!this.channel) {
+        updateDraft(this.channel.id, undefined, text, mentions);
+      }
+    },
+    onTyping: function() {
+      if (!!this.channel) {
+        sendTyping(this.channel.id);
+      }
     }
   },
   template: /* html */ `
     <div class="form-section">
       <message-input
+        v-bind:key="channel ? channel.id : undefined"
+        v-bind:initialText="draft"
+        v-bind:initialMentions="draftMentions"
         v-bind:onSubmit="onSubmit"
-        v-bind:placeholder="placeholder">
+        v-bind:onDraft="onDraft"
+        v-bind:onTyping="onTyping"
+        v-bind:onArrowUp="onArrowUp"
+        v-bind:autocomplete="autocomplete"
+        v-bind:placeholder="placeholder"
+        v-bind:disabled="isOffline">
       </message-input>
       <status-text v-bind:status="status"></status-text>
     </div>
@@ -0,0 +1,406 @@
+import ConfigHelper from "../config";
+import {
+  Users,
+  User,
+  Channel,
+  ChannelType,
+  ChannelMessages,
+  Message,
+  MessageReply
+} from "../interfaces";
+const rp = require("request-promise-native");
+
+const HISTORY_LIMIT = 50;
+const TOPIC_LIMIT = 1000;
+const MAX_TOPIC_LENGTH = 60;
+const PRESENCE_TIMEOUT = 140; // seconds after which users are offline
+const EVENTS_TIMEOUT = 100 * 1000; // events are long-polled, in ms
+
+// Private conversations don't have ids in Zulip, so we build
+// channel ids from the ids of the other users
+const PRIVATE_CHANNEL_PREFIX = "pm:";
+
+interface MessageInfo {
+  id: number;
+  channelId: string;
+  timestamp: string;
+  topic: string;
+  parentTimestamp: string;
+}
+
+export const getTimestamp = (raw: any): string => {
+  // Zulip timestamps are in seconds, which are not unique, and so
+  // we use the message id as the fraction
+  const fraction = `000000${raw.id % 1000000}`.slice(-6);
+  return `${raw.timestamp}.${fraction}`;
+};
+
+export const getTopicFromText = (text: string): string => {
+  // Stream messages need a topic, and messages that are not thread
+  // replies start a new topic
+  const firstLine = text.split("\n")[0].trim();
+  return firstLine.length > MAX_TOPIC_LENGTH
+    ? `${firstLine.substr(0, MAX_TOPIC_LENGTH - 3)}...`
+    : firstLine;
+};
+
+export const isActive = (presence: any): boolean => {
+  // Newer servers send timestamps, while older servers send
+  // statuses for every client of the user
+  if (!presence) {
+    return false;
+  }
+
+  if (presence.active_timestamp !== undefined) {
+    const now = new Date().valueOf() / 1000;
+    return now - presence.active_timestamp < PRESENCE_TIMEOUT;
+  }
+
+  return Object.keys(presence).some(
+    key => !!presence[key] && presence[key].status === "active"
+  );
+};
+
+export const getReactions = (rawReactions: any[]) => {
+  let reactions = {};
+  (rawReactions || []).forEach(({ emoji_name, user_id }) => {
+    const name = `:${emoji_name}:`;
+    const userIds = name in reactions ? reactions[name] : [];
+    reactions[name] = [...userIds, `${user_id}`];
+  });
+  return Object.keys(reactions).map(name => ({
+    name,
+    count: reactions[name].length,
+    userIds: reactions[name]
+  }));
+};
+
+export const isPrivateChannel = (channelId: string): boolean => {
+  return channelId.startsWith(PRIVATE_CHANNEL_PREFIX);
+};
+
+export const getPrivateChannelId = (userIds: number[]): string => {
+  const sorted = [...userIds].sort((a, b) => a - b);
+  return `${PRIVATE_CHANNEL_PREFIX}${sorted.join(",")}`;
+};
+
+export const getPrivateUserIds = (channelId: string): number[] => {
+  return channelId
+    .substr(PRIVATE_CHANNEL_PREFIX.length)
+    .split(",")
+    .map(userId => +userId);
+};
+
+export default class ZulipAPIClient {
+  currentUserId: number;
+
+  // Zulip identifies messages by id, while the extension uses
+  // timestamps. Topics are mapped to threads: the first message
+  // of a topic is the parent, and the rest are replies.
+  private messages: { [messageId: number]: MessageInfo } = {};
+  private topicParents: { [topicKey: string]: string } = {};
+  private streamNames: { [streamId: string]: string } = {};
+  private emails: { [userId: string]: string } = {};
+
+  constructor(private serverUrl: string, private token: string) {}
+
+  setCurrentUserId = (userId: number) => {
+    this.currentUserId = userId;
+  };
+
+  request = (
+    method: string,
+    uri: string,
+    params?: any,
+    timeout?: number
+  ): Promise<any> => {
+    // The token is the email and the api key, for basic auth
+    const separatorIndex = this.token.lastIndexOf(":");
+    let options: any = {
+      baseUrl: `${this.serverUrl}/api/v1/`,
+      uri,
+      method,
+      json: true,
+      timeout,
+      auth: {
+        user: this.token.substr(0, separatorIndex),
+        pass: this.token.substr(separatorIndex + 1)
+      }
+    };
+    const customAgent = ConfigHelper.getCustomAgent();
+
+    if (method === "GET") {
+      options.qs = params;
+    } else {
+      options.form = params;
+    }
+
+    if (!!customAgent) {
+      options.agent = customAgent;
+    }
+
+    return rp(options);
+  };
+
+  getTopicKey = (raw: any): string => {
+    // Topics are case-insensitive
+    return raw.type === "stream"
+      ? `${raw.stream_id}/${raw.subject.toLowerCase()}`
+      : undefined;
+  };
+
+  getChannelId = (raw: any): string => {
+    if (raw.type === "stream") {
+      return `${raw.stream_id}`;
+    }
+
+    const userIds = raw.display_recipient
+      .map(recipient => recipient.id)
+      .filter(userId => userId !== this.currentUserId);
+    return getPrivateChannelId(
+      userIds.length > 0 ? userIds : [this.currentUserId]
+    );
+  };
+
+  rememberMessage = (raw: any): MessageInfo => {
+    const timestamp = getTimestamp(raw);
+    const topicKey = this.getTopicKey(raw);
+    let parentTimestamp: string;
+
+    if (!!topicKey) {
+      const topicParent = this.topicParents[topicKey];
+
+      if (!topicParent || +timestamp <= +topicParent) {
+        this.topicParents[topicKey] = timestamp;
+      } else {
+        parentTimestamp = topicParent;
+      }
+    }
+
+    const info = {
+      id: raw.id,
+      channelId: this.getChannelId(raw),
+      timestamp,
+      topic: raw.subject,
+      parentTimestamp
+    };
+    this.messages[raw.id] = info;
+    return info;
+  };
+
+  getMessageInfo = (messageId: number): MessageInfo => {
+    return this.messages[messageId];
+  };
+
+  getMessageId = (timestamp: string): number => {
+    return Object.keys(this.messages)
+      .map(messageId => +messageId)
+      .find(messageId => this.messages[messageId].timestamp === timestamp);
+  };
+
+  getUser = (raw: any): User => {
+    const { user_id, full_name, email, avatar_url, is_bot } = raw;
+    const userId = `${user_id}`;
+    const imageUrl =
+      !!avatar_url && avatar_url.startsWith("/")
+        ? `${this.serverUrl}${avatar_url}`
+        : avatar_url;
+    this.emails[userId] = email;
+    return {
+      id: userId,
+      name: full_name,
+      fullName: full_name,
+      imageUrl,
+      smallImageUrl: imageUrl,
+      isOnline: false,
+      isBot: is_bot
+    };
+  };
+
+  getUsers = (rawUsers: any[]): Users => {
+    let users: Users = {};
+    rawUsers.forEach(raw => {
+      const user = this.getUser(raw);
+      users[user.id] = user;
+    });
+    return users;
+  };
+
+  getStreamChannel = (subscription: any): Channel => {
+    const { stream_id, name } = subscription;
+    const channelId = `${stream_id}`;
+    this.streamNames[channelId] = name;
+    return {
+      id: channelId,
+      name,
+      type: ChannelType.channel,
+      readTimestamp: undefined,
+      unreadCount: 0
+    };
+  };
+
+  getPrivateChannel = (userIds: number[], users: Users): Channel => {
+    const names = userIds
+      .map(userId => `${userId}`)
+      .map(userId => (userId in users ? users[userId].name : userId));
+    return {
+      id: getPrivateChannelId(userIds),
+      name: names.join(", "),
+      type: userIds.length > 1 ? ChannelType.group : ChannelType.im,
+      readTimestamp: undefined,
+      unreadCount: 0
+    };
+  };
+
+  getMessage = (raw: any): Message => {
+    const { sender_id, content, reactions, last_edit_timestamp } = raw;
+    return {
+      timestamp: getTimestamp(raw),
+      userId: `${sender_id}`,
+      text: content,
+      isEdited: !!last_edit_timestamp,
+      attachment: null,
+      content: null,
+      reactions: getReactions(reactions),
+      replies: {}
+    };
+  };
+
+  getMessageReply = (raw: any): MessageReply => {
+    const { userId, timestamp, text } = this.getMessage(raw);
+    return { userId, timestamp, text };
+  };
+
+  getChannelMessages = (rawMessages: any[]): ChannelMessages => {
+    // In this list, the first message of every topic is the parent,
+    // and the parent will be used for new messages on the topic
+    let result: ChannelMessages = {};
+    const sorted = [...rawMessages].sort((a, b) => a.id - b.id);
+    let seenTopics = {};
+    sorted.forEach(raw => {
+      const topicKey = this.getTopicKey(raw);
+
+      if (!!topicKey && !(topicKey in seenTopics)) {
+        seenTopics[topicKey] = true;
+        delete this.topicParents[topicKey];
+      }
+    });
+
+    sorted.forEach(raw => {
+      const { timestamp, parentTimestamp } = this.rememberMessage(raw);
+
+      if (!parentTimestamp) {
+        result[timestamp] = this.getMessage(raw);
+      } else if (parentTimestamp in result) {
+        result[parentTimestamp].replies[timestamp] = this.getMessageReply(raw);
+      }
+    });
+
+    return result;
+  };
+
+  getNarrow = (channelId: string, topic?: string) => {
+    if (isPrivateChannel(channelId)) {
+      const emails = getPrivateUserIds(channelId).map(
+        userId => this.emails[`${userId}`]
+      );
+      return [{ operator: "pm-with", operand: emails.join(",") }];
+    }
+
+    const streamNarrow = {
+      operator: "stream",
+      operand: this.streamNames[channelId]
+    };
+    return !!topic
+      ? [streamNarrow, { operator: "topic", operand: topic }]
+      : [streamNarrow];
+  };
+
+  getAuthTest = (): Promise<string> => {
+    // Used for diagnostic logging
+    return this.request("GET", "users/me")
+      .then(() => "users/me successful")
+      .catch(error => `error: ${error.toString()}`);
+  };
+
+  getMe = (): Promise<any> => {
+    return this.request("GET", "users/me");
+  };
+
+  register = (eventTypes: string[], fetchEventTypes: string[]) => {
+    return this.request("POST", "register", {
+      event_types: JSON.stringify(eventTypes),
+      fetch_event_types: JSON.stringify(fetchEventTypes),
+      apply_markdown: false,
+      client_gravatar: false,
+      slim_presence: true
+    });
+  };
+
+  getEvents = (queueId: string, lastEventId: number): Promise<any[]> => {
+    const params = { queue_id: queueId, last_event_id: lastEventId };
+    return this.request("GET", "events", params, EVENTS_TIMEOUT).then(
+      response => response.events
+    );
+  };
+
+  getConversationHistory = (channelId: string): Promise<ChannelMessages> => {
+    return this.request("GET", "messages", {
+      anchor: "newest",
+      num_before: HISTORY_LIMIT,
+      num_after: 0,
+      narrow: JSON.stringify(this.getNarrow(channelId)),
+      apply_markdown: false
+    }).then(response => this.getChannelMessages(response.messages));
+  };
+
+  getTopic = (channelId: string, parentTimestamp: string): Promise<Message> => {
+    const messageId = this.getMessageId(parentTimestamp);
+    const { topic } = this.messages[messageId];
+    return this.request("GET", "messages", {
+      anchor: messageId,
+      num_before: 0,
+      num_after: TOPIC_LIMIT,
+      narrow: JSON.stringify(this.getNarrow(channelId, topic)),
+      apply_markdown: false
+    }).then(response => {
+      const messages = this.getChannelMessages(response.messages);
+      return messages[parentTimestamp];
+    });
+  };
+
+  sendMessage = (
+    channelId: string,
+    text: string,
+    parentTimestamp: string
+  ): Promise<any> => {
+    if (isPrivateChannel(channelId)) {
+      return this.request("POST", "messages", {
+        type: "private",
+        to: JSON.stringify(getPrivateUserIds(channelId)),
+        content: text
+      });
+    }
+
+    const parentId = !!parentTimestamp
+      ? this.getMessageId(parentTimestamp)
+      : undefined;
+    const topic = !!parentId
+      ? this.messages[parentId].topic
+      : getTopicFromText(text);
+    return this.request("POST", "messages", {
+      type: "stream",
+      to: this.streamNames[channelId],
+      topic,
+      content: text
+    });
+  };
+
+  markMessagesRead = (messageIds: number[]): Promise<any> => {
+    return this.request("POST", "messages/flags", {
+      messages: JSON.stringify(messageIds),
+      op: "add",
+      flag: "read"
+    });
+  };
+}
@@ -0,0 +1,265 @@
+import ConfigHelper from "../config";
+import ZulipAPIClient, {
+  getPrivateChannelId,
+  getPrivateUserIds,
+  isPrivateChannel
+} from "./client";
+import ZulipMessenger from "./messenger";
+import {
+  IManager,
+  IChatProvider,
+  User,
+  Channel,
+  Users,
+  Message,
+  ChannelMessages,
+  UserPreferences,
+  CurrentUser,
+  ChatProviderCapabilities,
+  CustomEmoji,
+  ChannelHistory,
+  SearchResult
+} from "../interfaces";
+
+export class ZulipChatProvider implements IChatProvider {
+  capabilities: ChatProviderCapabilities = {
+    threads: true,
+    threadBroadcast: false,
+    reactions: false,
+    editMessage: false,
+    deleteMessage: false,
+    fileUpload: false,
+    presence: true,
+    historicalUnreads: true,
+    createIMChannel: true,
+    search: false,
+    typing: false,
+    commands: false,
+    syncHistory: false
+  };
+
+  private token: string;
+  private serverUrl: string;
+  private client: ZulipAPIClient;
+  private messenger: ZulipMessenger;
+
+  constructor(private manager: IManager) {}
+
+  async getToken(): Promise<string> {
+    // Zulip can be self-hosted, so we also need the server url. The token
+    // is the account email and the api key, like `email:apikey`.
+    this.serverUrl = ConfigHelper.getServerUrl("zulip");
+    this.token = await ConfigHelper.getToken("zulip");
+
+    if (!!this.serverUrl && !!this.token) {
+      this.client = new ZulipAPIClient(this.serverUrl, this.token);
+      return this.token;
+    }
+  }
+
+  getAuthTest(): Promise<string> {
+    if (!!this.client) {
+      return this.client.getAuthTest();
+    }
+  }
+
+  async connect(): Promise<CurrentUser> {
+    const me = await this.client.getMe();
+    this.client.setCurrentUserId(me.user_id);
+    this.messenger = new ZulipMessenger(this.client, this.manager);
+    await this.messenger.start();
+
+    // The Zulip organization is the only team
+    const serverName = this.serverUrl.replace(/^https?:\/\//, "");
+    return {
+      id: `${me.user_id}`,
+      name: me.full_name,
+      token: this.token,
+      teams: [{ id: serverName, name: serverName }],
+      currentTeamId: serverName,
+      provider: "zulip"
+    };
+  }
+
+  isConnected(): boolean {
+    return !!this.messenger && this.messenger.isConnected();
+  }
+
+  subscribePresence(users: Users) {
+    // Presence updates are received on the event queue
+  }
+
+  getChannel(channel: Channel): Channel {
+    const unreadCount = this.messenger.getUnreadCount(channel.id);
+    return { ...channel, unreadCount };
+  }
+
+  createIMChannel(user: User): Promise<Channel> {
+    // Private conversations don't need to be created
+    const users = this.messenger.users;
+    const channel = this.client.getPrivateChannel([+user.id], users);
+    return Promise.resolve(channel);
+  }
+
+  fetchUsers(): Promise<Users> {
+    const { users, presence } = this.messenger;
+    let result: Users = {};
+    Object.keys(users).forEach(userId => {
+      result[userId] = { ...users[userId], isOnline: !!presence[userId] };
+    });
+    return Promise.resolve(result);
+  }
+
+  fetchUserInfo(userId: string): Promise<User> {
+    return Promise.resolve(this.messenger.users[userId]);
+  }
+
+  fetchChannels(users: Users): Promise<Channel[]> {
+    // Streams are channels, and private conversations are DMs (or groups,
+    // for conversations with multiple users)
+    const { subscriptions, privateConversations, unreadIds } = this.messenger;
+    const streams = subscriptions.map(subscription =>
+      this.client.getStreamChannel(subscription)
+    );
+    let privateUserIds = {};
+    privateConversations.forEach(userIds => {
+      privateUserIds[getPrivateChannelId(userIds)] = userIds;
+    });
+    Object.keys(unreadIds)
+      .filter(channelId => isPrivateChannel(channelId))
+      .forEach(channelId => {
+        privateUserIds[channelId] = getPrivateUserIds(channelId);
+      });
+    const privateChannels = Object.keys(privateUserIds).map(channelId =>
+      this.client.getPrivateChannel(privateUserIds[channelId], users)
+    );
+    const channels = [...streams, ...privateChannels].map(channel =>
+      this.getChannel(channel)
+    );
+    return Promise.resolve(channels);
+  }
+
+  fetchChannelInfo(channel: Channel): Promise<Channel> {
+    // Unread counts are kept up-to-date by the event queue
+    return Promise.resolve(this.getChannel(channel));
+  }
+
+  loadChannelHistory(channelId: string): Promise<ChannelHistory> {
+    // Older pages are not supported yet
+    return this.client
+      .getConversationHistory(channelId)
+      .then(messages => ({ messages, hasMore: false }));
+  }
+
+  loadNewMessages(channelId: string, after: string): Promise<ChannelHistory> {
+    // Catching up is not supported yet, see capabilities
+    return Promise.resolve({ messages: {}, hasMore: false });
+  }
+
+  getUserPrefs(): Promise<UserPreferences> {
+    // Older servers send in_home_view instead of is_muted
+    const mutedChannels = this.messenger.subscriptions
+      .filter(
+        ({ is_muted, in_home_view }) =>
+          is_muted !== undefined ? is_muted : in_home_view === false
+      )
+      .map(({ stream_id }) => `${stream_id}`);
+    return Promise.resolve({ mutedChannels });
+  }
+
+  markChannel(channel: Channel, timestamp: string): Promise<Channel> {
+    // Zulip tracks read state for every message
+    const messageIds = this.messenger.unreadIds[channel.id] || [];
+    const marked =
+      messageIds.length > 0
+        ? this.client.markMessagesRead(messageIds)
+        : Promise.resolve();
+
+    return marked.then(() => {
+      this.messenger.removeUnreadIds(messageIds);
+      return { ...channel, readTimestamp: timestamp, unreadCount: 0 };
+    });
+  }
+
+  fetchThreadReplies(channelId: string, timestamp: string): Promise<Message> {
+    return this.client.getTopic(channelId, timestamp);
+  }
+
+  sendMessage(
+    text: string,
+    currentUserId: string,
+    channelId: string
+  ): Promise<void> {
+    // The new message is received on the event queue, so we don't
+    // need to update the store here
+    return this.client.sendMessage(channelId, text, undefined);
+  }
+
+  sendThreadReply(
+    text: string,
+    currentUserId: string,
+    channelId: string,
+    parentTimestamp: string
+  ): Promise<void> {
+    // Thread replies are sent to the topic of the parent message
+    return this.client.sendMessage(channelId, text, parentTimestamp);
+  }
+
+  editMessage(channelId: string, ts: string, text: string): Promise<void> {
+    // Edits are not supported yet, see capabilities
+    return Promise.resolve();
+  }
+
+  deleteMessage(channelId: string, ts: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  markThread(
+    channelId: string,
+    parentTimestamp: string,
+    ts: string
+  ): Promise<void> {
+    // Read state of threads is only kept locally
+    return Promise.resolve();
+  }
+
+  addReaction(channelId: string, ts: string, name: string): Promise<void> {
+    // Reacting is not supported yet, see capabilities
+    return Promise.resolve();
+  }
+
+  removeReaction(channelId: string, ts: string, name: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  fetchCustomEmoji(): Promise<CustomEmoji> {
+    return Promise.resolve({});
+  }
+
+  sendTyping(channelId: string): Promise<void> {
+    // Typing notifications are not supported yet, see capabilities
+    return Promise.resolve();
+  }
+
+  searchMessages(query: string): Promise<SearchResult[]> {
+    // Search is not supported yet, see capabilities
+    return Promise.resolve([]);
+  }
+
+  fetchCommands(): Promise<string[]> {
+    // Slash commands are not supported yet, see capabilities
+    return Promise.resolve([]);
+  }
+
+  sendCommand(channelId: string, command: string, text: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  destroy(): Promise<void> {
+    if (!!this.messenger) {
+      this.messenger.disconnect();
+    }
+
+    return Promise.resolve();
+  }
+}
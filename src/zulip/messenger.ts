@@ -0,0 +1,327 @@
+import * as vscode from "vscode";
+import ZulipAPIClient, { isActive, getPrivateChannelId } from "./client";
+import { IManager, ChannelMessages, Users } from "../interfaces";
+import { SelfCommands } from "../constants";
+import Logger from "../logger";
+
+const RETRY_TIMEOUT = 10 * 1000; // wait after a failed request, in ms
+
+const EVENT_TYPES = [
+  "message",
+  "reaction",
+  "update_message",
+  "delete_message",
+  "presence",
+  "update_message_flags"
+];
+
+// Initial state, returned by the register call
+const FETCH_EVENT_TYPES = [
+  "realm_user",
+  "subscription",
+  "unread_msgs",
+  "recent_private_conversations",
+  "presence"
+];
+
+class ZulipMessenger {
+  subscriptions: any[] = [];
+  users: Users = {};
+  privateConversations: number[][] = [];
+  unreadIds: { [channelId: string]: number[] } = {};
+  presence: { [userId: string]: boolean } = {};
+  private queueId: string;
+  private lastEventId: number;
+  private isRunning: boolean = false;
+  private isPolling: boolean = false;
+
+  constructor(private client: ZulipAPIClient, private manager: IManager) {}
+
+  start = (): Promise<void> => {
+    return this.register().then(() => {
+      this.isRunning = true;
+      this.isPolling = true;
+      this.pollLoop();
+    });
+  };
+
+  register = (): Promise<void> => {
+    return this.client
+      .register(EVENT_TYPES, FETCH_EVENT_TYPES)
+      .then(response => this.handleRegister(response));
+  };
+
+  pollLoop = async () => {
+    while (this.isRunning) {
+      try {
+        const events = await this.client.getEvents(
+          this.queueId,
+          this.lastEventId
+        );
+
+        if (this.isRunning) {
+          if (!this.isPolling) {
+            // Back after failed requests, so the missed messages are fetched
+            vscode.commands.executeCommand(SelfCommands.CONNECTED, {
+              provider: "zulip"
+            });
+          }
+
+          this.isPolling = true;
+          events.forEach(event => {
+            this.lastEventId = Math.max(this.lastEventId, event.id);
+            this.handleEvent(event);
+          });
+        }
+      } catch (error) {
+        const { code } = !!error.error ? error.error : { code: undefined };
+        Logger.log(`[ERROR] Zulip events: ${error.message}`);
+        const wasPolling = this.isPolling;
+        this.isPolling = false;
+
+        if (code === "BAD_EVENT_QUEUE_ID") {
+          // The event queue has expired on the server, and we need a new one
+          await this.register().catch(() => {});
+        } else {
+          if (this.isRunning && wasPolling) {
+            vscode.commands.executeCommand(SelfCommands.DISCONNECTED, {
+              provider: "zulip"
+            });
+          }
+
+          await new Promise(resolve => setTimeout(resolve, RETRY_TIMEOUT));
+        }
+      }
+    }
+  };
+
+  handleRegister = (response: any) => {
+    const { queue_id, last_event_id, unread_msgs, presences } = response;
+    this.queueId = queue_id;
+    this.lastEventId = last_event_id;
+    this.subscriptions = response.subscriptions;
+    this.users = this.client.getUsers(response.realm_users);
+    this.privateConversations = response.recent_private_conversations.map(
+      conversation => conversation.user_ids
+    );
+    this.unreadIds = {};
+
+    unread_msgs.streams.forEach(({ stream_id, unread_message_ids }) => {
+      this.addUnreadIds(`${stream_id}`, unread_message_ids);
+    });
+    unread_msgs.pms.forEach(pm => {
+      // Older servers send sender_id instead of other_user_id
+      const userId = pm.other_user_id || pm.sender_id;
+      const channelId = getPrivateChannelId([userId]);
+      this.addUnreadIds(channelId, pm.unread_message_ids);
+    });
+    unread_msgs.huddles.forEach(({ user_ids_string, unread_message_ids }) => {
+      const userIds = user_ids_string
+        .split(",")
+        .map(userId => +userId)
+        .filter(userId => userId !== this.client.currentUserId);
+      this.addUnreadIds(getPrivateChannelId(userIds), unread_message_ids);
+    });
+
+    Object.keys(presences || {}).forEach(userId => {
+      this.presence[userId] = isActive(presences[userId]);
+    });
+  };
+
+  addUnreadIds = (channelId: string, messageIds: number[]) => {
+    const existing = this.unreadIds[channelId] || [];
+    this.unreadIds[channelId] = [...existing, ...messageIds];
+  };
+
+  removeUnreadIds = (messageIds: number[]): string[] => {
+    // Returns the channels that were updated
+    let channelIds = [];
+    Object.keys(this.unreadIds).forEach(channelId => {
+      const unreadIds = this.unreadIds[channelId];
+      const remaining = unreadIds.filter(id => messageIds.indexOf(id) < 0);
+
+      if (remaining.length !== unreadIds.length) {
+        this.unreadIds[channelId] = remaining;
+        channelIds.push(channelId);
+      }
+    });
+    return channelIds;
+  };
+
+  getUnreadCount = (channelId: string): number => {
+    return (this.unreadIds[channelId] || []).length;
+  };
+
+  handleEvent = (event: any) => {
+    const { type } = event;
+
+    switch (type) {
+      case "message":
+        return this.handleMessage(event.message, event.flags);
+
+      case "reaction":
+        const reactionInfo = this.client.getMessageInfo(event.message_id);
+
+        if (!!reactionInfo && !reactionInfo.parentTimestamp) {
+          const command =
+            event.op === "add"
+              ? SelfCommands.ADD_MESSAGE_REACTION
+              : SelfCommands.REMOVE_MESSAGE_REACTION;
+          return vscode.commands.executeCommand(command, {
+            provider: "zulip",
+            userId: `${event.user_id}`,
+            channelId: reactionInfo.channelId,
+            msgTimestamp: reactionInfo.timestamp,
+            reactionName: `:${event.emoji_name}:`
+          });
+        }
+        break;
+
+      case "update_message":
+        return this.handleMessageEdit(event);
+
+      case "delete_message":
+        // Older servers send a single message_id
+        const deletedIds = event.message_ids || [event.message_id];
+        return deletedIds.forEach(messageId => {
+          const deletedInfo = this.client.getMessageInfo(messageId);
+
+          if (!!deletedInfo && !deletedInfo.parentTimestamp) {
+            let newMessages: ChannelMessages = {};
+            newMessages[deletedInfo.timestamp] = undefined;
+            vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGES, {
+              provider: "zulip",
+              channelId: deletedInfo.channelId,
+              messages: newMessages
+            });
+          }
+        });
+
+      case "presence":
+        const isOnline = isActive(event.presence);
+        this.presence[`${event.user_id}`] = isOnline;
+        return vscode.commands.executeCommand(
+          SelfCommands.UPDATE_USER_PRESENCE,
+          { provider: "zulip", userId: `${event.user_id}`, isOnline }
+        );
+
+      case "update_message_flags":
+        // Older servers send operation instead of op
+        const op = event.op || event.operation;
+
+        if (event.flag === "read" && op === "add") {
+          // Messages were read, possibly on another client
+          const channelIds = this.removeUnreadIds(event.messages);
+          return channelIds.forEach(channelId =>
+            vscode.commands.executeCommand(SelfCommands.CHANNEL_MARKED, {
+              provider: "zulip",
+              channelId,
+              readTimestamp: undefined,
+              unreadCount: this.getUnreadCount(channelId)
+            })
+          );
+        }
+        break;
+    }
+  };
+
+  handleMessage = (raw: any, flags: string[]) => {
+    const {
+      channelId,
+      timestamp,
+      parentTimestamp
+    } = this.client.rememberMessage(raw);
+
+    if (!!parentTimestamp) {
+      // This message is on an existing topic
+      vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGE_REPLIES, {
+        provider: "zulip",
+        parentTimestamp,
+        channelId,
+        reply: this.client.getMessageReply(raw)
+      });
+    } else {
+      let newMessages: ChannelMessages = {};
+      newMessages[timestamp] = this.client.getMessage(raw);
+      vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGES, {
+        provider: "zulip",
+        channelId,
+        messages: newMessages
+      });
+      this.handleMessageLinks(raw.content, `${raw.sender_id}`);
+    }
+
+    const isRead = !!flags && flags.indexOf("read") >= 0;
+
+    if (!isRead && raw.sender_id !== this.client.currentUserId) {
+      this.addUnreadIds(channelId, [raw.id]);
+      vscode.commands.executeCommand(SelfCommands.CHANNEL_MARKED, {
+        provider: "zulip",
+        channelId,
+        readTimestamp: undefined,
+        unreadCount: this.getUnreadCount(channelId)
+      });
+    }
+  };
+
+  handleMessageEdit = (event: any) => {
+    const info = this.client.getMessageInfo(event.message_id);
+
+    if (!info || event.content === undefined) {
+      // Topic changes without content changes are ignored
+      return;
+    }
+
+    const { channelId, timestamp, parentTimestamp } = info;
+    const channelMessages = this.manager.messages[channelId] || {};
+
+    if (!!parentTimestamp) {
+      const parent = channelMessages[parentTimestamp];
+      const reply = !!parent ? parent.replies[timestamp] : undefined;
+
+      if (!!reply) {
+        vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGE_REPLIES, {
+          provider: "zulip",
+          parentTimestamp,
+          channelId,
+          reply: { ...reply, text: event.content }
+        });
+      }
+    } else if (timestamp in channelMessages) {
+      let newMessages: ChannelMessages = {};
+      newMessages[timestamp] = {
+        ...channelMessages[timestamp],
+        text: event.content,
+        isEdited: true
+      };
+      vscode.commands.executeCommand(SelfCommands.UPDATE_MESSAGES, {
+        provider: "zulip",
+        channelId,
+        messages: newMessages
+      });
+    }
+  };
+
+  handleMessageLinks = (text: string, userId: string) => {
+    // For vsls invitations
+    try {
+      if (!!text && text.startsWith("http")) {
+        vscode.commands.executeCommand(SelfCommands.HANDLE_INCOMING_LINKS, {
+          provider: "zulip",
+          senderId: userId,
+          uri: vscode.Uri.parse(text)
+        });
+      }
+    } catch (err) {}
+  };
+
+  isConnected(): boolean {
+    return this.isRunning && this.isPolling;
+  }
+
+  disconnect() {
+    this.isRunning = false;
+  }
+}
+
+export default ZulipMessenger;